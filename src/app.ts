@@ -10,6 +10,11 @@ import registerRoutes from './routes';
 import setupSwagger from './plugins/swagger';
 import { registerMiddlewares } from './middlewares';
 import { prometheusService } from './services/monitoring/PrometheusService';
+import { linkProbeService } from './services/stream/LinkProbeService';
+import { credentialService } from './services/credentials/CredentialService';
+import { sourceSettingsService } from './services/sources/SourceSettingsService';
+import logger from './utils/logger';
+import { hasPlaybackSignature, verifyPlaybackSignature } from './utils/url-signer';
 import { globalErrorHandler, setupUncaughtExceptionHandler } from './utils/error-handler';
 
 // 声明__dirname的类型（在ESM模式下会丢失）
@@ -120,9 +125,9 @@ export async function createApp(): Promise<FastifyInstance> {
         cb(new Error(`Origin ${origin} not allowed`), false);
       }
     },
-    methods: ['GET', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
-    exposedHeaders: ['Content-Length', 'Date'],
+    methods: ['GET', 'POST', 'PUT', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Admin-Key', 'Range'],
+    exposedHeaders: ['Content-Length', 'Content-Range', 'Accept-Ranges', 'Date', 'X-Network-Policy'],
     credentials: false, // 默认不允许凭证
     maxAge: 86400, // 预检请求缓存1天
     preflightContinue: false
@@ -175,10 +180,36 @@ export async function createApp(): Promise<FastifyInstance> {
       }
     }
   }, 60 * 60 * 1000); // 每小时清理一次
+  // 不阻止进程退出
+  authFailCleanupInterval.unref();
+
+  // 后台抽样校验缓存的播放链接
+  if (config.LINK_VERIFIER_ENABLED) {
+    linkProbeService.startVerifier();
+  }
+
+  // 加载管理接口设置的音源凭据，失败时继续使用环境变量中的凭据，并定期同步集群中其他进程的修改
+  try {
+    await credentialService.initialize();
+  } catch (error) {
+    logger.error(`加载音源凭据失败: ${String(error)}`);
+  }
+  credentialService.startSync();
+
+  // 加载管理接口修改的音源设置，并定期同步集群中其他进程的修改
+  try {
+    await sourceSettingsService.initialize();
+  } catch (error) {
+    logger.error(`加载音源设置失败: ${String(error)}`);
+  }
+  sourceSettingsService.startSync();
 
   // 确保服务器关闭时清理定时器
   app.addHook('onClose', (_instance, done) => {
     clearInterval(authFailCleanupInterval);
+    linkProbeService.stopVerifier();
+    sourceSettingsService.stopSync();
+    credentialService.stopSync();
     done();
   });
 
@@ -188,8 +219,12 @@ export async function createApp(): Promise<FastifyInstance> {
     if (request.url.includes('/v1/api/')) {
       const apiKey = request.headers['x-api-key'] || request.headers['authorization']?.split('Bearer ')[1];
 
+      // 有效的签名播放链接不计入认证失败（播放器拖动进度会产生大量请求）
+      const hasValidSignature = hasPlaybackSignature(request.query) &&
+        verifyPlaybackSignature(request.query as Record<string, any>).valid;
+
       // 仅对没有API密钥的请求应用更严格的限制
-      if (!apiKey) {
+      if (!apiKey && !hasValidSignature) {
         // 使用内存中的计数器跟踪认证失败请求
         const authFailKey = `auth-fail:${request.ip}`;
         const now = Date.now();
@@ -1,4 +1,5 @@
 import * as dotenv from 'dotenv';
+import { getDefaultRankingSources } from './config/source-registry';
 
 // 加载环境变量
 dotenv.config();
@@ -36,7 +37,7 @@ export const config = {
   ENABLE_FLAC: parseBool(process.env.ENABLE_FLAC),
   SELECT_MAX_BR: parseBool(process.env.SELECT_MAX_BR),
   FOLLOW_SOURCE_ORDER: parseBool(process.env.FOLLOW_SOURCE_ORDER),
-  DEFAULT_SOURCES: parseArray(process.env.DEFAULT_SOURCES, ['kugou', 'kuwo', 'migu', 'ytdlp', 'bilibili']),
+  DEFAULT_SOURCES: parseArray(process.env.DEFAULT_SOURCES, getDefaultRankingSources()),
   COOKIES: {
     NETEASE_COOKIE: process.env.NETEASE_COOKIE,
     JOOX_COOKIE: process.env.JOOX_COOKIE,
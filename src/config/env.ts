@@ -27,6 +27,9 @@ export interface CacheConfig {
   REDIS_CACHE_TTL: number;
   SONG_CACHE_TTL: number;
   SOURCE_CACHE_TTL: number;
+  PIC_CACHE_SIZE: number;      // 专辑图字节缓存上限(MB)
+  PIC_CACHE_MAX_AGE: number;   // 专辑图响应的 Cache-Control max-age(秒)
+  URL_EXPIRY_MARGIN: number;   // 带时效签名的链接提前多久从缓存失效(秒)
 }
 
 /**
@@ -59,6 +62,8 @@ export interface EnvironmentConfig {
   ENABLE_FLAC: boolean;
   SELECT_MAX_BR: boolean;
   FOLLOW_SOURCE_ORDER: boolean;
+  MATCH_DURATION_CHECK: boolean;
+  MATCH_DURATION_TOLERANCE: number;
   MAX_SONG_SEARCH_RESULTS: number;
   SOURCE_PRIORITY: string;
 
@@ -101,9 +106,41 @@ export interface EnvironmentConfig {
   IP_WHITELIST: string;
   TRUST_PROXY: boolean;
 
+  // 播放链接签名设置
+  URL_SIGNING_SECRET?: string;
+  URL_SIGNING_PREVIOUS_SECRET?: string;
+  URL_SIGNING_ROTATED_AT?: string;
+  URL_SIGNING_GRACE_PERIOD: number;
+  SIGNED_URL_TTL: number;
+  SIGNED_URL_BIND_API_KEY: boolean;
+
+  // 管理接口与音源凭据设置
+  ADMIN_API_KEYS: string;
+  CREDENTIAL_SECRET?: string;
+  CREDENTIAL_STORE_PATH: string;
+  SOURCE_SETTINGS_PATH: string;
+  SOURCE_SETTINGS_SYNC_INTERVAL: number;
+
   // 请求设置
   REQUEST_TIMEOUT: number;
+  REQUEST_DEADLINE_MAX: number;
   SEARCH_TIMEOUT: number;
+  RETRY_ATTEMPTS: number;
+  RETRY_BASE_DELAY: number;
+  RETRY_MAX_DELAY: number;
+
+  // 批量请求设置
+  BATCH_MAX_ITEMS: number;
+  BATCH_CONCURRENCY: number;
+
+  // 熔断设置
+  CIRCUIT_BREAKER_THRESHOLD: number;
+  CIRCUIT_BREAKER_RESET_TIMEOUT: number;
+
+  // 播放链接校验设置
+  LINK_VERIFIER_ENABLED: boolean;
+  LINK_VERIFIER_INTERVAL: number;
+  LINK_VERIFIER_SAMPLE_SIZE: number;
 
   // 文档设置
   ENABLE_DOCS: boolean;
@@ -144,6 +181,8 @@ const defaultConfig = {
   ENABLE_FLAC: true,
   SELECT_MAX_BR: true,
   FOLLOW_SOURCE_ORDER: true,
+  MATCH_DURATION_CHECK: true, // 拒绝试听片段和时长不符的匹配结果
+  MATCH_DURATION_TOLERANCE: 20, // 与原曲时长允许相差20秒
   ENABLE_REDIS_CACHE: false,
   ENABLE_DOCS: true,
   CACHE: {
@@ -151,7 +190,10 @@ const defaultConfig = {
     MEMORY_CACHE_TTL: 300,     // 5分钟
     REDIS_CACHE_TTL: 86400,    // 1天
     SONG_CACHE_TTL: 86400,     // 1天
-    SOURCE_CACHE_TTL: 3600     // 1小时
+    SOURCE_CACHE_TTL: 3600,    // 1小时
+    PIC_CACHE_SIZE: 64,        // 64MB
+    PIC_CACHE_MAX_AGE: 2592000, // 30天
+    URL_EXPIRY_MARGIN: 300     // 5分钟
   },
   HOST: '0.0.0.0',
   BASE_URL: 'http://localhost:5678',
@@ -161,6 +203,13 @@ const defaultConfig = {
   ENABLE_IP_WHITELIST: false,
   IP_WHITELIST: '127.0.0.1', // 默认只允许本地访问，而不是通配符
   TRUST_PROXY: true, // 默认信任代理，获取真实客户端IP
+  URL_SIGNING_GRACE_PERIOD: 3600, // 轮换后旧签名密钥继续有效1小时
+  SIGNED_URL_TTL: 3600, // 签名链接1小时后过期
+  SIGNED_URL_BIND_API_KEY: false,
+  ADMIN_API_KEYS: '', // 未设置时不开放管理接口
+  CREDENTIAL_STORE_PATH: './data/credentials.json', // 未配置数据库时凭据加密保存到该文件
+  SOURCE_SETTINGS_PATH: './data/source-settings.json', // 未配置数据库时音源开关和顺序保存到该文件
+  SOURCE_SETTINGS_SYNC_INTERVAL: 5000, // 每5秒检查其他进程修改的音源设置和凭据，0表示不同步
   LOG_LEVEL: process.env.NODE_ENV === 'production' ? 'warn' : 'info', // 生产环境默认warn级别
   LOG_TO_FILE: process.env.NODE_ENV === 'production', // 生产环境默认记录到文件
   LOG_DIR: path.resolve(process.cwd(), 'logs'),
@@ -176,6 +225,17 @@ const defaultConfig = {
   ENABLE_KUWO: true,
   ENABLE_BILIBILI: true,
   REQUEST_TIMEOUT: 15000, // 15秒
+  REQUEST_DEADLINE_MAX: 30000, // 客户端 timeout 参数最多30秒
+  RETRY_ATTEMPTS: 2, // 临时错误最多重试2次
+  RETRY_BASE_DELAY: 200, // 重试退避基准200毫秒
+  RETRY_MAX_DELAY: 2000, // 单次退避最长2秒
+  BATCH_MAX_ITEMS: 50, // 单次批量请求最多50首
+  BATCH_CONCURRENCY: 5, // 批量解析时最多同时请求5首
+  CIRCUIT_BREAKER_THRESHOLD: 5, // 连续失败5次后熔断
+  CIRCUIT_BREAKER_RESET_TIMEOUT: 30000, // 熔断30秒后半开试探
+  LINK_VERIFIER_ENABLED: false, // 默认不在后台校验缓存的播放链接
+  LINK_VERIFIER_INTERVAL: 5 * 60 * 1000, // 每5分钟抽样一次
+  LINK_VERIFIER_SAMPLE_SIZE: 20, // 每次抽样20条
   USER_AGENT: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/119.0.0.0 Safari/537.36',
   CORS_ORIGIN: process.env.NODE_ENV === 'production' ? '' : '*', // 生产环境默认不允许所有域
   ENABLE_RATE_LIMIT: process.env.NODE_ENV === 'production', // 生产环境默认启用请求限制
@@ -250,6 +310,61 @@ const validateConfig = (config: EnvironmentConfig): void => {
     console.warn(`警告: 请求超时时间 ${config.REQUEST_TIMEOUT}ms 过短，将使用最小值 1000ms`);
     config.REQUEST_TIMEOUT = 1000;
   }
+  if (config.REQUEST_DEADLINE_MAX < config.REQUEST_TIMEOUT) {
+    console.warn(`警告: 请求截止时间上限 ${config.REQUEST_DEADLINE_MAX}ms 小于请求超时时间，将使用 ${config.REQUEST_TIMEOUT}ms`);
+    config.REQUEST_DEADLINE_MAX = config.REQUEST_TIMEOUT;
+  }
+
+  // 验证签名链接设置
+  if (config.SIGNED_URL_TTL < 60) {
+    console.warn(`警告: 签名链接有效期 ${config.SIGNED_URL_TTL}s 过短，将使用最小值 60s`);
+    config.SIGNED_URL_TTL = 60;
+  }
+
+  if (config.SOURCE_SETTINGS_SYNC_INTERVAL > 0 && config.SOURCE_SETTINGS_SYNC_INTERVAL < 1000) {
+    console.warn(`警告: 音源设置同步间隔 ${config.SOURCE_SETTINGS_SYNC_INTERVAL}ms 过短，将使用最小值 1000ms`);
+    config.SOURCE_SETTINGS_SYNC_INTERVAL = 1000;
+  }
+
+  if (config.CREDENTIAL_SECRET && config.CREDENTIAL_SECRET.length < 32) {
+    console.warn('警告: CREDENTIAL_SECRET 长度不足32个字符，建议使用更长的随机密钥');
+  }
+
+  if (config.URL_SIGNING_SECRET && config.URL_SIGNING_SECRET.length < 32) {
+    console.warn('警告: URL_SIGNING_SECRET 长度不足32个字符，建议使用更长的随机密钥');
+  }
+
+  if (config.URL_SIGNING_PREVIOUS_SECRET &&
+    !(config.URL_SIGNING_ROTATED_AT && (/^\d+$/.test(config.URL_SIGNING_ROTATED_AT) || Number.isFinite(Date.parse(config.URL_SIGNING_ROTATED_AT))))) {
+    console.warn('警告: 设置了 URL_SIGNING_PREVIOUS_SECRET 但 URL_SIGNING_ROTATED_AT 缺失或格式不正确，旧密钥签名的链接将不被接受');
+  }
+
+  // 验证批量请求设置
+  if (config.BATCH_CONCURRENCY < 1) {
+    console.warn(`警告: 批量并发数 ${config.BATCH_CONCURRENCY} 过小，将使用最小值 1`);
+    config.BATCH_CONCURRENCY = 1;
+  }
+
+  // 验证重试与熔断设置
+  if (config.RETRY_ATTEMPTS < 0) {
+    console.warn(`警告: 重试次数 ${config.RETRY_ATTEMPTS} 无效，将不进行重试`);
+    config.RETRY_ATTEMPTS = 0;
+  }
+
+  if (config.MATCH_DURATION_TOLERANCE < 1) {
+    console.warn(`警告: 匹配时长容差 ${config.MATCH_DURATION_TOLERANCE} 秒过小，将使用最小值 1`);
+    config.MATCH_DURATION_TOLERANCE = 1;
+  }
+
+  if (config.LINK_VERIFIER_INTERVAL < 10000) {
+    console.warn(`警告: 播放链接校验间隔 ${config.LINK_VERIFIER_INTERVAL}ms 过短，将使用最小值 10000ms`);
+    config.LINK_VERIFIER_INTERVAL = 10000;
+  }
+
+  if (config.CIRCUIT_BREAKER_THRESHOLD < 1) {
+    console.warn(`警告: 熔断阈值 ${config.CIRCUIT_BREAKER_THRESHOLD} 过小，将使用最小值 1`);
+    config.CIRCUIT_BREAKER_THRESHOLD = 1;
+  }
 
   // 验证缓存设置
   if (config.CACHE.MEMORY_CACHE_SIZE < 10) {
@@ -299,6 +414,8 @@ export const config: EnvironmentConfig = {
   ENABLE_FLAC: parseBool(process.env.ENABLE_FLAC, defaultConfig.ENABLE_FLAC),
   SELECT_MAX_BR: parseBool(process.env.SELECT_MAX_BR, defaultConfig.SELECT_MAX_BR),
   FOLLOW_SOURCE_ORDER: parseBool(process.env.FOLLOW_SOURCE_ORDER, defaultConfig.FOLLOW_SOURCE_ORDER),
+  MATCH_DURATION_CHECK: parseBool(process.env.MATCH_DURATION_CHECK, defaultConfig.MATCH_DURATION_CHECK),
+  MATCH_DURATION_TOLERANCE: parseNumber(process.env.MATCH_DURATION_TOLERANCE, defaultConfig.MATCH_DURATION_TOLERANCE),
   REDIS_URL: process.env.REDIS_URL,
   ENABLE_REDIS_CACHE: parseBool(process.env.ENABLE_REDIS_CACHE, defaultConfig.ENABLE_REDIS_CACHE),
   NETEASE_COOKIE: process.env.NETEASE_COOKIE,
@@ -312,7 +429,10 @@ export const config: EnvironmentConfig = {
     MEMORY_CACHE_TTL: parseNumber(process.env.MEMORY_CACHE_TTL, defaultConfig.CACHE.MEMORY_CACHE_TTL),
     REDIS_CACHE_TTL: parseNumber(process.env.REDIS_CACHE_TTL, defaultConfig.CACHE.REDIS_CACHE_TTL),
     SONG_CACHE_TTL: parseNumber(process.env.SONG_CACHE_TTL, defaultConfig.CACHE.SONG_CACHE_TTL),
-    SOURCE_CACHE_TTL: parseNumber(process.env.SOURCE_CACHE_TTL, defaultConfig.CACHE.SOURCE_CACHE_TTL)
+    SOURCE_CACHE_TTL: parseNumber(process.env.SOURCE_CACHE_TTL, defaultConfig.CACHE.SOURCE_CACHE_TTL),
+    PIC_CACHE_SIZE: parseNumber(process.env.PIC_CACHE_SIZE, defaultConfig.CACHE.PIC_CACHE_SIZE),
+    PIC_CACHE_MAX_AGE: parseNumber(process.env.PIC_CACHE_MAX_AGE, defaultConfig.CACHE.PIC_CACHE_MAX_AGE),
+    URL_EXPIRY_MARGIN: parseNumber(process.env.URL_EXPIRY_MARGIN, defaultConfig.CACHE.URL_EXPIRY_MARGIN)
   },
   HOST: process.env.HOST || defaultConfig.HOST,
   BASE_URL: process.env.BASE_URL || defaultConfig.BASE_URL,
@@ -322,6 +442,17 @@ export const config: EnvironmentConfig = {
   ENABLE_IP_WHITELIST: parseBool(process.env.ENABLE_IP_WHITELIST, defaultConfig.ENABLE_IP_WHITELIST),
   IP_WHITELIST: process.env.IP_WHITELIST || defaultConfig.IP_WHITELIST,
   TRUST_PROXY: parseBool(process.env.TRUST_PROXY, defaultConfig.TRUST_PROXY),
+  URL_SIGNING_SECRET: process.env.URL_SIGNING_SECRET,
+  URL_SIGNING_PREVIOUS_SECRET: process.env.URL_SIGNING_PREVIOUS_SECRET,
+  URL_SIGNING_ROTATED_AT: process.env.URL_SIGNING_ROTATED_AT,
+  URL_SIGNING_GRACE_PERIOD: parseNumber(process.env.URL_SIGNING_GRACE_PERIOD, defaultConfig.URL_SIGNING_GRACE_PERIOD),
+  SIGNED_URL_TTL: parseNumber(process.env.SIGNED_URL_TTL, defaultConfig.SIGNED_URL_TTL),
+  SIGNED_URL_BIND_API_KEY: parseBool(process.env.SIGNED_URL_BIND_API_KEY, defaultConfig.SIGNED_URL_BIND_API_KEY),
+  ADMIN_API_KEYS: process.env.ADMIN_API_KEYS || defaultConfig.ADMIN_API_KEYS,
+  CREDENTIAL_SECRET: process.env.CREDENTIAL_SECRET,
+  CREDENTIAL_STORE_PATH: process.env.CREDENTIAL_STORE_PATH || defaultConfig.CREDENTIAL_STORE_PATH,
+  SOURCE_SETTINGS_PATH: process.env.SOURCE_SETTINGS_PATH || defaultConfig.SOURCE_SETTINGS_PATH,
+  SOURCE_SETTINGS_SYNC_INTERVAL: parseNumber(process.env.SOURCE_SETTINGS_SYNC_INTERVAL, defaultConfig.SOURCE_SETTINGS_SYNC_INTERVAL),
   LOG_LEVEL: process.env.LOG_LEVEL || defaultConfig.LOG_LEVEL,
   LOG_TO_FILE: parseBool(process.env.LOG_TO_FILE, defaultConfig.LOG_TO_FILE),
   LOG_DIR: process.env.LOG_DIR || defaultConfig.LOG_DIR,
@@ -337,6 +468,17 @@ export const config: EnvironmentConfig = {
   ENABLE_KUWO: parseBool(process.env.ENABLE_KUWO, defaultConfig.ENABLE_KUWO),
   ENABLE_BILIBILI: parseBool(process.env.ENABLE_BILIBILI, defaultConfig.ENABLE_BILIBILI),
   REQUEST_TIMEOUT: parseNumber(process.env.REQUEST_TIMEOUT, defaultConfig.REQUEST_TIMEOUT),
+  REQUEST_DEADLINE_MAX: parseNumber(process.env.REQUEST_DEADLINE_MAX, defaultConfig.REQUEST_DEADLINE_MAX),
+  RETRY_ATTEMPTS: parseNumber(process.env.RETRY_ATTEMPTS, defaultConfig.RETRY_ATTEMPTS),
+  RETRY_BASE_DELAY: parseNumber(process.env.RETRY_BASE_DELAY, defaultConfig.RETRY_BASE_DELAY),
+  RETRY_MAX_DELAY: parseNumber(process.env.RETRY_MAX_DELAY, defaultConfig.RETRY_MAX_DELAY),
+  BATCH_MAX_ITEMS: parseNumber(process.env.BATCH_MAX_ITEMS, defaultConfig.BATCH_MAX_ITEMS),
+  BATCH_CONCURRENCY: parseNumber(process.env.BATCH_CONCURRENCY, defaultConfig.BATCH_CONCURRENCY),
+  CIRCUIT_BREAKER_THRESHOLD: parseNumber(process.env.CIRCUIT_BREAKER_THRESHOLD, defaultConfig.CIRCUIT_BREAKER_THRESHOLD),
+  CIRCUIT_BREAKER_RESET_TIMEOUT: parseNumber(process.env.CIRCUIT_BREAKER_RESET_TIMEOUT, defaultConfig.CIRCUIT_BREAKER_RESET_TIMEOUT),
+  LINK_VERIFIER_ENABLED: parseBool(process.env.LINK_VERIFIER_ENABLED, defaultConfig.LINK_VERIFIER_ENABLED),
+  LINK_VERIFIER_INTERVAL: parseNumber(process.env.LINK_VERIFIER_INTERVAL, defaultConfig.LINK_VERIFIER_INTERVAL),
+  LINK_VERIFIER_SAMPLE_SIZE: parseNumber(process.env.LINK_VERIFIER_SAMPLE_SIZE, defaultConfig.LINK_VERIFIER_SAMPLE_SIZE),
   USER_AGENT: process.env.USER_AGENT || defaultConfig.USER_AGENT,
   CORS_ORIGIN: process.env.CORS_ORIGIN || defaultConfig.CORS_ORIGIN,
   // 速率限制配置 - 生产环境默认启用
@@ -12,5 +12,8 @@ export * from './sources';
 // 导出音乐源描述
 export * from './music-sources';
 
+// 导出音源注册表
+export * from './source-registry';
+
 // 导出config对象作为默认导出
 export { config as default } from './env'; 
\ No newline at end of file
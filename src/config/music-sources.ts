@@ -1,8 +1,16 @@
 /**
  * 音源配置文件
- * 统一管理所有音源的信息，包括名称、代码、图标、描述等
+ * 音源的名称、图标、描述等展示信息，由音源注册表派生
  */
 
+import {
+    SourceCode,
+    getDefaultMatchSources,
+    getSourceDefinition,
+    getSourcesFor,
+    isSourceEnabled
+} from './source-registry';
+
 export interface MusicSource {
     code: string;       // 音源代码，用于API请求
     name: string;       // 音源名称
@@ -15,71 +23,28 @@ export interface MusicSource {
 }
 
 /**
- * 音源列表配置
+ * 由音源定义生成展示信息
+ */
+function toMusicSource(code: SourceCode): MusicSource {
+    const definition = getSourceDefinition(code);
+    return {
+        code,
+        name: definition.name,
+        description: definition.description,
+        icon: definition.icon,
+        color: definition.color,
+        ...(definition.credential?.required && { needCookie: true }),
+        ...(definition.needProxy && { needProxy: true }),
+        ...(definition.needInstall && { needInstall: true })
+    };
+}
+
+/**
+ * 音源列表配置（可以通过解灰模块匹配的音源）
  */
-export const MUSIC_SOURCES: Record<string, MusicSource> = {
-    qq: {
-        code: 'qq',
-        name: 'QQ音乐',
-        description: '需要QQ_COOKIE',
-        icon: 'qq',
-        color: 'red',
-        needCookie: true
-    },
-    kugou: {
-        code: 'kugou',
-        name: '酷狗音乐',
-        description: '酷狗音乐',
-        icon: 'music',
-        color: 'blue'
-    },
-    kuwo: {
-        code: 'kuwo',
-        name: '酷我音乐',
-        description: '酷我音乐',
-        icon: 'music',
-        color: 'purple'
-    },
-    migu: {
-        code: 'migu',
-        name: '咪咕音乐',
-        description: '需要MIGU_COOKIE',
-        icon: 'mobile-alt',
-        color: 'pink',
-        needCookie: true
-    },
-    joox: {
-        code: 'joox',
-        name: 'JOOX',
-        description: '需要JOOX_COOKIE',
-        icon: 'play-circle',
-        color: 'green',
-        needCookie: true
-    },
-    youtube: {
-        code: 'youtube',
-        name: 'YouTube',
-        description: '需要非中国大陆IP',
-        icon: 'youtube',
-        color: 'red',
-        needProxy: true
-    },
-    ytdlp: {
-        code: 'ytdlp',
-        name: 'YouTube (yt-dlp)',
-        description: '通过yt-dlp，需要安装',
-        icon: 'youtube',
-        color: 'red',
-        needInstall: true
-    },
-    bilibili: {
-        code: 'bilibili',
-        name: 'B站音乐',
-        description: 'B站音乐',
-        icon: 'play',
-        color: 'blue'
-    }
-};
+export const MUSIC_SOURCES: Record<string, MusicSource> = Object.fromEntries(
+    getSourcesFor('match').map(code => [code, toMusicSource(code)])
+);
 
 /**
  * 获取所有音源列表数组
@@ -92,7 +57,7 @@ export function getAllMusicSources(): MusicSource[] {
  * 获取默认音源列表（顺序按照后端设置）
  */
 export function getDefaultSources(): string[] {
-    return ['kugou', 'kuwo', 'migu', 'ytdlp', 'bilibili', 'qq', 'youtube', 'joox'];
+    return getDefaultMatchSources();
 }
 
 /**
@@ -107,10 +72,11 @@ export function getMusicSource(code: string): MusicSource | undefined {
  * 获取音源描述数组（用于API响应）
  */
 export function getSourceDescriptions(): string[] {
-    return Object.values(MUSIC_SOURCES).map(source =>
-        `${source.code} - ${source.name}${source.needCookie ? '（需要' + source.code.toUpperCase() + '_COOKIE）' :
-            source.needProxy ? '（需要非中国大陆IP）' :
-                source.needInstall ? '（通过yt-dlp，需要安装）' : ''
-        }`
-    );
-} 
\ No newline at end of file
+    return getSourcesFor('match').map(code => {
+        const definition = getSourceDefinition(code);
+        const note = definition.credential?.required ? `（需要${definition.credential.env}）` :
+            definition.needProxy ? '（需要非中国大陆IP）' :
+                definition.needInstall ? `（${definition.description}）` : '';
+        return `${code} - ${definition.name}${note}${isSourceEnabled(code) ? '' : '（已禁用）'}`;
+    });
+}
\ No newline at end of file
@@ -0,0 +1,386 @@
+/**
+ * 音源注册表
+ * 集中描述每个音源的名称、支持的操作、ID格式、凭据、默认音质评分和开关，
+ * 音源校验、/sources 和音源排名都从这里派生
+ */
+
+import { config } from './env';
+
+/**
+ * 音源支持的操作
+ * match: 通过解灰模块匹配；url/search/lyric/pic: 通过音乐API获取播放链接、搜索、歌词、专辑图
+ */
+export type SourceOperation = 'match' | 'url' | 'search' | 'lyric' | 'pic';
+
+/**
+ * 音源需要的凭据
+ */
+export interface SourceCredential {
+  env: 'NETEASE_COOKIE' | 'QQ_COOKIE' | 'MIGU_COOKIE' | 'JOOX_COOKIE' | 'YOUTUBE_KEY';
+  description: string;
+  required: boolean;  // 为false时没有凭据也能使用，只是可用歌曲较少
+}
+
+/**
+ * 音源定义
+ */
+export interface SourceDefinition {
+  name: string;                            // 音源名称
+  description: string;                     // 音源描述
+  icon: string;                            // 图标类名（FontAwesome）
+  color: string;                           // 图标背景颜色
+  catalogCode?: string;                    // 音乐API和 source:id 中使用的名称，与音源代码不同时填写
+  aliases?: readonly string[];             // 其他可接受的名称
+  operations: readonly SourceOperation[];
+  idPattern?: RegExp;                      // 曲目ID格式，未填写时不能作为 source:id 的前缀
+  credential?: SourceCredential;
+  qualityScore?: number;                   // 默认音质评分，用于音源排名
+  enableFlag?: 'ENABLE_NETEASE' | 'ENABLE_TENCENT' | 'ENABLE_KUGOU' | 'ENABLE_KUWO' | 'ENABLE_BILIBILI';
+  defaultOrder?: number;                   // 在默认匹配音源中的顺序，未填写时不参与默认匹配
+  rankingDefault?: boolean;                // 是否为音源排名和音源管理的默认音源，按 defaultOrder 排序
+  needProxy?: boolean;                     // 是否需要非中国大陆IP
+  needInstall?: boolean;                   // 是否需要安装额外软件
+}
+
+// 通过音乐API提供的操作
+const CATALOG_OPERATIONS = ['url', 'search', 'lyric', 'pic'] as const;
+
+// 解灰模块和音乐API都支持的操作
+const ALL_OPERATIONS = ['match', ...CATALOG_OPERATIONS] as const;
+
+/**
+ * 音源列表，键为音源代码（与解灰模块一致）
+ */
+export const SOURCE_REGISTRY = {
+  netease: {
+    name: '网易云音乐',
+    description: '网易云音乐',
+    icon: 'music',
+    color: 'red',
+    operations: CATALOG_OPERATIONS,
+    idPattern: /^\d{1,20}$/,
+    credential: { env: 'NETEASE_COOKIE', description: '网易云音乐Cookie，需包含 MUSIC_U', required: false },
+    enableFlag: 'ENABLE_NETEASE'
+  },
+  qq: {
+    name: 'QQ音乐',
+    description: '需要QQ_COOKIE',
+    icon: 'qq',
+    color: 'red',
+    catalogCode: 'tencent',
+    aliases: ['tencent'],
+    operations: ALL_OPERATIONS,
+    idPattern: /^([0-9A-Za-z]{14}|\d{1,20})$/,  // songmid 或数字 songid
+    credential: { env: 'QQ_COOKIE', description: 'QQ音乐Cookie，需包含 uin 和 qm_keyst 或 qqmusic_key', required: true },
+    qualityScore: 85,
+    enableFlag: 'ENABLE_TENCENT',
+    defaultOrder: 6
+  },
+  kugou: {
+    name: '酷狗音乐',
+    description: '酷狗音乐',
+    icon: 'music',
+    color: 'blue',
+    operations: ALL_OPERATIONS,
+    idPattern: /^[0-9A-Fa-f]{32}$/,  // 文件hash
+    qualityScore: 80,
+    enableFlag: 'ENABLE_KUGOU',
+    defaultOrder: 1,
+    rankingDefault: true
+  },
+  kuwo: {
+    name: '酷我音乐',
+    description: '酷我音乐',
+    icon: 'music',
+    color: 'purple',
+    operations: ALL_OPERATIONS,
+    idPattern: /^(MUSIC_)?\d{1,20}$/,
+    qualityScore: 75,
+    enableFlag: 'ENABLE_KUWO',
+    defaultOrder: 2,
+    rankingDefault: true
+  },
+  migu: {
+    name: '咪咕音乐',
+    description: '需要MIGU_COOKIE',
+    icon: 'mobile-alt',
+    color: 'pink',
+    operations: ALL_OPERATIONS,
+    idPattern: /^[0-9A-Za-z]{1,32}$/,
+    credential: { env: 'MIGU_COOKIE', description: '咪咕音乐的 aversionid', required: true },
+    qualityScore: 90,
+    defaultOrder: 3,
+    rankingDefault: true
+  },
+  joox: {
+    name: 'JOOX',
+    description: '需要JOOX_COOKIE',
+    icon: 'play-circle',
+    color: 'green',
+    operations: ALL_OPERATIONS,
+    idPattern: /^[0-9A-Za-z_-]{1,64}$/,
+    credential: { env: 'JOOX_COOKIE', description: 'JOOX Cookie，需包含 wmid 和 session_key', required: true },
+    qualityScore: 70,
+    defaultOrder: 8
+  },
+  youtube: {
+    name: 'YouTube',
+    description: '需要非中国大陆IP',
+    icon: 'youtube',
+    color: 'red',
+    catalogCode: 'ytmusic',
+    aliases: ['ytmusic'],
+    operations: ALL_OPERATIONS,
+    idPattern: /^[A-Za-z0-9_-]{11}$/,
+    credential: { env: 'YOUTUBE_KEY', description: 'YouTube Data API v3 密钥', required: false },
+    qualityScore: 88,
+    defaultOrder: 7,
+    needProxy: true
+  },
+  ytdlp: {
+    name: 'YouTube (yt-dlp)',
+    description: '通过yt-dlp，需要安装',
+    icon: 'youtube',
+    color: 'red',
+    operations: ['match'],
+    qualityScore: 95,
+    defaultOrder: 4,
+    rankingDefault: true,
+    needInstall: true
+  },
+  youtubedl: {
+    name: 'YouTube (youtube-dl)',
+    description: '通过youtube-dl，需要安装',
+    icon: 'youtube',
+    color: 'red',
+    operations: ['match'],
+    qualityScore: 70,
+    needInstall: true
+  },
+  ytdownload: {
+    name: 'YouTube (ytdownload)',
+    description: 'YouTube下载接口',
+    icon: 'youtube',
+    color: 'red',
+    operations: ['match'],
+    qualityScore: 70,
+    needProxy: true
+  },
+  bilibili: {
+    name: 'B站音乐',
+    description: 'B站音乐',
+    icon: 'play',
+    color: 'blue',
+    operations: ['match'],
+    idPattern: /^(au\d{1,20}|BV[0-9A-Za-z]{10})$/,  // 音频区auID或视频BV号
+    qualityScore: 65,
+    enableFlag: 'ENABLE_BILIBILI',
+    defaultOrder: 5,
+    rankingDefault: true
+  },
+  pyncmd: {
+    name: 'pyncm',
+    description: '通过网易云第三方接口获取',
+    icon: 'music',
+    color: 'red',
+    operations: ['match'],
+    qualityScore: 60
+  },
+  spotify: {
+    name: 'Spotify',
+    description: 'Spotify',
+    icon: 'spotify',
+    color: 'green',
+    operations: CATALOG_OPERATIONS,
+    idPattern: /^[0-9A-Za-z]{22}$/
+  },
+  tidal: {
+    name: 'TIDAL',
+    description: 'TIDAL',
+    icon: 'music',
+    color: 'black',
+    operations: CATALOG_OPERATIONS,
+    idPattern: /^\d{1,20}$/
+  },
+  qobuz: {
+    name: 'Qobuz',
+    description: 'Qobuz',
+    icon: 'music',
+    color: 'blue',
+    operations: CATALOG_OPERATIONS,
+    idPattern: /^\d{1,20}$/
+  },
+  deezer: {
+    name: 'Deezer',
+    description: 'Deezer',
+    icon: 'music',
+    color: 'purple',
+    operations: CATALOG_OPERATIONS,
+    idPattern: /^\d{1,20}$/
+  },
+  ximalaya: {
+    name: '喜马拉雅',
+    description: '喜马拉雅',
+    icon: 'podcast',
+    color: 'orange',
+    operations: CATALOG_OPERATIONS,
+    idPattern: /^\d{1,20}$/
+  }
+} as const satisfies Record<string, SourceDefinition>;
+
+type Registry = typeof SOURCE_REGISTRY;
+
+/**
+ * 音源代码
+ */
+export type SourceCode = keyof Registry;
+
+/**
+ * 支持指定操作的音源代码
+ */
+export type SourceCodeWith<O extends SourceOperation> = {
+  [K in SourceCode]: O extends Registry[K]['operations'][number] ? K : never
+}[SourceCode];
+
+/**
+ * 可以通过解灰模块匹配的音源
+ */
+export type MatchSourceCode = SourceCodeWith<'match'>;
+
+const ENTRIES = Object.entries(SOURCE_REGISTRY) as Array<[SourceCode, SourceDefinition]>;
+
+// 名称（音源代码、音乐API名称、别名）到音源代码的映射
+const NAME_INDEX = new Map<string, SourceCode>();
+for (const [code, definition] of ENTRIES) {
+  for (const name of [code, definition.catalogCode, ...(definition.aliases || [])]) {
+    if (name && !NAME_INDEX.has(name)) {
+      NAME_INDEX.set(name, code);
+    }
+  }
+}
+
+// 管理接口设置的开关，优先于 ENABLE_* 配置
+const enableOverrides = new Map<SourceCode, boolean>();
+
+/**
+ * 按名称查找音源，支持音乐API名称和别名
+ * @param name 音源名称，不区分大小写
+ * @returns 音源代码，不存在时返回null
+ */
+export function findSource(name: string | undefined | null): SourceCode | null {
+  return NAME_INDEX.get(String(name || '').trim().toLowerCase()) || null;
+}
+
+/**
+ * 获取音源定义
+ * @param code 音源代码
+ */
+export function getSourceDefinition(code: SourceCode): SourceDefinition {
+  return SOURCE_REGISTRY[code];
+}
+
+/**
+ * 音源在音乐API和 source:id 中使用的名称
+ * @param code 音源代码
+ */
+export function getCatalogCode(code: SourceCode): string {
+  return getSourceDefinition(code).catalogCode || code;
+}
+
+/**
+ * 音源是否支持指定操作
+ */
+export function supportsOperation(code: SourceCode, operation: SourceOperation): boolean {
+  return getSourceDefinition(code).operations.includes(operation);
+}
+
+/**
+ * 获取支持指定操作的音源代码
+ * @param operation 操作
+ */
+export function getSourcesFor<O extends SourceOperation>(operation: O): SourceCodeWith<O>[] {
+  return ENTRIES.filter(([code]) => supportsOperation(code, operation)).map(([code]) => code as SourceCodeWith<O>);
+}
+
+/**
+ * 音源是否启用
+ * 优先使用管理接口设置的开关，其次是 ENABLE_* 配置，都没有时始终启用
+ * @param code 音源代码
+ */
+export function isSourceEnabled(code: SourceCode): boolean {
+  const override = enableOverrides.get(code);
+  if (override !== undefined) {
+    return override;
+  }
+  const flag = getSourceDefinition(code).enableFlag;
+  return flag ? config[flag] !== false : true;
+}
+
+/**
+ * 替换管理接口设置的开关，未包含的音源恢复按配置决定
+ * @param overrides 音源代码到是否启用的映射
+ */
+export function setSourceEnabledOverrides(overrides: Partial<Record<SourceCode, boolean>>): void {
+  enableOverrides.clear();
+  for (const [code, enabled] of Object.entries(overrides) as Array<[SourceCode, boolean]>) {
+    enableOverrides.set(code, enabled);
+  }
+}
+
+/**
+ * 获取管理接口设置的开关
+ */
+export function getSourceEnabledOverrides(): Partial<Record<SourceCode, boolean>> {
+  return Object.fromEntries(enableOverrides);
+}
+
+/**
+ * 各音源开关的状态，键为音乐API名称
+ */
+export function getSourceSwitches(): Record<string, boolean> {
+  return Object.fromEntries(
+    ENTRIES.filter(([, definition]) => definition.enableFlag).map(([code]) => [getCatalogCode(code), isSourceEnabled(code)])
+  );
+}
+
+/**
+ * 默认匹配音源，按 defaultOrder 排序
+ */
+export function getDefaultMatchSources(): MatchSourceCode[] {
+  return ENTRIES
+    .filter(([code, definition]) => definition.defaultOrder !== undefined && supportsOperation(code, 'match'))
+    .sort(([, a], [, b]) => a.defaultOrder! - b.defaultOrder!)
+    .map(([code]) => code as MatchSourceCode);
+}
+
+/**
+ * 音源排名和音源管理的默认音源，是默认匹配音源的子集，按 defaultOrder 排序
+ */
+export function getDefaultRankingSources(): MatchSourceCode[] {
+  return getDefaultMatchSources().filter(code => getSourceDefinition(code).rankingDefault);
+}
+
+/**
+ * 各匹配音源的默认音质评分
+ */
+export function getDefaultQualityScores(): Record<string, number> {
+  return Object.fromEntries(
+    ENTRIES.filter(([, definition]) => definition.qualityScore !== undefined).map(([code, definition]) => [code, definition.qualityScore!])
+  );
+}
+
+/**
+ * 需要凭据的音源
+ */
+export function getCredentialSources(): SourceCode[] {
+  return ENTRIES.filter(([, definition]) => definition.credential).map(([code]) => code);
+}
+
+/**
+ * 可以作为 source:id 前缀的音乐源及其ID格式，键为音乐API名称
+ */
+export function getTrackIdPatterns(): Record<string, RegExp> {
+  return Object.fromEntries(
+    ENTRIES.filter(([, definition]) => definition.idPattern).map(([code, definition]) => [getCatalogCode(code), definition.idPattern!])
+  );
+}
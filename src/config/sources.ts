@@ -1,26 +1,23 @@
+import { getDefaultMatchSources, MatchSourceCode } from './source-registry';
+
 /**
- * 音源类型
+ * 音源类型（可以通过解灰模块匹配的音源），由音源注册表派生
  */
-export type SourceType =
-  | 'pyncmd'
-  | 'kuwo'
-  | 'bilibili'
-  | 'migu'
-  | 'kugou'
-  | 'qq'
-  | 'youtube'
-  | 'ytdlp'
-  | 'joox'
-  | 'ytdownload'
-  | 'youtubedl';
+export type SourceType = MatchSourceCode;
 
-// 导入音源配置
-import { getDefaultSources } from './music-sources';
+/**
+ * 默认音源列表，顺序由音源注册表中的 defaultOrder 决定
+ */
+export const DEFAULT_SOURCES: SourceType[] = getDefaultMatchSources();
 
 /**
- * 默认音源列表 (可根据需要调整顺序或内容)
+ * 替换默认音源列表
+ * 原地修改数组，已经引用 DEFAULT_SOURCES 的模块（如匹配接口的默认参数）会立即使用新的顺序
+ * @param sources 新的默认音源列表
  */
-export const DEFAULT_SOURCES: SourceType[] = getDefaultSources() as SourceType[];
+export function setDefaultSources(sources: SourceType[]): void {
+  DEFAULT_SOURCES.splice(0, DEFAULT_SOURCES.length, ...sources);
+}
 
 /**
  * 测试用的样例歌曲ID
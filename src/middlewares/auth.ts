@@ -4,6 +4,7 @@ import { ApiError, ErrorType } from '../utils/errors';
 import { maskApiKey, secureCompare } from '../utils/data-protection';
 import { isValidIp, ipMatchesWildcard, ipInCidrRange, getRealIp } from '../utils/ip-utils';
 import { securityLogger } from '../utils/security-logger';
+import { hasPlaybackSignature, verifyPlaybackSignature } from '../utils/url-signer';
 
 // API鉴权白名单路径 - 根路径和favicon不需要鉴权
 const API_AUTH_WHITELIST = [
@@ -12,10 +13,16 @@ const API_AUTH_WHITELIST = [
     '/favicon.ico'
 ];
 
+// 可以使用签名链接代替API密钥访问的路径
+const SIGNED_PLAYBACK_PATHS = [
+    '/stream',
+    '/redirect'
+];
+
 // 为API密钥提供带过期时间的内存缓存，避免频繁验证
 const apiKeyCache = new Map<string, { valid: boolean, expires: number }>();
 
-// 定期清理过期的缓存项
+// 定期清理过期的缓存项，不阻止进程退出
 setInterval(() => {
     const now = Date.now();
     for (const [key, data] of apiKeyCache.entries()) {
@@ -23,7 +30,7 @@ setInterval(() => {
             apiKeyCache.delete(key);
         }
     }
-}, 5 * 60 * 1000); // 每5分钟清理一次
+}, 5 * 60 * 1000).unref(); // 每5分钟清理一次
 
 /**
  * API密钥认证中间件工厂函数
@@ -61,6 +68,31 @@ export function createApiKeyAuthMiddleware(config: any) {
             return;
         }
 
+        // 带签名的播放链接无需API密钥，签名无效时直接拒绝
+        if (SIGNED_PLAYBACK_PATHS.some(path => requestPath.endsWith(path)) && hasPlaybackSignature(request.query)) {
+            const check = verifyPlaybackSignature(request.query as Record<string, any>);
+            if (check.valid) {
+                return;
+            }
+
+            logger.warn(`播放链接签名无效: ${requestPath} 来自 ${request.ip}，原因: ${check.reason}`);
+
+            // 记录安全事件
+            securityLogger.logAuthFailure('播放链接签名无效', {
+                source_ip: request.ip,
+                request_path: requestPath,
+                request_method: request.method,
+                user_agent: request.headers['user-agent'],
+                reason: check.reason
+            });
+
+            return reply.status(403).send({
+                statusCode: 403,
+                error: 'Forbidden',
+                message: `播放链接无效: ${check.reason}`
+            });
+        }
+
         logger.info(`路径 ${requestPath} 不在白名单中，需要认证`);
 
         // 获取 API 密钥 - 支持安全的传递方式
@@ -274,6 +306,52 @@ export function createIpWhitelistAuthMiddleware(config: {
     };
 }
 
+/**
+ * 管理接口认证中间件工厂函数
+ * 管理密钥通过 X-Admin-Key 请求头传递，未配置 ADMIN_API_KEYS 时拒绝所有管理请求
+ * @param config 配置对象
+ * @returns Fastify 中间件函数
+ */
+export function createAdminAuthMiddleware(config: { ADMIN_API_KEYS?: string }) {
+    const adminKeys = String(config.ADMIN_API_KEYS || '').split(',').map(key => key.trim()).filter(key => key.length > 0);
+
+    return async (request: FastifyRequest, reply: FastifyReply) => {
+        if (!adminKeys.length) {
+            return reply.status(403).send({
+                statusCode: 403,
+                error: 'Forbidden',
+                message: '管理接口未启用'
+            });
+        }
+
+        const adminKey = request.headers['x-admin-key'];
+        const isValid = typeof adminKey === 'string' && adminKeys.some(validKey => secureCompare(adminKey, validKey));
+
+        if (!isValid) {
+            const requestPath = request.url?.split('?')[0] || '';
+            logger.warn(`管理接口认证失败: ${requestPath} 来自 ${request.ip}`);
+
+            // 记录安全事件
+            securityLogger.logAuthFailure(adminKey ? '无效的管理密钥' : '管理请求缺少管理密钥', {
+                source_ip: request.ip,
+                request_path: requestPath,
+                request_method: request.method,
+                user_agent: request.headers['user-agent'],
+                ...(typeof adminKey === 'string' && { key_fragment: maskApiKey(adminKey) })
+            });
+
+            // 添加随机延迟，防止时序攻击
+            await new Promise(resolve => setTimeout(resolve, 50 + Math.random() * 100));
+
+            return reply.status(401).send({
+                statusCode: 401,
+                error: 'Unauthorized',
+                message: adminKey ? '无效的管理密钥' : '缺少管理密钥'
+            });
+        }
+    };
+}
+
 /**
  * 请求日志记录中间件
  * @param request FastifyRequest对象
@@ -94,6 +94,8 @@ export const createSecurityMonitorMiddleware = () => {
       }
     }
   }, 5 * 60 * 1000); // 每5分钟清理一次
+  // 不阻止进程退出
+  cleanupInterval.unref();
 
   // 确保在进程退出时清理定时器
   process.on('exit', () => {
@@ -13,8 +13,8 @@ import logger from '../utils/logger';
  * @returns 是否有效
  */
 function isValidId(id: string): boolean {
-  // ID应为字母数字，长度限制在1-64字符
-  return typeof id === 'string' && /^[a-zA-Z0-9_-]{1,64}$/.test(id);
+  // ID应为字母数字，允许 source:id 形式的音乐源前缀，长度限制在1-64字符
+  return typeof id === 'string' && /^([a-zA-Z]{1,16}:)?[a-zA-Z0-9_-]{1,64}$/.test(id);
 }
 
 /**
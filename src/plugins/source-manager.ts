@@ -2,6 +2,7 @@ import { FastifyInstance, FastifyPluginAsync } from 'fastify';
 import { sourceRankingService } from '../services/quality/SourceRankingService';
 import { qualityAssessmentService, QualityProfile } from '../services/quality/QualityAssessmentService';
 import { config } from '../config';
+import { getSourcesFor } from '../config/source-registry';
 
 const sourceManagerPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
   // 定义音源统计API
@@ -109,7 +110,7 @@ const sourceManagerPlugin: FastifyPluginAsync = async (fastify: FastifyInstance)
     return {
       success: true,
       data: {
-        sources: config.DEFAULT_SOURCES,
+        sources: getSourcesFor('match'),
         defaultSources: config.DEFAULT_SOURCES
       }
     };
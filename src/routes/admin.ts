@@ -0,0 +1,180 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { config } from '../config/env';
+import { createAdminAuthMiddleware } from '../middlewares/auth';
+import { ApiError } from '../utils/errors';
+import { securityLogger } from '../utils/security-logger';
+import { credentialService } from '../services/credentials/CredentialService';
+import { sourceSettingsService } from '../services/sources/SourceSettingsService';
+
+interface SourceParams {
+  source: string;
+}
+
+interface SetCredentialBody {
+  value?: string;
+  expiresAt?: string | number; // ISO时间或毫秒时间戳
+}
+
+interface SourceOrderBody {
+  sources?: string[];          // 默认匹配音源，按优先级排列
+  followSourceOrder?: boolean; // 是否按顺序依次匹配
+}
+
+/**
+ * 解析过期时间
+ */
+function parseExpiresAt(value: string | number | undefined): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const time = typeof value === 'number' || /^\d+$/.test(String(value)) ? Number(value) : Date.parse(String(value));
+  if (!Number.isFinite(time)) {
+    throw ApiError.validation('expiresAt 格式不正确，应为ISO时间或毫秒时间戳');
+  }
+  return time;
+}
+
+/**
+ * 管理接口，需要通过 X-Admin-Key 请求头认证
+ */
+export default async function adminRoutes(fastify: FastifyInstance): Promise<void> {
+  fastify.addHook('onRequest', createAdminAuthMiddleware(config));
+
+  // 查看各音源凭据的状态，不返回凭据明文
+  fastify.get('/credentials', async (_request: FastifyRequest, reply: FastifyReply) => {
+    return reply.send({
+      code: 200,
+      message: '获取音源凭据成功',
+      data: {
+        writable: credentialService.isEnabled(),
+        credentials: credentialService.list()
+      }
+    });
+  });
+
+  // 设置音源凭据，立即用于后续匹配
+  fastify.put<{ Params: SourceParams; Body: SetCredentialBody }>(
+    '/credentials/:source',
+    async (request, reply) => {
+      const body = request.body || {};
+      const summary = await credentialService.set(request.params.source, String(body.value ?? ''), parseExpiresAt(body.expiresAt));
+
+      securityLogger.logConfigChange('音源凭据已更新', {
+        source_ip: request.ip,
+        source: summary.source,
+        expires_at: summary.expiresAt
+      });
+
+      return reply.send({
+        code: 200,
+        message: '音源凭据已更新',
+        data: summary
+      });
+    }
+  );
+
+  // 校验音源凭据
+  fastify.post<{ Params: SourceParams }>(
+    '/credentials/:source/validate',
+    async (request, reply) => {
+      const result = await credentialService.validate(request.params.source);
+
+      return reply.send({
+        code: 200,
+        message: result.check.valid ? '音源凭据有效' : '音源凭据无效',
+        data: result
+      });
+    }
+  );
+
+  // 作废音源凭据
+  fastify.post<{ Params: SourceParams }>(
+    '/credentials/:source/expire',
+    async (request, reply) => {
+      const summary = await credentialService.expire(request.params.source);
+
+      securityLogger.logConfigChange('音源凭据已作废', {
+        source_ip: request.ip,
+        source: summary.source
+      });
+
+      return reply.send({
+        code: 200,
+        message: '音源凭据已作废',
+        data: summary
+      });
+    }
+  );
+
+  // 查看音源开关和默认音源顺序
+  fastify.get('/sources', async (_request: FastifyRequest, reply: FastifyReply) => {
+    return reply.send({
+      code: 200,
+      message: '获取音源设置成功',
+      data: sourceSettingsService.getSnapshot()
+    });
+  });
+
+  // 调整默认音源顺序和匹配方式
+  fastify.put<{ Body: SourceOrderBody }>(
+    '/sources/order',
+    async (request, reply) => {
+      const body = request.body || {};
+      const before = sourceSettingsService.getSnapshot();
+      const after = await sourceSettingsService.setOrder(body.sources, body.followSourceOrder);
+
+      securityLogger.logConfigChange('默认音源顺序已修改', {
+        source_ip: request.ip,
+        default_sources: { before: before.defaultSources, after: after.defaultSources },
+        follow_source_order: { before: before.followSourceOrder, after: after.followSourceOrder }
+      });
+
+      return reply.send({
+        code: 200,
+        message: '默认音源顺序已更新',
+        data: after
+      });
+    }
+  );
+
+  // 清除管理接口的修改，恢复按配置运行
+  fastify.post('/sources/reset', async (request: FastifyRequest, reply: FastifyReply) => {
+    const before = sourceSettingsService.getSnapshot();
+    const after = await sourceSettingsService.reset();
+
+    securityLogger.logConfigChange('音源设置已重置', {
+      source_ip: request.ip,
+      default_sources: { before: before.defaultSources, after: after.defaultSources },
+      runtime_switches: before.sources.filter(item => item.origin === 'runtime').map(item => `${item.source}=${item.enabled}`)
+    });
+
+    return reply.send({
+      code: 200,
+      message: '音源设置已重置',
+      data: after
+    });
+  });
+
+  // 启用或禁用音源，立即对匹配、搜索和 /sources 生效
+  for (const action of ['enable', 'disable'] as const) {
+    fastify.post<{ Params: SourceParams }>(
+      `/sources/:source/${action}`,
+      async (request, reply) => {
+        const enabled = action === 'enable';
+        const result = await sourceSettingsService.setEnabled(request.params.source, enabled);
+
+        securityLogger.logConfigChange(enabled ? '音源已启用' : '音源已禁用', {
+          source_ip: request.ip,
+          source: result.source,
+          enabled: { before: result.previous, after: enabled }
+        });
+
+        return reply.send({
+          code: 200,
+          message: enabled ? '音源已启用' : '音源已禁用',
+          data: result.settings
+        });
+      }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import musicRoutes from './music';
+import adminRoutes from './admin';
 import { cacheService } from '../services/cache/CacheService';
 // 导入 package.json
 // @ts-ignore - 使用 resolveJsonModule 配置允许导入 JSON 文件
@@ -82,8 +83,11 @@ export default async function registerRoutes(fastify: FastifyInstance): Promise<
               method: "GET",
               description: "获取指定ID的音乐播放链接",
               params: {
-                id: "网易云歌曲ID",
-                source: "(可选) 指定音源，默认自动选择"
+                id: "歌曲ID，支持 source:id 格式（如 tencent:0039MnYb0qxYhV），纯数字ID按网易云处理",
+                link: "(可选) 平台分享链接，代替 id 使用",
+                source: "(可选) 指定音源，默认自动选择",
+                network: "(可选) 网络类型 wifi/4g/3g/2g，未指定时读取 ECT、Save-Data 客户端提示",
+                sign: "(可选) 为true时额外返回带签名、会过期的 /stream 和 /redirect 链接"
               },
               examples: {
                 recommended: "/v1/api/song?id=1859245776",
@@ -94,13 +98,59 @@ export default async function registerRoutes(fastify: FastifyInstance): Promise<
 
           // 替代功能
           alternate: [
+            {
+              path: "/match/all",
+              method: "GET",
+              description: "并行查询每个音源，返回各音源的匹配结果及音质最佳的音源",
+              params: {
+                id: "网易云歌曲ID",
+                sources: "(可选) 音源列表，多个用逗号分隔，默认使用全部默认音源"
+              },
+              examples: {
+                recommended: "/v1/api/match/all?id=1859245776&sources=kugou,kuwo",
+                legacy: "/match/all?id=1859245776"
+              }
+            },
+            {
+              path: "/search",
+              method: "GET",
+              description: "分页搜索歌曲，返回标准化的歌曲列表",
+              params: {
+                q: "搜索关键词",
+                source: "(可选) 音乐源，默认为netease",
+                page: "(可选) 页码，默认为1",
+                count: "(可选) 每页数量，默认为20，最大50"
+              },
+              examples: {
+                recommended: "/v1/api/search?q=晴天&source=netease&page=1&count=20",
+                legacy: "/search?q=晴天"
+              }
+            },
+            {
+              path: "/stream",
+              method: "GET",
+              description: "由服务端转发音频流，支持Range请求，适合HTTPS页面播放",
+              params: {
+                id: "歌曲ID，支持 source:id 格式（如 tencent:0039MnYb0qxYhV），纯数字ID按网易云处理",
+                link: "(可选) 平台分享链接，代替 id 使用",
+                br: "(可选) 音质上限，支持128、192、320、740、999，无法提供时自动降档",
+                source: "(可选) 指定音源，默认自动选择",
+                network: "(可选) 网络类型 wifi/4g/3g/2g，限制音质上限"
+              },
+              examples: {
+                recommended: "/v1/api/stream?id=1859245776&br=320",
+                legacy: "/stream?id=1859245776"
+              }
+            },
             {
               path: "/redirect",
               method: "GET",
               description: "重定向到指定ID的音乐播放链接",
               params: {
-                id: "网易云歌曲ID",
-                source: "(可选) 指定音源，默认自动选择"
+                id: "歌曲ID，支持 source:id 格式（如 tencent:0039MnYb0qxYhV），纯数字ID按网易云处理",
+                link: "(可选) 平台分享链接，代替 id 使用",
+                source: "(可选) 指定音源，默认自动选择",
+                network: "(可选) 网络类型 wifi/4g/3g/2g，限制音质上限"
               },
               examples: {
                 recommended: "/v1/api/redirect?id=1859245776",
@@ -111,22 +161,105 @@ export default async function registerRoutes(fastify: FastifyInstance): Promise<
 
           // 附加功能
           additional: [
+            {
+              path: "/lyric",
+              method: "GET",
+              description: "获取歌词，可解析为时间轴或导出为字幕",
+              params: {
+                id: "歌词ID，支持 source:id 格式",
+                source: "(可选) 音乐源，默认为netease",
+                format: "(可选) json、lrc、srt、vtt、merged-lrc，不传时返回原始歌词"
+              },
+              examples: {
+                recommended: "/v1/api/lyric?id=1859245776&format=vtt",
+                legacy: "/lyric?id=1859245776"
+              }
+            },
+            {
+              path: "/pic",
+              method: "GET",
+              description: "获取专辑图，raw=1时直接返回图片内容",
+              params: {
+                id: "专辑图ID，支持 source:id 格式",
+                source: "(可选) 音乐源，默认为netease",
+                size: "(可选) 边长，按最接近的上游尺寸获取，默认300",
+                raw: "(可选) 为1时返回图片字节，支持ETag和If-None-Match"
+              },
+              examples: {
+                recommended: "/v1/api/pic?id=109951163200249252&size=500&raw=1",
+                legacy: "/pic?id=109951163200249252"
+              }
+            },
+            {
+              path: "/batch/song",
+              method: "POST",
+              description: "批量解析歌曲播放链接，结果顺序与请求一致",
+              params: {
+                body: "JSON数组，每项为 {id, br, source}，最多 BATCH_MAX_ITEMS 项"
+              },
+              examples: {
+                recommended: "POST /v1/api/batch/song  [{\"id\":\"1859245776\",\"br\":\"320\"}]"
+              }
+            },
+            {
+              path: "/playlist",
+              method: "GET",
+              description: "获取网易云歌单曲目及每首歌的解灰状态",
+              params: {
+                id: "网易云歌单ID",
+                resolve: "(可选) 为true时同时返回播放链接",
+                offset: "(可选) 起始位置，默认为0",
+                limit: "(可选) 返回数量，默认100，最大1000"
+              },
+              examples: {
+                recommended: "/v1/api/playlist?id=3778678&limit=50",
+                legacy: "/playlist?id=3778678"
+              }
+            },
+            {
+              path: "/album",
+              method: "GET",
+              description: "获取网易云专辑曲目及每首歌的解灰状态",
+              params: {
+                id: "网易云专辑ID",
+                resolve: "(可选) 为true时同时返回播放链接"
+              },
+              examples: {
+                recommended: "/v1/api/album?id=18905&resolve=true",
+                legacy: "/album?id=18905"
+              }
+            },
             {
               path: "/check",
               method: "GET",
-              description: "检查指定ID的歌曲是否可用",
+              description: "检查指定ID的歌曲是否可用，会实际探测播放链接，失效的缓存链接会被移除并重新解析",
               params: {
-                id: "网易云歌曲ID"
+                id: "歌曲ID，支持 source:id 格式（如 tencent:0039MnYb0qxYhV），纯数字ID按网易云处理",
+                link: "(可选) 平台分享链接，代替 id 使用",
+                br: "(可选) 音质上限",
+                source: "(可选) 指定音源，默认自动选择"
               },
               examples: {
                 recommended: "/v1/api/check?id=1859245776",
                 legacy: "/check?id=1859245776"
               }
             },
+            {
+              path: "/resolve-link",
+              method: "GET",
+              description: "解析网易云、QQ音乐、酷狗、酷我、B站的分享链接或短链接，返回音乐源、曲目ID和播放链接",
+              params: {
+                url: "分享链接",
+                br: "(可选) 音质上限"
+              },
+              examples: {
+                recommended: "/v1/api/resolve-link?url=https%3A%2F%2Fmusic.163.com%2F%23%2Fsong%3Fid%3D1859245776"
+              }
+            },
             {
               path: "/sources",
               method: "GET",
-              description: "获取可用音源列表",
+              description: "获取可用音源列表，credentials 字段标记需要Cookie的音源凭据是否可用",
               examples: {
                 recommended: "/v1/api/sources",
                 legacy: "/sources"
@@ -184,6 +317,8 @@ export default async function registerRoutes(fastify: FastifyInstance): Promise<
     instance.addHook('onRequest', createApiKeyAuthMiddleware(config));
     // 注册 musicRoutes 并传入服务实例
     await instance.register(musicRoutes, { musicService, cacheService });
+    // 管理接口，额外校验管理密钥
+    await instance.register(adminRoutes, { prefix: '/admin' });
   }, { prefix: API_PREFIX });
 
   // 为了后向兼容，保留旧路由（可选，视需求而定）
@@ -192,7 +327,7 @@ export default async function registerRoutes(fastify: FastifyInstance): Promise<
   // 添加重定向中间件，将旧路径请求重定向到新路径
   fastify.addHook('onRequest', async (request, reply) => {
     const oldRoutePatterns = [
-      '/match', '/ncmget', '/url', '/otherget', '/lyric', '/pic', '/info', '/health'
+      '/match', '/match/all', '/ncmget', '/url', '/otherget', '/search', '/stream', '/playlist', '/album', '/lyric', '/pic', '/info', '/health'
     ];
 
     // 检查当前路径是否匹配旧API路径模式
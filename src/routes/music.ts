@@ -1,17 +1,35 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { musicService } from '../services/music';
 import { SourceType, DEFAULT_SOURCES, TEST_SONG_ID } from '../config/sources';
+import { BatchSongItem } from '../types';
 import { isDev, config } from '../config/env';
 import { cacheService } from '../services/cache/CacheService';
 import * as os from 'os';
 import { ApiError, ErrorType, getFastifyErrorString } from '../utils/errors';
 import { getSourceDescriptions } from '../config/music-sources';
+import { getMusicProvider } from '../services/providers';
+import { circuitBreakerService } from '../services/resilience/CircuitBreakerService';
+import { audioProxyService } from '../services/stream/AudioProxyService';
+import { albumArtService, matchesEtag } from '../services/artwork/AlbumArtService';
+import { catalogService } from '../services/catalog/CatalogService';
+import { NetworkPolicy, resolveNetworkPolicy } from '../utils/network-hints';
+import { buildSignedPlaybackUrl, isUrlSigningEnabled } from '../utils/url-signer';
+import { lyricService, LYRIC_FORMATS, LyricFormat } from '../services/lyric/LyricService';
+import { shareLinkService } from '../services/link/ShareLinkService';
+import { credentialService } from '../services/credentials/CredentialService';
+import { getSourceSwitches } from '../config/source-registry';
+import { Deadline, resolveDeadlineBudget } from '../utils/deadline';
 
 interface MatchParams {
   id: string;
   source?: string;
 }
 
+interface MatchAllParams {
+  id: string;
+  sources?: string;
+}
+
 interface DirectLinkParams {
   id: string;
   br?: string;
@@ -23,17 +41,33 @@ interface SearchParams {
   source?: string;
   count?: string;
   pages?: string;
+  artist?: string;
+  duration?: string;
+}
+
+interface SongSearchParams {
+  q?: string;
+  source?: string;
+  page?: string;
+  count?: string;
 }
 
 interface LyricParams {
   id: string;
   source?: string;
+  format?: string;
 }
 
 interface PicParams {
   id: string;
   source?: string;
   size?: string;
+  raw?: string;
+}
+
+interface ResolveLinkParams {
+  url?: string;
+  br?: string;
 }
 
 // 自定义请求类型
@@ -55,6 +89,20 @@ interface MusicRouteServices {
 export default async function musicRoutes(fastify: FastifyInstance, services: MusicRouteServices): Promise<void> {
   const { musicService, cacheService } = services; // 解构服务
 
+  /**
+   * 创建本次请求的截止时间，默认为 REQUEST_TIMEOUT，客户端可通过 timeout 参数(毫秒)调整；
+   * 响应完成后释放，客户端提前断开时仍在截止时间到达后中止上游请求
+   */
+  const createRequestDeadline = (request: FastifyRequest, reply: FastifyReply): Deadline => {
+    const deadline = new Deadline(resolveDeadlineBudget((request.query as { timeout?: string } | undefined)?.timeout));
+    reply.raw.once('close', () => {
+      if (reply.raw.writableFinished) {
+        deadline.dispose();
+      }
+    });
+    return deadline;
+  };
+
   // 信息
   fastify.get('/info', async (_req: FastifyRequest, reply: FastifyReply): Promise<FastifyReply> => {
     const pkg = require('../../package.json');
@@ -64,7 +112,8 @@ export default async function musicRoutes(fastify: FastifyInstance, services: Mu
       enable_flac: process.env.ENABLE_FLAC,
       proxy_enabled: config.ENABLE_PROXY,
       music_api_enabled: config.ENABLE_MUSIC_API,
-      music_api_url: config.MUSIC_API_URL
+      music_api_url: config.MUSIC_API_URL,
+      music_api_provider: getMusicProvider()?.name || null
     });
   });
 
@@ -202,14 +251,10 @@ export default async function musicRoutes(fastify: FastifyInstance, services: Mu
           enabled: config.ENABLE_MUSIC_API
         }
       },
-      sources: {
-        netease: config.ENABLE_NETEASE,
-        tencent: config.ENABLE_TENCENT,
-        kugou: config.ENABLE_KUGOU,
-        kuwo: config.ENABLE_KUWO,
-        bilibili: config.ENABLE_BILIBILI
-      },
+      sources: getSourceSwitches(),
       cache: cacheStats,
+      // 各音源/接口的熔断状态
+      circuit_breakers: circuitBreakerService.getSnapshot(),
       client: {
         ip: '******', // 隐藏IP地址
         user_agent: '******' // 隐藏用户代理
@@ -226,7 +271,12 @@ export default async function musicRoutes(fastify: FastifyInstance, services: Mu
       return reply.send({
         code: 200,
         message: '获取可用音源列表成功',
-        data: sources
+        data: sources,
+        // 当前的默认匹配音源及顺序，管理接口修改后立即更新
+        defaultSources: DEFAULT_SOURCES,
+        followSourceOrder: config.FOLLOW_SOURCE_ORDER,
+        // 需要Cookie或密钥的音源，标记凭据是否可用
+        credentials: credentialService.getSourceFlags()
       });
     } catch (error: any) {
       throw new ApiError('Failed to get sources list', ErrorType.API, 500, error);
@@ -235,9 +285,9 @@ export default async function musicRoutes(fastify: FastifyInstance, services: Mu
   // ---- 结束添加 /sources 路由 ----
 
   // 测试
-  fastify.get('/test', async (_req: FastifyRequest, reply: FastifyReply): Promise<FastifyReply> => {
+  fastify.get('/test', async (req: FastifyRequest, reply: FastifyReply): Promise<FastifyReply> => {
     try {
-      const result = await musicService.matchSong(TEST_SONG_ID, DEFAULT_SOURCES);
+      const result = await musicService.matchSong(TEST_SONG_ID, DEFAULT_SOURCES, createRequestDeadline(req, reply));
       return reply.send({
         code: 200,
         message: '获取成功',
@@ -261,7 +311,7 @@ export default async function musicRoutes(fastify: FastifyInstance, services: Mu
       throw new ApiError('Missing required parameter: id', ErrorType.VALIDATION, 400);
     }
     try {
-      const result = await musicService.matchSong(id, source ? [source as SourceType] : undefined);
+      const result = await musicService.matchSong(id, source ? [source as SourceType] : undefined, createRequestDeadline(request, reply));
       return reply.send(result);
     } catch (error: any) {
       // 简化：依赖全局错误处理器
@@ -273,6 +323,29 @@ export default async function musicRoutes(fastify: FastifyInstance, services: Mu
     }
   });
 
+  // 并行匹配所有音源，返回逐个音源的结果
+  fastify.get<{
+    Querystring: MatchAllParams
+  }>('/match/all', async (request: FastifyRequestWithQuerystring<MatchAllParams>, reply: FastifyReply): Promise<FastifyReply> => {
+    const { id, sources } = request.query;
+    if (!id) {
+      throw ApiError.validation('Missing required parameter: id');
+    }
+
+    // 多个音源用逗号分隔
+    const sourceList = sources
+      ? sources.split(',').map(source => source.trim()).filter(Boolean) as SourceType[]
+      : undefined;
+
+    const result = await musicService.matchAllSources(id, sourceList, createRequestDeadline(request, reply));
+    return reply.send({
+      code: 200,
+      message: result.cached ? '请求成功 (缓存)' : '请求成功',
+      data: result.data,
+      ...(result.cached && { cached: true })
+    });
+  });
+
   // 获取直链 (网易云)
   fastify.get<{
     Querystring: DirectLinkParams
@@ -284,7 +357,7 @@ export default async function musicRoutes(fastify: FastifyInstance, services: Mu
         return reply.status(400).send({ code: 400, message: '缺少必要参数 id' });
       }
 
-      const result = await musicService.getDirectLink(id, br, source);
+      const result = await musicService.getDirectLink(id, br, source, createRequestDeadline(request, reply));
 
       return reply.send({
         code: 200,
@@ -296,7 +369,7 @@ export default async function musicRoutes(fastify: FastifyInstance, services: Mu
       console.error('获取直链失败:', error);
 
       const isTimeout = error.message.includes('超时');
-      const statusCode = isTimeout ? 504 : 500;
+      const statusCode = error instanceof ApiError ? error.statusCode : isTimeout ? 504 : 500;
 
       return reply.status(statusCode).send({
         code: statusCode,
@@ -328,7 +401,7 @@ export default async function musicRoutes(fastify: FastifyInstance, services: Mu
     Querystring: SearchParams
   }>('/otherget', async (request: FastifyRequestWithQuerystring<SearchParams>, reply: FastifyReply): Promise<FastifyReply> => {
     try {
-      const { name, source = 'kuwo', count = '1', pages = '1' } = request.query;
+      const { name, source = 'kuwo', count = '1', pages = '1', artist, duration } = request.query;
 
       if (!name) {
         return reply.status(400).send({ code: 400, message: '缺少必要参数 name' });
@@ -338,7 +411,9 @@ export default async function musicRoutes(fastify: FastifyInstance, services: Mu
         name,
         source,
         parseInt(count, 10),
-        parseInt(pages, 10)
+        parseInt(pages, 10),
+        { artist, duration: duration ? Number(duration) : undefined },
+        createRequestDeadline(request, reply)
       );
 
       return reply.send({
@@ -352,7 +427,7 @@ export default async function musicRoutes(fastify: FastifyInstance, services: Mu
 
       const isTimeout = error.message.includes('超时');
       const isNotFound = error.message.includes('未找到');
-      const statusCode = isTimeout ? 504 : isNotFound ? 404 : 500;
+      const statusCode = error instanceof ApiError ? error.statusCode : isTimeout ? 504 : isNotFound ? 404 : 500;
 
       return reply.status(statusCode).send({
         code: statusCode,
@@ -362,18 +437,74 @@ export default async function musicRoutes(fastify: FastifyInstance, services: Mu
     }
   });
 
+  // 分页搜索歌曲列表
+  fastify.get<{
+    Querystring: SongSearchParams
+  }>('/search', async (request: FastifyRequestWithQuerystring<SongSearchParams>, reply: FastifyReply): Promise<FastifyReply> => {
+    const { q, source = 'netease', page = '1', count = '20' } = request.query;
+    if (!q) {
+      throw ApiError.validation('Missing required parameter: q');
+    }
+
+    const result = await musicService.search(
+      q,
+      source,
+      parseInt(page, 10),
+      parseInt(count, 10),
+      createRequestDeadline(request, reply)
+    );
+
+    return reply.send({
+      code: 200,
+      message: result.cached ? '请求成功 (缓存)' : '请求成功',
+      data: result.data,
+      ...(result.cached && { cached: true })
+    });
+  });
+
   // 获取歌词
   fastify.get<{
     Querystring: LyricParams
   }>('/lyric', async (request: FastifyRequestWithQuerystring<LyricParams>, reply: FastifyReply): Promise<FastifyReply> => {
     try {
-      const { id, source = 'netease' } = request.query;
+      const { id, source, format } = request.query;
 
       if (!id) {
         return reply.status(400).send({ code: 400, message: '缺少必要参数 id' });
       }
 
-      const result = await musicService.getLyric(id, source);
+      if (format && !LYRIC_FORMATS.includes(format as LyricFormat)) {
+        return reply.status(400).send({
+          code: 400,
+          message: `不支持的歌词格式: ${format}，支持的值: ${LYRIC_FORMATS.join(', ')}`
+        });
+      }
+
+      const result = await musicService.getLyric(id, source, createRequestDeadline(request, reply));
+
+      // 指定格式时解析歌词并导出，未指定时保持返回原始歌词
+      if (format) {
+        const { lyric, tlyric } = result.data;
+        const formatted = lyricService.format(lyric, tlyric, format as LyricFormat);
+
+        if (typeof formatted.body !== 'string') {
+          return reply.send({
+            code: 200,
+            message: result.cached ? '请求成功 (缓存)' : '请求成功',
+            data: {
+              id: result.data.id,
+              trackId: result.data.trackId,
+              source: result.data.source,
+              ...formatted.body
+            },
+            ...(result.cached && { cached: true })
+          });
+        }
+
+        return reply
+          .header('Content-Type', formatted.contentType)
+          .send(formatted.body);
+      }
 
       return reply.send({
         code: 200,
@@ -385,7 +516,7 @@ export default async function musicRoutes(fastify: FastifyInstance, services: Mu
       console.error('获取歌词失败:', error);
 
       const isTimeout = error.message.includes('超时');
-      const statusCode = isTimeout ? 504 : 500;
+      const statusCode = error instanceof ApiError ? error.statusCode : isTimeout ? 504 : 500;
 
       return reply.status(statusCode).send({
         code: statusCode,
@@ -400,29 +531,53 @@ export default async function musicRoutes(fastify: FastifyInstance, services: Mu
     Querystring: PicParams
   }>('/pic', async (request: FastifyRequestWithQuerystring<PicParams>, reply: FastifyReply): Promise<FastifyReply> => {
     try {
-      const { id, source = 'netease', size = '300' } = request.query;
+      const { id, source, size = '300', raw } = request.query;
 
       if (!id) {
         return reply.status(400).send({ code: 400, message: '缺少必要参数 id' });
       }
 
+      const requestedSize = parseInt(size, 10);
       const result = await musicService.getAlbumPic(
         id,
         source,
-        parseInt(size, 10)
+        requestedSize,
+        createRequestDeadline(request, reply)
       );
 
+      // raw=1 时由服务端返回图片字节，避免客户端直连CDN遇到防盗链和混合内容限制
+      if (raw === '1' || raw === 'true') {
+        const image = await albumArtService.fetch(result.data.url);
+
+        reply
+          .header('ETag', image.etag)
+          .header('Cache-Control', `public, max-age=${config.CACHE.PIC_CACHE_MAX_AGE}`)
+          .header('Cross-Origin-Resource-Policy', 'cross-origin');
+
+        if (matchesEtag(request.headers['if-none-match'], image.etag)) {
+          return reply.status(304).send();
+        }
+
+        return reply
+          .header('Content-Type', image.contentType)
+          .header('Content-Length', image.body.length)
+          .send(image.body);
+      }
+
       return reply.send({
         code: 200,
         message: result.cached ? '请求成功 (缓存)' : '请求成功',
-        data: result.data,
+        data: {
+          ...result.data,
+          ...(requestedSize !== result.data.size && { requestedSize })
+        },
         ...(result.cached && { cached: true })
       });
     } catch (error: any) {
       console.error('获取专辑图片失败:', error);
 
       const isTimeout = error.message.includes('超时');
-      const statusCode = isTimeout ? 504 : 500;
+      const statusCode = error instanceof ApiError ? error.statusCode : isTimeout ? 504 : 500;
 
       return reply.status(statusCode).send({
         code: statusCode,
@@ -432,16 +587,112 @@ export default async function musicRoutes(fastify: FastifyInstance, services: Mu
     }
   });
 
+  /**
+   * 根据 network 参数或 ECT、Save-Data 客户端提示确定网络策略，
+   * 并声明响应会随这些客户端提示变化
+   */
+  const applyNetworkPolicy = (network: string | undefined, request: FastifyRequest, reply: FastifyReply): NetworkPolicy => {
+    reply
+      .header('Accept-CH', 'ECT, Save-Data')
+      .header('Vary', 'ECT, Save-Data');
+    return resolveNetworkPolicy(network, request.headers);
+  };
+
+  /**
+   * 非JSON响应通过响应头说明采用的网络策略
+   */
+  const formatNetworkPolicyHeader = (network: NetworkPolicy & { source?: string | null }): string =>
+    `${network.type}; max-br=${network.maxBr}; via=${network.via}${network.source ? `; source=${network.source}` : ''}`;
+
+  /**
+   * 确定曲目ID，提供 link 参数时在请求截止时间内解析分享链接得到 source:id
+   */
+  const resolveTrackParam = async (id: string | undefined, link: string | undefined, deadline: Deadline): Promise<string> => {
+    if (!link) {
+      if (!id) {
+        throw ApiError.validation('Missing required parameter: id');
+      }
+      return id;
+    }
+    if (id) {
+      throw ApiError.validation('id 与 link 参数只能提供一个');
+    }
+    return (await shareLinkService.resolve(link, deadline)).canonical;
+  };
+
+  // --- /resolve-link ---
+  // 解析平台分享链接，得到音乐源和曲目ID后获取播放链接
+  fastify.get<{
+    Querystring: ResolveLinkParams
+  }>('/resolve-link', async (request: FastifyRequestWithQuerystring<ResolveLinkParams>, reply: FastifyReply): Promise<FastifyReply> => {
+    const { url, br } = request.query;
+    if (!url) {
+      throw ApiError.validation('缺少必要参数 url');
+    }
+
+    const deadline = createRequestDeadline(request, reply);
+    const link = await shareLinkService.resolve(url, deadline);
+
+    // 链接能识别但歌曲无法获取时，仍返回识别结果
+    let song: any = null;
+    let reason: string | undefined;
+    try {
+      song = (await musicService.getDirectLink(link.canonical, br, undefined, deadline)).data;
+    } catch (error: any) {
+      reason = error instanceof Error ? error.message : String(error);
+    }
+
+    return reply.send({
+      code: 200,
+      message: '请求成功',
+      data: {
+        source: link.source,
+        id: link.id,
+        trackId: link.canonical,
+        url: link.url,
+        expanded: link.expanded,
+        hops: link.hops,
+        song,
+        ...(reason && { reason })
+      }
+    });
+  });
+
   // --- /song ---
   fastify.get(
     '/song',
-    async (request: FastifyRequest<{ Querystring: { id?: string; source?: string; br?: string } }>, reply: FastifyReply) => {
-      const { id, source, br } = request.query;
-      if (!id) {
-        throw ApiError.validation('Missing required parameter: id'); // 使用静态方法简化
-      }
+    async (request: FastifyRequest<{ Querystring: { id?: string; link?: string; source?: string; br?: string; sign?: string; network?: string } }>, reply: FastifyReply) => {
+      const { source, br, sign, network, link } = request.query;
+      const deadline = createRequestDeadline(request, reply);
+      const id = await resolveTrackParam(request.query.id, link, deadline);
       try {
-        const result = await musicService.getDirectLink(id, br, source);
+        const policy = applyNetworkPolicy(network, request, reply);
+        const result = await musicService.getDirectLinkForNetwork(id, br, source, policy, deadline);
+
+        // 生成可直接交给 <audio> 的签名链接，访问时无需API密钥
+        if (sign === 'true' || sign === '1') {
+          if (!isUrlSigningEnabled()) {
+            throw ApiError.validation('服务端未启用播放链接签名');
+          }
+
+          const apiKey = config.SIGNED_URL_BIND_API_KEY
+            ? String(request.headers['x-api-key'] || request.headers['authorization']?.split('Bearer ')[1] || '') || undefined
+            : undefined;
+          // 签名链接使用按网络调整后的音质上限
+          const playback = { id, br: String(result.data.requestedBr), source };
+          const stream = buildSignedPlaybackUrl(`${fastify.prefix}/stream`, playback, { apiKey });
+          const redirect = buildSignedPlaybackUrl(`${fastify.prefix}/redirect`, playback, { apiKey });
+
+          return reply.send({
+            ...result.data,
+            signed: {
+              stream: stream.url,
+              redirect: redirect.url,
+              expiresAt: stream.expiresAt
+            }
+          });
+        }
+
         // /song 端点直接返回 data 部分
         return reply.send(result.data);
       } catch (error: any) {
@@ -458,16 +709,20 @@ export default async function musicRoutes(fastify: FastifyInstance, services: Mu
   // --- /redirect ---
   fastify.get(
     '/redirect',
-    async (request: FastifyRequest<{ Querystring: { id?: string; source?: string; br?: string } }>, reply: FastifyReply) => {
-      const { id, source, br } = request.query;
-      if (!id) {
+    async (request: FastifyRequest<{ Querystring: { id?: string; link?: string; source?: string; br?: string; network?: string } }>, reply: FastifyReply) => {
+      const { source, br, network, link } = request.query;
+      if (!request.query.id && !link) {
         // 使用符合测试断言的结构
         reply.code(400).send({ error: 'Bad Request', message: 'Missing required parameter: id' });
         return;
       }
       try {
-        const result = await musicService.getDirectLink(id, br, source);
+        const deadline = createRequestDeadline(request, reply);
+        const id = await resolveTrackParam(request.query.id, link, deadline);
+        const policy = applyNetworkPolicy(network, request, reply);
+        const result = await musicService.getDirectLinkForNetwork(id, br, source, policy, deadline);
         if (result && result.data && (result.data as { url?: string }).url) {
+          reply.header('X-Network-Policy', formatNetworkPolicyHeader(result.data.network));
           return reply.redirect(302, (result.data as { url: string }).url);
         }
         // 如果没有 url，直接响应符合测试断言的 404
@@ -491,19 +746,131 @@ export default async function musicRoutes(fastify: FastifyInstance, services: Mu
     }
   );
 
+  // --- /batch/song ---
+  // 批量解析歌曲链接，结果顺序与请求一致
+  fastify.post(
+    '/batch/song',
+    async (request: FastifyRequest<{ Body: BatchSongItem[] | { items?: BatchSongItem[] } }>, reply: FastifyReply) => {
+      const body = request.body;
+      const items = Array.isArray(body) ? body : body?.items;
+
+      if (!Array.isArray(items) || items.length === 0) {
+        throw ApiError.validation('请求体应为非空数组，每项格式为 {id, br, source}');
+      }
+
+      if (items.length > config.BATCH_MAX_ITEMS) {
+        throw ApiError.validation(`单次最多解析 ${config.BATCH_MAX_ITEMS} 首歌曲`);
+      }
+
+      if (items.some(item => !item || typeof item !== 'object' || !item.id)) {
+        throw ApiError.validation('每一项都必须包含 id');
+      }
+
+      const results = await musicService.resolveSongBatch(items, createRequestDeadline(request, reply));
+      const succeeded = results.filter(result => result.success).length;
+
+      return reply.send({
+        code: 200,
+        message: '请求成功',
+        data: {
+          total: results.length,
+          succeeded,
+          failed: results.length - succeeded,
+          results
+        }
+      });
+    }
+  );
+
+  // --- /playlist 与 /album ---
+  // 读取网易云歌单或专辑的曲目列表，并标注每首歌的解灰状态
+  const collectionHandler = (type: 'playlist' | 'album') => async (
+    request: FastifyRequest<{ Querystring: { id?: string; resolve?: string; offset?: string; limit?: string } }>,
+    reply: FastifyReply
+  ) => {
+    const { id, resolve, offset, limit } = request.query;
+    if (!id) {
+      throw ApiError.validation('缺少必要参数 id');
+    }
+
+    if ((offset && !/^\d+$/.test(offset)) || (limit && !/^\d+$/.test(limit))) {
+      throw ApiError.validation('offset 和 limit 应为非负整数');
+    }
+
+    const options = {
+      resolve: resolve === 'true' || resolve === '1',
+      offset: offset ? parseInt(offset, 10) : undefined,
+      limit: limit ? parseInt(limit, 10) : undefined
+    };
+
+    const deadline = createRequestDeadline(request, reply);
+    const result = type === 'playlist'
+      ? await catalogService.getPlaylist(id, options, deadline)
+      : await catalogService.getAlbum(id, options, deadline);
+
+    return reply.send({
+      code: 200,
+      message: result.cached ? '请求成功 (缓存)' : '请求成功',
+      data: result.data,
+      ...(result.cached && { cached: true })
+    });
+  };
+
+  fastify.get('/playlist', collectionHandler('playlist'));
+  fastify.get('/album', collectionHandler('album'));
+
+  // --- /stream ---
+  // 由服务端转发音频，支持 Range 请求，便于HTTPS页面播放http音源
+  fastify.get(
+    '/stream',
+    async (request: FastifyRequest<{ Querystring: { id?: string; link?: string; source?: string; br?: string; network?: string } }>, reply: FastifyReply) => {
+      const { source, br, network, link } = request.query;
+      const deadline = createRequestDeadline(request, reply);
+      const id = await resolveTrackParam(request.query.id, link, deadline);
+
+      const policy = applyNetworkPolicy(network, request, reply);
+      const result = await musicService.getDirectLinkForNetwork(id, br, source, policy, deadline);
+
+      // 客户端提前断开时取消上游请求
+      const controller = new AbortController();
+      reply.raw.once('close', () => {
+        if (!reply.raw.writableFinished) {
+          controller.abort();
+        }
+      });
+
+      const stream = await audioProxyService.open(result.data.url, {
+        range: request.headers.range,
+        signal: controller.signal
+      });
+
+      reply
+        .code(stream.statusCode)
+        .headers(stream.headers)
+        .header('X-Network-Policy', formatNetworkPolicyHeader(result.data.network))
+        // 允许其他站点的 <audio> 直接引用
+        .header('Cross-Origin-Resource-Policy', 'cross-origin');
+
+      return reply.send(stream.body ?? '');
+    }
+  );
+
   // --- /check ---
   fastify.get(
     '/check',
-    async (request: FastifyRequest<{ Querystring: { id?: string } }>, reply: FastifyReply) => {
-      const { id } = request.query;
-      if (!id) {
+    async (request: FastifyRequest<{ Querystring: { id?: string; link?: string; br?: string; source?: string } }>, reply: FastifyReply) => {
+      const { br, source, link } = request.query;
+      if (!request.query.id && !link) {
         // 使用符合测试断言的结构
         reply.code(400).send({ error: 'Bad Request', message: 'Missing required parameter: id' });
         return;
       }
       try {
-        await musicService.getDirectLink(id);
-        return reply.send({ available: true });
+        const deadline = createRequestDeadline(request, reply);
+        const id = await resolveTrackParam(request.query.id, link, deadline);
+        // 不只看能否解析出链接，还要探测链接确实返回音频
+        const result = await musicService.checkAvailability(id, br, source, deadline);
+        return reply.send(result.data);
       } catch (error: any) {
         // 在 catch 块中显式处理错误并发送符合测试断言的响应
         if (error instanceof ApiError) {
@@ -0,0 +1,163 @@
+import crypto from 'crypto';
+import * as LRUCacheModule from 'lru-cache';
+import { config } from '../../config/env';
+import { ApiError, ErrorType } from '../../utils/errors';
+import { cacheService } from '../cache/CacheService';
+// 处理 ESM 和 CommonJS 导入兼容性
+const LRUCache = LRUCacheModule.default || LRUCacheModule;
+
+/**
+ * 缓存的专辑图
+ */
+export interface AlbumArtImage {
+  body: Buffer;
+  contentType: string;
+  etag: string; // 基于内容哈希的强ETag
+}
+
+// 上游可提供的专辑图尺寸
+export const UPSTREAM_PIC_SIZES = [300, 500];
+
+// 单张图片的大小上限，防止被用来下载大文件
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * 选择最接近的上游尺寸：优先取不小于请求尺寸的最小值，避免放大后模糊
+ * @param size 请求的边长
+ */
+export function getNearestPicSize(size: number): number {
+  if (!Number.isFinite(size) || size <= 0) {
+    return UPSTREAM_PIC_SIZES[0];
+  }
+  return UPSTREAM_PIC_SIZES.find(candidate => candidate >= size)
+    ?? UPSTREAM_PIC_SIZES[UPSTREAM_PIC_SIZES.length - 1];
+}
+
+/**
+ * 判断 If-None-Match 是否命中当前ETag
+ * @param header If-None-Match 请求头
+ * @param etag 当前ETag
+ */
+export function matchesEtag(header: string | undefined, etag: string): boolean {
+  if (!header) {
+    return false;
+  }
+  return header.split(',').some(tag => {
+    const value = tag.trim();
+    return value === '*' || value.replace(/^W\//, '') === etag;
+  });
+}
+
+/**
+ * 专辑图代理服务
+ * 由服务端下载专辑图并按字节缓存，绕过CDN的防盗链和混合内容限制
+ */
+export class AlbumArtService {
+  // 按图片地址缓存字节，按总大小淘汰
+  private images = new LRUCache<string, AlbumArtImage>({
+    maxSize: Math.max(1, config.CACHE.PIC_CACHE_SIZE) * 1024 * 1024,
+    sizeCalculation: (image: AlbumArtImage) => image.body.length || 1
+  });
+
+  /**
+   * 获取图片字节
+   * @param url 上游图片地址
+   * @returns 图片内容、类型和ETag
+   */
+  async fetch(url: string): Promise<AlbumArtImage> {
+    const cached = this.images.get(url);
+    if (cached) {
+      return cached;
+    }
+
+    // 同一图片的并发请求只下载一次
+    return cacheService.coalesce(`picraw:${url}`, async () => {
+      const image = await this.download(url);
+      this.images.set(url, image);
+      return image;
+    });
+  }
+
+  /**
+   * 清空图片缓存
+   */
+  clear(): void {
+    this.images.clear();
+  }
+
+  /**
+   * 下载图片并计算内容哈希
+   */
+  private async download(url: string): Promise<AlbumArtImage> {
+    let imageUrl: URL;
+    try {
+      imageUrl = new URL(url);
+    } catch (error) {
+      throw ApiError.api('图片地址无效', { url });
+    }
+
+    // 只代理 http(s) 地址，避免被用来访问其他协议
+    if (imageUrl.protocol !== 'http:' && imageUrl.protocol !== 'https:') {
+      throw ApiError.api('不支持的图片地址协议', { protocol: imageUrl.protocol });
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), config.REQUEST_TIMEOUT || 15000);
+
+    try {
+      const response = await fetch(imageUrl.toString(), {
+        headers: {
+          'User-Agent': config.USER_AGENT,
+          'Accept': 'image/*'
+        },
+        redirect: 'follow',
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        await response.body?.cancel().catch(() => { });
+        throw new ApiError(`图片源响应状态: ${response.status}`, ErrorType.API, 502, {
+          statusCode: response.status
+        });
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      if (!contentType.startsWith('image/')) {
+        await response.body?.cancel().catch(() => { });
+        throw new ApiError('图片源返回的不是图片', ErrorType.API, 502, { contentType });
+      }
+
+      const declaredLength = Number(response.headers.get('content-length'));
+      if (declaredLength > MAX_IMAGE_BYTES) {
+        await response.body?.cancel().catch(() => { });
+        throw new ApiError('图片过大', ErrorType.API, 502, { size: declaredLength });
+      }
+
+      const body = Buffer.from(await response.arrayBuffer());
+      if (body.length > MAX_IMAGE_BYTES) {
+        throw new ApiError('图片过大', ErrorType.API, 502, { size: body.length });
+      }
+
+      return {
+        body,
+        contentType,
+        etag: `"${crypto.createHash('sha1').update(body).digest('hex')}"`
+      };
+    } catch (error: any) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      if (error?.name === 'AbortError') {
+        throw ApiError.timeout('图片源请求超时');
+      }
+      throw new ApiError('无法连接图片源', ErrorType.API, 502, {
+        originalError: error instanceof Error ? error.message : String(error)
+      });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+// 导出单例
+export const albumArtService = new AlbumArtService();
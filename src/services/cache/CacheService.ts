@@ -1,5 +1,7 @@
 import { createClient, RedisClientType } from 'redis';
 import * as LRUCacheModule from 'lru-cache';
+import { prometheusService } from '../monitoring/PrometheusService';
+import { config } from '../../config/env';
 // 处理 ESM 和 CommonJS 导入兼容性
 const LRUCache = LRUCacheModule.default || LRUCacheModule;
 // 定义 LRUCache 类型
@@ -29,6 +31,7 @@ interface CacheOptions {
   ttl: number;                      // 过期时间(秒)
   level: CacheLevel;                // 缓存级别
   priority?: CachePriority;         // 缓存优先级
+  expiresAt?: number | null;        // 缓存内容本身的过期时间(毫秒时间戳)，如带时效签名的播放链接
 }
 
 /**
@@ -41,6 +44,8 @@ interface CacheStats {
   memoryItems: number;              // 内存缓存项数量
   memorySizeBytes: number;          // 内存缓存大小(字节)
   hitRate: string;                  // 命中率(百分比)
+  coalesced: number;                // 被合并的并发请求次数
+  inflight: number;                 // 正在进行的上游请求数量
 }
 
 /**
@@ -59,10 +64,14 @@ export class CacheService {
   private stats = {
     hits: 0,
     misses: 0,
+    coalesced: 0,
     memoryCacheSize: 0,
     redisCacheSize: 0,
   };
 
+  // 正在进行的上游请求，按缓存键索引
+  private inflight = new Map<string, Promise<any>>();
+
   // 默认缓存时间配置 (秒)
   private readonly TTL = {
     [CachePriority.LOW]: 15 * 60,      // 15分钟
@@ -195,6 +204,10 @@ export class CacheService {
     // 定期记录统计信息（每小时）
     const statsInterval = setInterval(() => this.logStats(), 60 * 60 * 1000);
 
+    // 不阻止进程退出
+    cleanupInterval.unref();
+    statsInterval.unref();
+
     // 确保进程退出时清理定时器
     process.on('exit', () => {
       clearInterval(cleanupInterval);
@@ -272,6 +285,16 @@ export class CacheService {
       opts.ttl = this.TTL[opts.priority];
     }
 
+    // 内容本身会过期时，提前 URL_EXPIRY_MARGIN 秒失效，留出客户端使用的时间
+    if (opts.expiresAt) {
+      const remaining = Math.floor((opts.expiresAt - Date.now()) / 1000) - config.CACHE.URL_EXPIRY_MARGIN;
+      if (remaining <= 0) {
+        await this.delete(key);
+        return;
+      }
+      opts.ttl = Math.min(opts.ttl, remaining);
+    }
+
     // 始终设置内存缓存
     this.memoryCache.set(key, value, { ttl: opts.ttl * 1000 });
 
@@ -339,6 +362,53 @@ export class CacheService {
     }
   }
 
+  /**
+   * 随机抽取内存缓存中指定前缀的键
+   * @param prefix 键前缀
+   * @param count 最多返回的数量
+   * @returns 抽中的键
+   */
+  sampleKeys(prefix: string, count: number): string[] {
+    const keys: string[] = [];
+    for (const key of this.memoryCache.keys()) {
+      if (typeof key === 'string' && key.startsWith(prefix)) {
+        keys.push(key);
+      }
+    }
+
+    // 部分洗牌，只打乱需要的前 count 个位置
+    const size = Math.min(count, keys.length);
+    for (let i = 0; i < size; i++) {
+      const j = i + Math.floor(Math.random() * (keys.length - i));
+      [keys[i], keys[j]] = [keys[j], keys[i]];
+    }
+    return keys.slice(0, size);
+  }
+
+  /**
+   * 合并相同缓存键的并发请求
+   * 同一时刻只有第一个调用者会执行 loader，其余调用者共享同一个Promise，
+   * 避免热门歌曲缓存未命中时大量请求同时打到上游
+   * @param key 缓存键
+   * @param loader 实际请求上游的函数
+   * @returns loader的结果
+   */
+  async coalesce<T>(key: string, loader: () => Promise<T>): Promise<T> {
+    const pending = this.inflight.get(key);
+    if (pending) {
+      this.stats.coalesced++;
+      prometheusService.recordCoalescedRequest(key.split(':')[0]);
+      return pending;
+    }
+
+    const promise = Promise.resolve()
+      .then(loader)
+      .finally(() => this.inflight.delete(key));
+    this.inflight.set(key, promise);
+
+    return promise;
+  }
+
   /**
    * 记录缓存统计信息
    */
@@ -346,16 +416,17 @@ export class CacheService {
     const total = this.stats.hits + this.stats.misses;
     const hitRatio = total > 0 ? this.stats.hits / total : 0;
 
-    console.log(`缓存统计: 总请求=${total}, 命中率=${(hitRatio * 100).toFixed(2)}%, 项数=${this.memoryCache.size}`);
+    console.log(`缓存统计: 总请求=${total}, 命中率=${(hitRatio * 100).toFixed(2)}%, 项数=${this.memoryCache.size}, 合并请求=${this.stats.coalesced}`);
 
     // 估算内存占用
     const heapUsed = process.memoryUsage().heapUsed;
     const mbSize = (heapUsed / (1024 * 1024)).toFixed(2);
     console.log(`内存使用: ${mbSize} MB`);
 
-    // 重置命中/未命中计数
+    // 重置命中/未命中/合并计数
     this.stats.hits = 0;
     this.stats.misses = 0;
+    this.stats.coalesced = 0;
   }
 
   /**
@@ -372,7 +443,9 @@ export class CacheService {
       size: this.memoryCache.size,
       memoryItems: this.memoryCache.size,
       memorySizeBytes: process.memoryUsage().heapUsed,
-      hitRate
+      hitRate,
+      coalesced: this.stats.coalesced,
+      inflight: this.inflight.size
     };
   }
 
@@ -383,6 +456,7 @@ export class CacheService {
     this.stats = {
       hits: 0,
       misses: 0,
+      coalesced: 0,
       memoryCacheSize: 0,
       redisCacheSize: 0,
     };
@@ -390,4 +464,4 @@ export class CacheService {
 }
 
 // 导出单例实例
-export const cacheService = new CacheService();
\ No newline at end of file
+export const cacheService = new CacheService();
\ No newline at end of file
@@ -0,0 +1,260 @@
+import { config } from '../../config/env';
+import { DEFAULT_SOURCES } from '../../config/sources';
+import { CollectionResult, CollectionTrack, SongInfo } from '../../types';
+import { mapWithConcurrency } from '../../utils/concurrency';
+import { Deadline, waitWithin } from '../../utils/deadline';
+import { ApiError } from '../../utils/errors';
+import { isTimeoutError, withRetry } from '../../utils/retry';
+import { cacheService, CachePriority } from '../cache/CacheService';
+import { musicService } from '../music';
+import { CollectionType, getCatalogProvider, ProviderCollectionResult } from '../providers';
+import { circuitBreakerService } from '../resilience/CircuitBreakerService';
+
+/**
+ * 合集查询选项
+ */
+export interface CollectionOptions {
+  resolve?: boolean; // 是否同时获取播放链接
+  offset?: number;   // 从第几首开始
+  limit?: number;    // 最多返回多少首
+}
+
+// 单次返回的默认曲目数和上限
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+// 合集基本信息的缓存时间(秒)，过期后重新获取以发现新版本
+const META_CACHE_TTL = 60;
+
+/**
+ * 歌单与专辑服务
+ * 通过曲库提供商读取曲目列表，并用 matchSong 标注每首歌的解灰状态；
+ * 匹配在请求的截止时间内进行，到期时返回已完成的曲目，剩余曲目标注为超时
+ */
+export class CatalogService {
+  /**
+   * 获取歌单
+   * @param id 歌单ID
+   * @param options 查询选项
+   * @param deadline 请求截止时间
+   */
+  async getPlaylist(id: string, options: CollectionOptions = {}, deadline?: Deadline) {
+    return this.getCollection('playlist', id, options, deadline);
+  }
+
+  /**
+   * 获取专辑
+   * @param id 专辑ID
+   * @param options 查询选项
+   * @param deadline 请求截止时间
+   */
+  async getAlbum(id: string, options: CollectionOptions = {}, deadline?: Deadline) {
+    return this.getCollection('album', id, options, deadline);
+  }
+
+  /**
+   * 获取合集并解析曲目，结果按合集版本缓存
+   */
+  private async getCollection(type: CollectionType, id: string, options: CollectionOptions, deadline?: Deadline): Promise<{ data: CollectionResult; cached: boolean }> {
+    const sanitizedId = String(id || '').trim();
+    if (!/^\d{1,20}$/.test(sanitizedId)) {
+      throw ApiError.validation('无效的ID参数，应为数字');
+    }
+
+    const offset = Math.max(0, Math.floor(options.offset || 0));
+    const limit = Math.min(MAX_LIMIT, Math.max(1, Math.floor(options.limit || DEFAULT_LIMIT)));
+    const resolve = Boolean(options.resolve);
+
+    const collection = await this.getCollectionMeta(type, sanitizedId, deadline);
+
+    // 版本变化后使用新的缓存键，旧版本的结果自然过期
+    const cacheKey = `${type}:${sanitizedId}:${collection.revision}:${offset}:${limit}:${resolve ? 'resolved' : 'status'}`;
+
+    const cachedResult = await cacheService.get(cacheKey);
+    if (cachedResult) {
+      console.log(`从缓存获取${type === 'playlist' ? '歌单' : '专辑'}: ${sanitizedId}`);
+      return {
+        data: cachedResult,
+        cached: true
+      };
+    }
+
+    // 每首歌的匹配结果单独缓存，到期时仍在进行的匹配会继续完成，下一次请求可以直接使用，
+    // 因此到期后不再开始新的匹配，而是先返回已完成的部分
+    const step = deadline ? deadline.child() : new Deadline(config.REQUEST_DEADLINE_MAX);
+    try {
+      const songs = await this.coalesce(`${cacheKey}:songs`, step, songStep =>
+        this.getSongs(collection, collection.trackIds.slice(offset, offset + limit), songStep));
+
+      const tracks = await mapWithConcurrency(songs, config.BATCH_CONCURRENCY, song => this.matchTrack(song, resolve, step));
+      const partial = tracks.some(track => track.unblock.timedOut);
+
+      const data: CollectionResult = {
+        type,
+        id: collection.id,
+        name: collection.name,
+        cover: collection.cover,
+        description: collection.description,
+        creator: collection.creator,
+        revision: collection.revision,
+        total: collection.trackIds.length,
+        offset,
+        limit,
+        resolved: resolve,
+        partial,
+        tracks
+      };
+
+      // 不完整的结果不缓存，下一次请求使用已缓存的曲目继续匹配
+      if (partial) {
+        return { data, cached: false };
+      }
+
+      // 播放链接会过期，包含链接的结果只做短时间缓存，且不超过最早过期的链接
+      const expiries = tracks
+        .map(track => track.expiresAt ? Date.parse(track.expiresAt) : null)
+        .filter((time): time is number => time !== null);
+      await cacheService.set(cacheKey, data, {
+        priority: resolve ? CachePriority.LOW : CachePriority.NORMAL,
+        expiresAt: expiries.length > 0 ? Math.min(...expiries) : null
+      });
+
+      return { data, cached: false };
+    } finally {
+      step.dispose();
+    }
+  }
+
+  /**
+   * 获取合集基本信息和完整曲目ID列表
+   */
+  private async getCollectionMeta(type: CollectionType, id: string, deadline?: Deadline): Promise<ProviderCollectionResult> {
+    const cacheKey = `${type}meta:${id}`;
+
+    const cachedMeta = await cacheService.get(cacheKey);
+    if (cachedMeta) {
+      return cachedMeta;
+    }
+
+    return this.coalesce(cacheKey, deadline, async step => {
+      const provider = getCatalogProvider();
+      const collection = await this.callUpstream(type, provider.source, step, signal =>
+        type === 'playlist' ? provider.getPlaylist(id, { signal }) : provider.getAlbum(id, { signal })
+      );
+
+      await cacheService.set(cacheKey, collection, {
+        ttl: META_CACHE_TTL,
+        priority: CachePriority.LOW
+      });
+
+      return collection;
+    });
+  }
+
+  /**
+   * 获取曲目详情，合集未附带的曲目再批量查询
+   */
+  private async getSongs(collection: ProviderCollectionResult, ids: string[], step: Deadline): Promise<SongInfo[]> {
+    const provider = getCatalogProvider();
+    const details = new Map<string, any>(collection.tracks.map(track => [String(track.id), track]));
+
+    const missing = ids.filter(id => !details.has(id));
+    if (missing.length > 0) {
+      const songs = await this.callUpstream('songdetail', provider.source, step, signal => provider.getSongDetails(missing, { signal }));
+      for (const song of songs) {
+        details.set(String(song.id), song);
+      }
+    }
+
+    // 已下架且查不到详情的曲目仍保留ID，保持与合集顺序一致
+    return ids.map(id => details.has(id)
+      ? provider.toSongInfo(details.get(id))
+      : { id, name: '', artist: '', source: provider.source });
+  }
+
+  /**
+   * 通过 matchSong 标注曲目的解灰状态
+   * @param song 曲目信息
+   * @param resolve 是否附带播放链接
+   * @param step 请求的截止时间，到期后不再匹配，未完成的曲目标注为超时
+   */
+  private async matchTrack(song: SongInfo, resolve: boolean, step: Deadline): Promise<CollectionTrack> {
+    try {
+      // 合集已附带曲目时长，匹配时不再逐首查询详情
+      const result = await musicService.matchSong(song.id, DEFAULT_SOURCES, step, song.duration);
+      const match = result.data || {};
+      const br = Number(match.br) > 0 ? Math.round(Number(match.br) / 1000) : undefined;
+
+      return {
+        ...song,
+        ...(resolve && match.url && {
+          url: match.url,
+          br,
+          size: match.size,
+          md5: match.md5,
+          expiresAt: match.expiresAt
+        }),
+        unblock: {
+          available: Boolean(match.url),
+          source: match.source,
+          br
+        }
+      };
+    } catch (error) {
+      return {
+        ...song,
+        unblock: {
+          available: false,
+          reason: error instanceof Error ? error.message : String(error),
+          ...(step.expired && isTimeoutError(error) && { timedOut: true })
+        }
+      };
+    }
+  }
+
+  /**
+   * 合并相同缓存键的并发请求，共享的加载过程使用服务端的时间预算，每个请求只等待到自己的截止时间
+   */
+  private coalesce<T>(key: string, deadline: Deadline | undefined, load: (step: Deadline) => Promise<T>): Promise<T> {
+    return waitWithin(deadline, () => cacheService.coalesce(key, async () => {
+      const step = new Deadline(config.REQUEST_DEADLINE_MAX);
+      try {
+        return await load(step);
+      } finally {
+        step.dispose();
+      }
+    }));
+  }
+
+  /**
+   * 请求曲库上游：经过熔断器并带超时和重试，单次调用不超过 REQUEST_TIMEOUT 和剩余时间
+   */
+  private async callUpstream<T>(endpoint: string, source: string, step: Deadline, fn: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const call = step.child(config.REQUEST_TIMEOUT || 15000);
+
+    try {
+      return await circuitBreakerService.execute(
+        endpoint,
+        source,
+        () => withRetry(() => fn(call.signal), { signal: call.signal }),
+        step.signal
+      );
+    } catch (error: any) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      if (error?.name === 'AbortError') {
+        throw ApiError.timeout('曲库服务请求超时', { endpoint });
+      }
+      throw ApiError.api('曲库服务暂时不可用', {
+        endpoint,
+        originalError: error instanceof Error ? error.message : String(error)
+      });
+    } finally {
+      call.dispose();
+    }
+  }
+}
+
+// 导出单例
+export const catalogService = new CatalogService();
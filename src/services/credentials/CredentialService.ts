@@ -0,0 +1,497 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { config } from '../../config/env';
+import { findSource, getCredentialSources, getSourceDefinition, SourceCode, SourceCredential } from '../../config/source-registry';
+import { ApiError } from '../../utils/errors';
+import { maskSensitiveData } from '../../utils/data-protection';
+import { installMatchCancellation } from '../../utils/match-cancellation';
+import {
+  CredentialCipher,
+  CredentialStatus,
+  CredentialStore,
+  FileCredentialStore,
+  PostgresCredentialStore,
+  StoredCredential
+} from './CredentialStore';
+
+/**
+ * 音源凭据的校验规则
+ */
+interface CredentialRule {
+  check: (value: string) => string | null; // 格式校验，返回不通过的原因
+  remote?: (value: string, signal: AbortSignal) => Promise<string | null>; // 在线校验，返回不通过的原因
+}
+
+type CredentialDefinition = SourceCredential & CredentialRule;
+
+/**
+ * 凭据校验结果
+ */
+export interface CredentialCheck {
+  valid: boolean;
+  method: 'format' | 'remote'; // 只检查格式还是请求了音源接口
+  reason?: string;
+}
+
+/**
+ * 对外展示的凭据状态，不包含凭据本身
+ */
+export interface CredentialSummary {
+  source: string;
+  env: string;
+  configured: boolean;
+  origin: 'runtime' | 'env' | null; // 管理接口设置的还是环境变量提供的
+  status: CredentialStatus;
+  valid: boolean | null;            // 尚未校验时为null
+  preview?: string;                 // 掩码后的凭据
+  updatedAt?: string;
+  expiresAt?: string;
+  validatedAt?: string;
+  reason?: string;
+}
+
+// 在线校验的超时时间(毫秒)
+const REMOTE_CHECK_TIMEOUT = 5000;
+
+/**
+ * 按分号分隔的Cookie中是否包含指定的键
+ */
+function hasCookieKeys(value: string, keys: string[]): boolean {
+  const names = value.split(';').map(part => part.split('=')[0].trim());
+  return keys.every(key => names.includes(key));
+}
+
+/**
+ * 各音源凭据的校验规则，凭据对应的环境变量和说明见音源注册表
+ */
+const CREDENTIAL_RULES: Partial<Record<SourceCode, CredentialRule>> = {
+  netease: {
+    check: value => (hasCookieKeys(value, ['MUSIC_U']) ? null : 'Cookie中缺少 MUSIC_U'),
+    // 登录状态失效时账号接口返回的 profile 为空
+    remote: async (value, signal) => {
+      const response = await fetch('https://music.163.com/api/nuser/account/get', {
+        headers: { 'Cookie': value, 'User-Agent': config.USER_AGENT, 'Referer': 'https://music.163.com/' },
+        signal
+      });
+      const body: any = await response.json().catch(() => null);
+      return body?.profile ? null : '登录状态已失效';
+    }
+  },
+  qq: {
+    check: value => (hasCookieKeys(value, ['uin']) && (hasCookieKeys(value, ['qm_keyst']) || hasCookieKeys(value, ['qqmusic_key']))
+      ? null
+      : 'Cookie中缺少 uin 或 qm_keyst/qqmusic_key')
+  },
+  migu: {
+    check: value => (/^[0-9A-Za-z_-]{8,}$/.test(value) ? null : 'aversionid 格式不正确')
+  },
+  joox: {
+    check: value => (hasCookieKeys(value, ['wmid', 'session_key']) ? null : 'Cookie中缺少 wmid 或 session_key')
+  },
+  youtube: {
+    check: value => (/^AIza[0-9A-Za-z_-]{35}$/.test(value) ? null : 'API密钥格式不正确')
+  }
+};
+
+// 支持运行时管理凭据的音源
+export const CREDENTIAL_SOURCES: string[] = getCredentialSources();
+
+/**
+ * 获取音源凭据的定义，没有校验规则的音源只要求非空
+ */
+function getCredential(source: string): CredentialDefinition {
+  const code = source as SourceCode;
+  return { check: () => null, ...getSourceDefinition(code).credential!, ...CREDENTIAL_RULES[code] };
+}
+
+type MatchFunction = (id: string | number, sources?: string[]) => Promise<any>;
+
+// 解灰模块中加载时读取凭据环境变量的音源模块（相对 src/provider）
+const CREDENTIAL_MODULES = ['qq.js', 'migu.js', 'joox.js', 'youtube.js'];
+
+/**
+ * 一组凭据的版本，任一凭据被修改时变化
+ */
+function revisionOf(credentials: Iterable<StoredCredential>): string {
+  return [...credentials].map(credential => `${credential.source}:${credential.revision || credential.updatedAt}`).sort().join(',');
+}
+
+/**
+ * 音源凭据服务
+ * 通过管理接口在运行时设置、校验和作废各音源的Cookie，加密保存，并在匹配前写入解灰模块的环境变量；
+ * 集群中的其他进程定期检查凭据版本并重新加载
+ */
+export class CredentialService {
+  private credentials = new Map<string, StoredCredential>();
+  private store: CredentialStore | null = null;
+  private revision = '';
+  private syncTimer: NodeJS.Timeout | null = null;
+  private syncing: Promise<boolean> | null = null;
+  // 环境变量原本提供的凭据，管理接口设置的凭据失效后恢复使用
+  private readonly envBaseline = new Map(CREDENTIAL_SOURCES.map(source => [source, process.env[getCredential(source).env]]));
+  private matcher: MatchFunction | null = null;
+  // 解灰模块加载时使用的凭据，变化后需要重新加载
+  private loadedFingerprint: string | null = null;
+
+  /**
+   * 是否可以保存凭据（需要配置 CREDENTIAL_SECRET）
+   */
+  isEnabled(): boolean {
+    return Boolean(config.CREDENTIAL_SECRET);
+  }
+
+  /**
+   * 从存储加载凭据，服务启动时调用
+   */
+  async initialize(): Promise<void> {
+    await this.sync();
+  }
+
+  /**
+   * 开始定期同步其他进程的修改，间隔与音源设置相同
+   */
+  startSync(): void {
+    if (this.syncTimer || !this.getStore() || config.SOURCE_SETTINGS_SYNC_INTERVAL <= 0) {
+      return;
+    }
+
+    this.syncTimer = setInterval(() => {
+      this.sync().catch(error => console.error('同步音源凭据失败:', error));
+    }, config.SOURCE_SETTINGS_SYNC_INTERVAL);
+    this.syncTimer.unref();
+  }
+
+  /**
+   * 停止定期同步
+   */
+  stopSync(): void {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+  }
+
+  /**
+   * 读取存储中的凭据，版本变化时应用，下一次匹配前重新加载解灰模块
+   * @returns 是否应用了新的凭据
+   */
+  sync(): Promise<boolean> {
+    const store = this.getStore();
+    if (!store) {
+      return Promise.resolve(false);
+    }
+
+    // 同一时间只进行一次读取
+    if (!this.syncing) {
+      this.syncing = store.load()
+        .then(loaded => {
+          const credentials = loaded.filter(credential => CREDENTIAL_SOURCES.includes(credential.source));
+          const revision = revisionOf(credentials);
+          if (revision === this.revision) {
+            return false;
+          }
+
+          this.credentials = new Map(credentials.map(credential => [credential.source, credential]));
+          this.revision = revision;
+          this.applyToEnvironment();
+          return true;
+        })
+        .finally(() => {
+          this.syncing = null;
+        });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * 规范化音源名称
+   * @throws ApiError 音源不需要或不支持凭据时
+   */
+  normalizeSource(source: string): string {
+    const code = findSource(source);
+    if (!code || !CREDENTIAL_SOURCES.includes(code)) {
+      throw ApiError.validation(`不支持的音源: ${source}，支持的值: ${CREDENTIAL_SOURCES.join(', ')}`);
+    }
+    return code;
+  }
+
+  /**
+   * 列出所有音源的凭据状态
+   */
+  list(): CredentialSummary[] {
+    return CREDENTIAL_SOURCES.map(source => this.summarize(source));
+  }
+
+  /**
+   * 获取单个音源的凭据状态
+   */
+  summarize(source: string): CredentialSummary {
+    const definition = getCredential(source);
+    const runtime = this.credentials.get(source);
+    const envValue = process.env[definition.env];
+
+    if (runtime) {
+      const status = this.getEffectiveStatus(runtime);
+      return {
+        source,
+        env: definition.env,
+        configured: true,
+        origin: 'runtime',
+        status,
+        valid: status === 'unknown' ? null : status === 'valid',
+        preview: maskSensitiveData(runtime.value, 4, 4),
+        updatedAt: new Date(runtime.updatedAt).toISOString(),
+        ...(runtime.expiresAt && { expiresAt: new Date(runtime.expiresAt).toISOString() }),
+        ...(runtime.validatedAt && { validatedAt: new Date(runtime.validatedAt).toISOString() }),
+        ...(status === 'expired' && !runtime.reason ? { reason: '已超过设置的过期时间' } : runtime.reason && { reason: runtime.reason })
+      };
+    }
+
+    return {
+      source,
+      env: definition.env,
+      configured: Boolean(envValue),
+      origin: envValue ? 'env' : null,
+      status: 'unknown',
+      valid: envValue ? null : false,
+      ...(envValue && { preview: maskSensitiveData(envValue, 4, 4) })
+    };
+  }
+
+  /**
+   * 设置音源凭据，格式校验通过后保存并立即生效
+   * @param source 音源
+   * @param value Cookie或API密钥
+   * @param expiresAt 过期时间，到期后不再使用
+   */
+  async set(source: string, value: string, expiresAt?: number): Promise<CredentialSummary> {
+    const name = this.normalizeSource(source);
+    const store = this.requireStore();
+
+    const trimmed = String(value || '').trim();
+    if (!trimmed) {
+      throw ApiError.validation('缺少必要参数 value');
+    }
+    const formatError = getCredential(name).check(trimmed);
+    if (formatError) {
+      throw ApiError.validation(`${getCredential(name).description}: ${formatError}`);
+    }
+    if (expiresAt !== undefined && (!Number.isFinite(expiresAt) || expiresAt <= Date.now())) {
+      throw ApiError.validation('expiresAt 必须是未来的时间');
+    }
+
+    await this.persist(store, {
+      source: name,
+      value: trimmed,
+      status: 'unknown',
+      updatedAt: Date.now(),
+      ...(expiresAt && { expiresAt })
+    });
+
+    return this.summarize(name);
+  }
+
+  /**
+   * 校验音源凭据，有在线校验方式的音源会请求音源接口
+   * @param source 音源
+   */
+  async validate(source: string): Promise<CredentialSummary & { check: CredentialCheck }> {
+    const name = this.normalizeSource(source);
+    const definition = getCredential(name);
+    const runtime = this.credentials.get(name);
+    const value = runtime?.value ?? process.env[definition.env];
+    if (!value) {
+      throw ApiError.notFound(`音源 ${name} 未配置凭据`);
+    }
+
+    const check = await this.check(name, value);
+
+    // 环境变量提供的凭据只返回校验结果，不写入存储
+    if (runtime) {
+      await this.persist(this.requireStore(), {
+        ...runtime,
+        status: this.getEffectiveStatus(runtime) === 'expired' ? 'expired' : check.valid ? 'valid' : 'invalid',
+        validatedAt: Date.now(),
+        reason: check.reason
+      });
+    }
+
+    return { ...this.summarize(name), check };
+  }
+
+  /**
+   * 作废音源凭据，之后的匹配不再使用
+   * @param source 音源
+   */
+  async expire(source: string): Promise<CredentialSummary> {
+    const name = this.normalizeSource(source);
+    const store = this.requireStore();
+    const runtime = this.credentials.get(name);
+    if (!runtime) {
+      throw ApiError.notFound(`音源 ${name} 没有通过管理接口设置的凭据`);
+    }
+
+    await this.persist(store, { ...runtime, status: 'expired', reason: '已手动作废' });
+
+    return this.summarize(name);
+  }
+
+  /**
+   * 各音源凭据是否可用，用于 /sources 标记
+   * valid 为 false 表示未配置、校验未通过或已过期
+   */
+  getSourceFlags(): Record<string, { configured: boolean; valid: boolean; status: CredentialStatus }> {
+    return Object.fromEntries(this.list().map(summary => [summary.source, {
+      configured: summary.configured,
+      valid: summary.configured && summary.status !== 'invalid' && summary.status !== 'expired',
+      status: summary.status
+    }]));
+  }
+
+  /**
+   * 匹配前调用：把可用的凭据写入环境变量，凭据变化时重新加载解灰模块
+   * 解灰模块在加载时读取 QQ_COOKIE 等环境变量，只改环境变量不会生效
+   * @returns 使用最新凭据的 match 函数
+   */
+  prepareMatch(): MatchFunction {
+    this.applyToEnvironment();
+
+    const fingerprint = this.fingerprint();
+    if (!this.matcher || fingerprint !== this.loadedFingerprint) {
+      if (this.matcher) {
+        console.log('音源凭据已更新，重新加载解灰模块');
+      }
+      this.matcher = this.loadUnblockModule();
+      this.loadedFingerprint = fingerprint;
+    }
+    return this.matcher;
+  }
+
+  /**
+   * 保存凭据并立即生效，更新版本供其他进程同步
+   */
+  private async persist(store: CredentialStore, credential: StoredCredential): Promise<void> {
+    const saved: StoredCredential = { ...credential, revision: `${Date.now().toString(36)}-${crypto.randomBytes(4).toString('hex')}` };
+    await store.save(saved);
+    this.credentials.set(saved.source, saved);
+    this.revision = revisionOf(this.credentials.values());
+    this.applyToEnvironment();
+  }
+
+  /**
+   * 把管理接口设置的凭据写入环境变量，过期、无效或未设置时恢复环境变量原本的凭据
+   */
+  private applyToEnvironment(): void {
+    for (const source of CREDENTIAL_SOURCES) {
+      const { env } = getCredential(source);
+      const credential = this.credentials.get(source);
+      const status = credential && this.getEffectiveStatus(credential);
+      const value = credential && status !== 'expired' && status !== 'invalid'
+        ? credential.value
+        : this.envBaseline.get(source);
+
+      if (value === undefined) {
+        delete process.env[env];
+      } else {
+        process.env[env] = value;
+      }
+      config[env] = value;
+    }
+  }
+
+  /**
+   * 校验凭据：先检查格式，有在线校验方式时再请求音源接口
+   */
+  private async check(source: string, value: string): Promise<CredentialCheck> {
+    const definition = getCredential(source);
+    const formatError = definition.check(value);
+    if (formatError || !definition.remote) {
+      return { valid: !formatError, method: 'format', ...(formatError && { reason: formatError }) };
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), REMOTE_CHECK_TIMEOUT);
+    try {
+      const reason = await definition.remote(value, controller.signal);
+      return { valid: !reason, method: 'remote', ...(reason && { reason }) };
+    } catch (error: any) {
+      throw ApiError.api(`无法校验 ${source} 的凭据: ${error?.name === 'AbortError' ? '请求超时' : error?.message || String(error)}`);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * 考虑过期时间后的实际状态
+   */
+  private getEffectiveStatus(credential: StoredCredential): CredentialStatus {
+    if (credential.expiresAt && credential.expiresAt <= Date.now()) {
+      return 'expired';
+    }
+    return credential.status;
+  }
+
+  /**
+   * 当前环境变量中凭据的摘要
+   */
+  private fingerprint(): string {
+    const values = CREDENTIAL_SOURCES.map(source => process.env[getCredential(source).env] || '');
+    return crypto.createHash('sha256').update(values.join('\n')).digest('hex');
+  }
+
+  /**
+   * 清除读取凭据的模块及引用了它们的模块的 require 缓存后重新加载，使其读取新的环境变量；
+   * 其余模块（如已替换的 request 模块）保持不变，加载前确保 request 模块已替换，使匹配可以被取消
+   */
+  private loadUnblockModule(): MatchFunction {
+    const packageDir = path.dirname(require.resolve('@unblockneteasemusic/server/package.json'));
+    for (const key of this.collectCredentialModules(packageDir)) {
+      delete require.cache[key];
+    }
+
+    installMatchCancellation(packageDir);
+    const loaded = require('@unblockneteasemusic/server');
+    return (loaded.default || loaded) as MatchFunction;
+  }
+
+  /**
+   * 读取凭据的音源模块，以及直接或间接引用了它们的模块（如 consts.js、match.js）
+   */
+  private collectCredentialModules(packageDir: string): Set<string> {
+    const stale = new Set(CREDENTIAL_MODULES.map(file => path.join(packageDir, 'src', 'provider', file)));
+
+    let added = true;
+    while (added) {
+      added = false;
+      for (const [key, cached] of Object.entries(require.cache)) {
+        if (cached && !stale.has(key) && key.startsWith(packageDir + path.sep)
+          && cached.children.some(child => stale.has(child.filename))) {
+          stale.add(key);
+          added = true;
+        }
+      }
+    }
+    return stale;
+  }
+
+  private getStore(): CredentialStore | null {
+    if (!this.store && config.CREDENTIAL_SECRET) {
+      const cipher = new CredentialCipher(config.CREDENTIAL_SECRET);
+      this.store = config.DATABASE_URL
+        ? new PostgresCredentialStore(cipher)
+        : new FileCredentialStore(config.CREDENTIAL_STORE_PATH, cipher);
+    }
+    return this.store;
+  }
+
+  private requireStore(): CredentialStore {
+    const store = this.getStore();
+    if (!store) {
+      throw ApiError.unavailable('未配置 CREDENTIAL_SECRET，无法保存音源凭据');
+    }
+    return store;
+  }
+}
+
+// 导出单例
+export const credentialService = new CredentialService();
@@ -0,0 +1,156 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { databaseService } from '../db/DatabaseService';
+
+/**
+ * 音源凭据的持久化存储
+ * 凭据整体加密后保存，文件或数据库中不出现明文Cookie
+ */
+
+/**
+ * 单个音源的凭据记录
+ */
+export interface StoredCredential {
+  source: string;
+  value: string;                 // Cookie或API密钥
+  status: CredentialStatus;
+  updatedAt: number;
+  expiresAt?: number;            // 管理员设置的过期时间(毫秒时间戳)
+  validatedAt?: number;          // 最近一次校验的时间
+  reason?: string;               // 校验失败或过期的原因
+  revision?: string;             // 每次保存时更新，集群中的其他进程据此发现修改
+}
+
+/**
+ * 凭据状态
+ * unknown: 已设置但尚未校验；valid: 校验通过；invalid: 校验未通过；expired: 已过期或被手动作废
+ */
+export type CredentialStatus = 'unknown' | 'valid' | 'invalid' | 'expired';
+
+/**
+ * 凭据存储接口
+ */
+export interface CredentialStore {
+  load(): Promise<StoredCredential[]>;
+  save(credential: StoredCredential): Promise<void>;
+}
+
+// 密文格式版本
+const CIPHER_VERSION = 'v1';
+
+/**
+ * 使用 AES-256-GCM 加解密凭据
+ */
+export class CredentialCipher {
+  private readonly key: Buffer;
+
+  /**
+   * @param secret 加密密钥，任意长度，内部派生为256位密钥
+   */
+  constructor(secret: string) {
+    this.key = crypto.createHash('sha256').update(secret).digest();
+  }
+
+  encrypt(credential: StoredCredential): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.key, iv);
+    const body = Buffer.concat([cipher.update(JSON.stringify(credential), 'utf8'), cipher.final()]);
+    return [CIPHER_VERSION, iv.toString('base64url'), cipher.getAuthTag().toString('base64url'), body.toString('base64url')].join(':');
+  }
+
+  /**
+   * 解密凭据，密钥不匹配或内容被篡改时抛出异常
+   */
+  decrypt(payload: string): StoredCredential {
+    const [version, iv, tag, body] = payload.split(':');
+    if (version !== CIPHER_VERSION || !iv || !tag || !body) {
+      throw new Error('不支持的凭据密文格式');
+    }
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.key, Buffer.from(iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    const plain = Buffer.concat([decipher.update(Buffer.from(body, 'base64url')), decipher.final()]);
+    return JSON.parse(plain.toString('utf8'));
+  }
+}
+
+/**
+ * 保存到本地JSON文件，每个音源一条密文
+ */
+export class FileCredentialStore implements CredentialStore {
+  constructor(private readonly filePath: string, private readonly cipher: CredentialCipher) { }
+
+  async load(): Promise<StoredCredential[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: Record<string, string> = JSON.parse(content);
+    return Object.values(entries).map(payload => this.cipher.decrypt(payload));
+  }
+
+  async save(credential: StoredCredential): Promise<void> {
+    let entries: Record<string, string> = {};
+    try {
+      entries = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    entries[credential.source] = this.cipher.encrypt(credential);
+
+    // 先写临时文件再重命名，避免写入中断导致文件损坏
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(entries, null, 2), { mode: 0o600 });
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+/**
+ * 保存到 PostgreSQL 的 source_credentials 表
+ */
+export class PostgresCredentialStore implements CredentialStore {
+  private ready: Promise<void> | null = null;
+
+  constructor(private readonly cipher: CredentialCipher) { }
+
+  async load(): Promise<StoredCredential[]> {
+    await this.ensureTable();
+    const result = await databaseService.query<{ payload: string }>('SELECT payload FROM source_credentials');
+    return result.rows.map(row => this.cipher.decrypt(row.payload));
+  }
+
+  async save(credential: StoredCredential): Promise<void> {
+    await this.ensureTable();
+    await databaseService.query(
+      `INSERT INTO source_credentials (source, payload, updated_at) VALUES ($1, $2, NOW())
+       ON CONFLICT (source) DO UPDATE SET payload = EXCLUDED.payload, updated_at = NOW()`,
+      [credential.source, this.cipher.encrypt(credential)]
+    );
+  }
+
+  private ensureTable(): Promise<void> {
+    if (!this.ready) {
+      this.ready = databaseService.query(
+        `CREATE TABLE IF NOT EXISTS source_credentials (
+           source TEXT PRIMARY KEY,
+           payload TEXT NOT NULL,
+           updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+         )`
+      ).then(() => undefined, error => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+}
@@ -0,0 +1,149 @@
+import { config } from '../../config/env';
+import { cacheService } from '../cache/CacheService';
+import { Deadline, waitWithin } from '../../utils/deadline';
+import { ApiError } from '../../utils/errors';
+import { TrackId } from '../../utils/track-id';
+import { extractUrl, isShareLinkHost, isShortLink, parseShareLink } from '../../utils/link-parser';
+
+/**
+ * 分享链接解析结果
+ */
+export interface ResolvedShareLink extends TrackId {
+  url: string;        // 最终解析的歌曲页面链接
+  expanded: boolean;  // 是否经过短链接跳转
+  hops: number;       // 跟随的跳转次数
+}
+
+// 短链接最多跟随的跳转次数
+const MAX_REDIRECTS = 5;
+
+// 单次跳转请求的超时时间上限(毫秒)
+const MAX_HOP_TIMEOUT = 5000;
+
+// 短链接展开结果的缓存时间(秒)，短链接指向的歌曲不会变化
+const SHORT_LINK_CACHE_TTL = 86400;
+
+/**
+ * 分享链接服务
+ * 解析用户粘贴的平台链接，短链接只在已知的音乐平台域名之间跟随有限次数的跳转
+ */
+export class ShareLinkService {
+  /**
+   * 解析分享链接或包含链接的分享文案
+   * 相同短链接的并发请求共用一次展开，展开过程使用服务端的时间预算，每个请求只等待到自己的截止时间
+   * @param input 链接或分享文案
+   * @param deadline 请求截止时间
+   * @returns 音乐源和曲目ID
+   */
+  async resolve(input: string, deadline?: Deadline): Promise<ResolvedShareLink> {
+    const raw = extractUrl(input);
+    if (!raw) {
+      throw ApiError.validation('未找到有效的链接');
+    }
+
+    let target: URL;
+    try {
+      target = new URL(raw);
+    } catch (error) {
+      throw ApiError.validation(`无效的链接: ${raw}`);
+    }
+    if (!isShareLinkHost(target)) {
+      throw ApiError.validation(`不支持的链接: ${target.hostname}，支持网易云、QQ音乐、酷狗、酷我、B站的歌曲链接`);
+    }
+
+    const track = parseShareLink(target);
+    if (track) {
+      return { ...track, url: target.toString(), expanded: false, hops: 0 };
+    }
+    if (!isShortLink(target)) {
+      throw ApiError.validation('无法从链接中识别歌曲，请使用歌曲页面的分享链接');
+    }
+
+    const cacheKey = `sharelink:${target.toString()}`;
+    const cached = await cacheService.get(cacheKey);
+    if (cached) {
+      return cached as ResolvedShareLink;
+    }
+
+    return waitWithin(deadline, () => cacheService.coalesce(cacheKey, async () => {
+      const step = new Deadline(config.REQUEST_DEADLINE_MAX);
+      try {
+        const result = await this.expand(target, step.signal);
+        await cacheService.set(cacheKey, result, { ttl: SHORT_LINK_CACHE_TTL });
+        return result;
+      } finally {
+        step.dispose();
+      }
+    }));
+  }
+
+  /**
+   * 逐跳跟随短链接，直到得到可以识别的歌曲页面
+   */
+  private async expand(start: URL, signal?: AbortSignal): Promise<ResolvedShareLink> {
+    let current = start;
+
+    for (let hops = 1; hops <= MAX_REDIRECTS; hops++) {
+      const location = await this.followOnce(current, signal);
+      if (!location) {
+        throw ApiError.validation('短链接没有跳转到歌曲页面');
+      }
+
+      let next: URL;
+      try {
+        next = new URL(location, current);
+      } catch (error) {
+        throw ApiError.validation('短链接跳转地址无效');
+      }
+      // 只在已知的音乐平台之间跳转，避免被用来访问任意地址
+      if (!isShareLinkHost(next)) {
+        throw ApiError.validation(`短链接跳转到了不支持的域名: ${next.hostname}`);
+      }
+
+      const track = parseShareLink(next);
+      if (track) {
+        return { ...track, url: next.toString(), expanded: true, hops };
+      }
+      current = next;
+    }
+
+    throw ApiError.validation(`短链接跳转超过 ${MAX_REDIRECTS} 次`);
+  }
+
+  /**
+   * 请求一次短链接，返回跳转地址，不是跳转响应时返回null
+   */
+  private async followOnce(target: URL, signal?: AbortSignal): Promise<string | null> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), Math.min(config.REQUEST_TIMEOUT || 15000, MAX_HOP_TIMEOUT));
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const response = await fetch(target.toString(), {
+        method: 'GET',
+        headers: {
+          'User-Agent': config.USER_AGENT,
+          'Accept': 'text/html,*/*'
+        },
+        redirect: 'manual',
+        signal: controller.signal
+      });
+
+      // 只需要跳转地址，丢弃响应体
+      await response.body?.cancel().catch(() => { });
+      return response.status >= 300 && response.status < 400 ? response.headers.get('location') : null;
+    } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        throw ApiError.timeout('展开短链接超时');
+      }
+      throw ApiError.api(`无法展开短链接: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+// 导出单例
+export const shareLinkService = new ShareLinkService();
@@ -0,0 +1,313 @@
+import { ApiError } from '../../utils/errors';
+
+/**
+ * 支持的歌词输出格式
+ */
+export const LYRIC_FORMATS = ['json', 'lrc', 'srt', 'vtt', 'merged-lrc'] as const;
+export type LyricFormat = typeof LYRIC_FORMATS[number];
+
+/**
+ * 单行歌词
+ */
+export interface LyricLine {
+  time: number;         // 开始时间(毫秒)，已应用offset
+  text: string;
+  translation?: string; // 对应时间点的翻译
+}
+
+/**
+ * 解析后的歌词
+ */
+export interface ParsedLyric {
+  metadata: Record<string, string>; // ti、ar、al、by 等标签
+  offset: number;                   // 原始offset(毫秒)，已应用到每行时间上
+  lines: LyricLine[];
+}
+
+/**
+ * 时间轴中的歌词行（JSON格式输出）
+ */
+export interface LyricTimelineLine extends LyricLine {
+  end: number; // 结束时间(毫秒)
+}
+
+/**
+ * 格式化结果
+ */
+export interface FormattedLyric {
+  contentType: string;
+  body: string | { metadata: Record<string, string>; lines: LyricTimelineLine[] };
+}
+
+// 时间标签，兼容 [mm:ss]、[mm:ss.xx]、[mm:ss.xxx]、[mm:ss:xx]
+const TIME_TAG = /\[(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?\]/g;
+
+// 元数据标签，如 [ti:歌名]、[offset:+500]
+const METADATA_TAG = /^\[([a-zA-Z#]+):(.*)\]$/;
+
+// 合并翻译时允许的时间误差(毫秒)
+const MERGE_TOLERANCE = 100;
+
+// 最后一行没有下一行可作为结束时间时的默认持续时间(毫秒)
+const LAST_LINE_DURATION = 5000;
+
+/**
+ * 歌词服务
+ * 解析 LRC 歌词、合并翻译，并导出为 JSON 时间轴、LRC、SRT、WebVTT 等格式
+ */
+export class LyricService {
+  /**
+   * 解析 LRC 歌词
+   * 支持一行多个时间标签、offset 和元数据标签，以及网易云的 JSON 制作人员行
+   * @param lrc 原始歌词文本
+   * @returns 解析结果，按时间排序
+   */
+  parse(lrc: string): ParsedLyric {
+    const metadata: Record<string, string> = {};
+    const lines: LyricLine[] = [];
+
+    for (const rawLine of String(lrc || '').split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line) {
+        continue;
+      }
+
+      // 网易云歌词开头的制作人员信息为JSON，如 {"t":0,"c":[{"tx":"作词: "},{"tx":"某人"}]}
+      if (line.startsWith('{')) {
+        const creditLine = this.parseJsonLine(line);
+        if (creditLine) {
+          lines.push(creditLine);
+        }
+        continue;
+      }
+
+      const metadataMatch = METADATA_TAG.exec(line);
+      if (metadataMatch && !/^\d+$/.test(metadataMatch[1])) {
+        metadata[metadataMatch[1].toLowerCase()] = metadataMatch[2].trim();
+        continue;
+      }
+
+      // 提取行首所有时间标签，剩余部分为歌词文本
+      const times: number[] = [];
+      let textStart = 0;
+      TIME_TAG.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = TIME_TAG.exec(line)) !== null && match.index === textStart) {
+        times.push(this.toMilliseconds(match[1], match[2], match[3]));
+        textStart = TIME_TAG.lastIndex;
+      }
+
+      const text = line.slice(textStart).trim();
+      for (const time of times) {
+        lines.push({ time, text });
+      }
+    }
+
+    // 按LRC约定，正offset表示歌词提前显示
+    const offset = parseInt(metadata.offset || '0', 10) || 0;
+    delete metadata.offset;
+
+    return {
+      metadata,
+      offset,
+      lines: lines
+        .map(line => ({ ...line, time: Math.max(0, line.time - offset) }))
+        .sort((a, b) => a.time - b.time)
+    };
+  }
+
+  /**
+   * 按时间将翻译合并到原文
+   * @param original 原文歌词
+   * @param translation 翻译歌词
+   * @returns 合并后的歌词
+   */
+  merge(original: ParsedLyric, translation: ParsedLyric): ParsedLyric {
+    const translations = translation.lines.filter(line => line.text);
+
+    return {
+      ...original,
+      lines: original.lines.map(line => {
+        if (!line.text) {
+          return line;
+        }
+
+        // 优先精确匹配，否则取误差范围内最近的一行
+        let best: LyricLine | undefined;
+        for (const candidate of translations) {
+          const distance = Math.abs(candidate.time - line.time);
+          if (distance <= MERGE_TOLERANCE && (!best || distance < Math.abs(best.time - line.time))) {
+            best = candidate;
+          }
+        }
+
+        return best && best.text !== line.text ? { ...line, translation: best.text } : line;
+      })
+    };
+  }
+
+  /**
+   * 解析原文和翻译并合并
+   * @param lyric 原文LRC
+   * @param tlyric 翻译LRC
+   */
+  parseWithTranslation(lyric: string, tlyric?: string): ParsedLyric {
+    const original = this.parse(lyric);
+    if (!tlyric) {
+      return original;
+    }
+
+    // 翻译与原文共用时间轴，翻译未声明offset时沿用原文的offset
+    const translation = this.parse(tlyric);
+    if (!translation.offset && original.offset) {
+      translation.lines = translation.lines.map(line => ({ ...line, time: Math.max(0, line.time - original.offset) }));
+    }
+
+    return this.merge(original, translation);
+  }
+
+  /**
+   * 将歌词导出为指定格式
+   * @param lyric 原文LRC
+   * @param tlyric 翻译LRC
+   * @param format 输出格式
+   * @returns 内容类型和内容
+   */
+  format(lyric: string, tlyric: string | undefined, format: LyricFormat): FormattedLyric {
+    const parsed = this.parseWithTranslation(lyric, tlyric);
+
+    switch (format) {
+      case 'json':
+        return {
+          contentType: 'application/json; charset=utf-8',
+          body: { metadata: parsed.metadata, lines: this.toTimeline(parsed) }
+        };
+      case 'lrc':
+        return { contentType: 'text/plain; charset=utf-8', body: this.toLrc(parsed, false) };
+      case 'merged-lrc':
+        return { contentType: 'text/plain; charset=utf-8', body: this.toLrc(parsed, true) };
+      case 'srt':
+        return { contentType: 'application/x-subrip; charset=utf-8', body: this.toSrt(parsed) };
+      case 'vtt':
+        return { contentType: 'text/vtt; charset=utf-8', body: this.toVtt(parsed) };
+      default:
+        throw ApiError.validation(`不支持的歌词格式: ${format}，支持的值: ${LYRIC_FORMATS.join(', ')}`);
+    }
+  }
+
+  /**
+   * 生成带结束时间的时间轴，下一行开始即为本行结束
+   */
+  toTimeline(parsed: ParsedLyric): LyricTimelineLine[] {
+    return parsed.lines.map((line, index) => {
+      const next = parsed.lines.slice(index + 1).find(candidate => candidate.time > line.time);
+      return { ...line, end: next ? next.time : line.time + LAST_LINE_DURATION };
+    });
+  }
+
+  /**
+   * 导出为标准化的 LRC
+   * @param withTranslation 是否在原文后追加同一时间的翻译行
+   */
+  toLrc(parsed: ParsedLyric, withTranslation: boolean): string {
+    const output = Object.entries(parsed.metadata).map(([key, value]) => `[${key}:${value}]`);
+
+    for (const line of parsed.lines) {
+      const tag = `[${this.formatLrcTime(line.time)}]`;
+      output.push(`${tag}${line.text}`);
+      if (withTranslation && line.translation) {
+        output.push(`${tag}${line.translation}`);
+      }
+    }
+
+    return output.join('\n') + '\n';
+  }
+
+  /**
+   * 导出为 SRT 字幕
+   */
+  toSrt(parsed: ParsedLyric): string {
+    return this.toCues(parsed)
+      .map((cue, index) => `${index + 1}\n${this.formatCueTime(cue.time, ',')} --> ${this.formatCueTime(cue.end, ',')}\n${cue.text}\n`)
+      .join('\n');
+  }
+
+  /**
+   * 导出为 WebVTT 字幕
+   */
+  toVtt(parsed: ParsedLyric): string {
+    const cues = this.toCues(parsed)
+      .map(cue => `${this.formatCueTime(cue.time, '.')} --> ${this.formatCueTime(cue.end, '.')}\n${cue.text}\n`);
+
+    return ['WEBVTT\n', ...cues].join('\n');
+  }
+
+  /**
+   * 字幕条目：跳过空行，翻译作为第二行
+   */
+  private toCues(parsed: ParsedLyric): Array<{ time: number; end: number; text: string }> {
+    return this.toTimeline(parsed)
+      .filter(line => line.text)
+      .map(line => ({
+        time: line.time,
+        end: line.end,
+        text: line.translation ? `${line.text}\n${line.translation}` : line.text
+      }));
+  }
+
+  /**
+   * 解析网易云的JSON歌词行
+   */
+  private parseJsonLine(line: string): LyricLine | null {
+    try {
+      const data = JSON.parse(line);
+      if (typeof data.t !== 'number' || !Array.isArray(data.c)) {
+        return null;
+      }
+
+      return {
+        time: data.t,
+        text: data.c.map((part: { tx?: string }) => part.tx || '').join('').trim()
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * 时间标签转为毫秒，小数部分按位数区分百分秒和毫秒
+   */
+  private toMilliseconds(minutes: string, seconds: string, fraction?: string): number {
+    let ms = 0;
+    if (fraction) {
+      ms = fraction.length === 1 ? Number(fraction) * 100
+        : fraction.length === 2 ? Number(fraction) * 10
+          : Number(fraction);
+    }
+    return Number(minutes) * 60000 + Number(seconds) * 1000 + ms;
+  }
+
+  /**
+   * 格式化为 LRC 时间 mm:ss.xx
+   */
+  private formatLrcTime(time: number): string {
+    const minutes = Math.floor(time / 60000);
+    const seconds = Math.floor((time % 60000) / 1000);
+    const centiseconds = Math.floor((time % 1000) / 10);
+    return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}.${String(centiseconds).padStart(2, '0')}`;
+  }
+
+  /**
+   * 格式化为字幕时间 HH:MM:SS,mmm（SRT）或 HH:MM:SS.mmm（WebVTT）
+   */
+  private formatCueTime(time: number, separator: ',' | '.'): string {
+    const hours = Math.floor(time / 3600000);
+    const minutes = Math.floor((time % 3600000) / 60000);
+    const seconds = Math.floor((time % 60000) / 1000);
+    const milliseconds = Math.floor(time % 1000);
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}${separator}${String(milliseconds).padStart(3, '0')}`;
+  }
+}
+
+// 导出单例
+export const lyricService = new LyricService();
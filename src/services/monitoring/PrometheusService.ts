@@ -37,6 +37,11 @@ class PrometheusService {
    */
   private cacheMissesTotal: Counter;
   
+  /**
+   * 被合并的并发上游请求计数器
+   */
+  private coalescedRequestsTotal: Counter;
+  
   /**
    * 内存使用量仪表
    */
@@ -80,6 +85,12 @@ class PrometheusService {
       labelNames: ['cache_type']
     });
     
+    this.coalescedRequestsTotal = new Counter({
+      name: 'upstream_requests_coalesced_total',
+      help: 'Total number of concurrent upstream requests served by an in-flight request',
+      labelNames: ['key_prefix']
+    });
+    
     this.memoryUsageBytes = new Gauge({
       name: 'memory_usage_bytes',
       help: 'Memory usage in bytes',
@@ -97,14 +108,15 @@ class PrometheusService {
     this.registry.registerMetric(this.httpRequestDurationSeconds);
     this.registry.registerMetric(this.cacheHitsTotal);
     this.registry.registerMetric(this.cacheMissesTotal);
+    this.registry.registerMetric(this.coalescedRequestsTotal);
     this.registry.registerMetric(this.memoryUsageBytes);
     this.registry.registerMetric(this.apiErrorsTotal);
     
     // 收集默认指标
     collectDefaultMetrics({ register: this.registry });
     
-    // 定期更新内存使用量
-    setInterval(() => this.updateMemoryUsage(), 10000);
+    // 定期更新内存使用量，不阻止进程退出
+    setInterval(() => this.updateMemoryUsage(), 10000).unref();
     
     logger.info('Prometheus 监控服务已初始化');
   }
@@ -149,6 +161,14 @@ class PrometheusService {
     this.cacheMissesTotal.inc({ cache_type: cacheType });
   }
   
+  /**
+   * 记录被合并的并发上游请求
+   * @param keyPrefix 缓存键前缀（如 match、ncmget）
+   */
+  recordCoalescedRequest(keyPrefix: string): void {
+    this.coalescedRequestsTotal.inc({ key_prefix: keyPrefix });
+  }
+  
   /**
    * 记录 API 错误
    * @param errorType 错误类型
@@ -1,78 +1,267 @@
-import match from '@unblockneteasemusic/server';
 import { SourceType, DEFAULT_SOURCES } from '../config/sources';
+import { findSource, getCatalogCode, getSourcesFor, isSourceEnabled, SourceOperation, supportsOperation } from '../config/source-registry';
 import { cacheService, CachePriority } from './cache/CacheService';
+import { songCacheService } from './cache/SongCacheService';
 import { generateProxyUrl } from '../utils/proxy';
 import { ApiError, ErrorType } from '../utils/errors';
 import { config } from '../config/env';
+import { getCatalogProvider, getMusicProvider, matchResultSchema, MusicProvider, parseUpstream, ProviderCapability } from './providers';
+import { qualityAssessmentService } from './quality/QualityAssessmentService';
+import { sourceRankingService } from './quality/SourceRankingService';
+import { circuitBreakerService } from './resilience/CircuitBreakerService';
+import { BatchSongItem, BatchSongResult, SongInfo, SourceResult } from '../types';
+import { isTimeoutError, withRetry } from '../utils/retry';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { getNearestPicSize } from './artwork/AlbumArtService';
+import { BITRATE_LADDER, getBitrateCeiling, getBitrateLadder, getQualityLevel, isValidBitrate, normalizeBitrate } from '../utils/bitrate';
+import { NetworkPolicy } from '../utils/network-hints';
+import { LinkProbeResult, linkProbeService } from './stream/LinkProbeService';
+import { getUrlExpiry } from '../utils/url-expiry';
+import { DEFAULT_TRACK_SOURCE, assertTrackOperation, normalizeTrackSource, parseResourceId, parseTrackId } from '../utils/track-id';
+import { rankCandidates } from '../utils/candidate-scorer';
+import { checkMatchDuration, DurationCheck, estimateDuration } from '../utils/audio-duration';
+import { credentialService } from './credentials/CredentialService';
+import { Deadline, waitWithin } from '../utils/deadline';
+import { runCancellableMatch } from '../utils/match-cancellation';
+
+// 搜索取歌时至少向上游请求的候选数量，用于评分挑选
+const SEARCH_CANDIDATE_COUNT = 10;
+
+// 搜索取歌结果中附带的备选候选数量
+const SEARCH_RUNNER_UP_COUNT = 5;
+
+/**
+ * 根据链接的文件扩展名推断音频格式
+ * @param url 音频链接
+ * @returns 音频格式，无法识别时返回undefined
+ */
+function getAudioFormat(url: string): string | undefined {
+  try {
+    const extension = new URL(url).pathname.match(/\.(mp3|flac|m4a|aac|ogg|opus|wav|ape)$/i);
+    return extension ? extension[1].toLowerCase() : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * 将过期时间格式化为ISO字符串
+ * @param expiresAt 过期时间(毫秒时间戳)
+ */
+function formatExpiry(expiresAt: number | null): string | undefined {
+  return expiresAt ? new Date(expiresAt).toISOString() : undefined;
+}
+
+/**
+ * 按解灰模块的方式从各音源的匹配中选出结果
+ * 解灰模块只判断 SELECT_MAX_BR、FOLLOW_SOURCE_ORDER 环境变量是否非空，这里保持一致
+ * @param sources 音源列表
+ * @param attempt 匹配单个音源
+ * @returns 选出的匹配结果
+ * @throws 所有音源都失败时的错误
+ */
+async function selectMatch(sources: SourceType[], attempt: (source: SourceType) => Promise<Record<string, any>>): Promise<Record<string, any>> {
+  if (process.env.SELECT_MAX_BR) {
+    const settled = await Promise.allSettled(sources.map(attempt));
+    const results = settled
+      .filter((item): item is PromiseFulfilledResult<Record<string, any>> => item.status === 'fulfilled')
+      .map(item => item.value);
+    if (results.length === 0) {
+      throw combineMatchErrors(settled.map(item => (item as PromiseRejectedResult).reason));
+    }
+    return results.reduce((best, item) => Number(item.br) > Number(best.br) ? item : best);
+  }
+
+  if (process.env.FOLLOW_SOURCE_ORDER) {
+    const errors: unknown[] = [];
+    for (const source of sources) {
+      try {
+        return await attempt(source);
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+    throw combineMatchErrors(errors);
+  }
+
+  try {
+    return await Promise.any(sources.map(attempt));
+  } catch (error) {
+    throw combineMatchErrors((error as AggregateError).errors);
+  }
+}
+
+/**
+ * 合并各音源的匹配错误，只有一个音源或都是超时时保留原错误，以便返回超时
+ */
+function combineMatchErrors(errors: unknown[]): unknown {
+  if (errors.length === 1 || errors.every(isTimeoutError)) {
+    return errors[0];
+  }
+  return new AggregateError(errors, '所有音源均未匹配成功');
+}
 
 /**
  * 音乐匹配服务
  *
- * 部分API功能由GD Studio's Online Music Platform提供
- * 免责声明：API仅用于学习目的，请勿用于商业用途
- * 若使用该API请注明出处"GD音乐台(music.gdstudio.xyz)"
- *
- * API功能包括：
- * 1. 搜索: types=search&source=[音乐源]&name=[关键词]&count=[每页数量]&pages=[页码]
- * 2. 获取歌曲: types=url&source=[音乐源]&id=[曲目ID]&br=[音质]
- * 3. 获取专辑图: types=pic&source=[音乐源]&id=[图片ID]&size=[尺寸]
- * 4. 获取歌词: types=lyric&source=[音乐源]&id=[歌词ID]
+ * 歌曲匹配由 @unblockneteasemusic/server 完成，
+ * 搜索、直链、歌词和专辑图通过 MusicProvider 接口访问上游API（默认为GD Studio适配器，见 providers/）
  *
- * 支持的音乐源: netease、tencent、tidal、spotify、ytmusic、qobuz、joox、deezer、migu、kugou、kuwo、ximalaya
+ * 各方法接受路由创建的请求截止时间（Deadline），到期时该请求立即返回超时；
+ * 合并的并发请求共用的加载过程按服务端的时间预算运行，不会因为其中某个请求先到期而被中止
  */
 export class MusicService {
   /**
-   * 匹配歌曲
-   * @param id 歌曲ID
-   * @param sources 音源列表
-   * @returns 匹配结果
+   * @param provider 指定上游提供商，不传时根据 MUSIC_API_URL 选择
    */
-  async matchSong(id: string | number, sources: SourceType[] = DEFAULT_SOURCES) {
-    // 验证参数
-    if (!id) {
-      throw ApiError.validation('缺少必要参数 id');
+  constructor(private readonly provider?: MusicProvider) { }
+
+  /**
+   * 获取支持指定能力的上游提供商
+   * @param capability 需要的能力
+   * @returns 提供商实例
+   */
+  private getProvider(capability: ProviderCapability): MusicProvider {
+    const provider = this.provider || getMusicProvider();
+
+    // 检查音乐API是否启用
+    if (!provider) {
+      throw ApiError.api('音乐API服务未启用', { service: 'MUSIC_API' });
     }
 
-    // 增强ID验证：确保是数字或可转为数字的字符串
-    const sanitizedId = String(id).trim();
-    if (!/^\d+$/.test(sanitizedId)) {
-      throw ApiError.validation('无效的ID参数，应为数字');
+    if (!provider.capabilities[capability]) {
+      throw ApiError.api(`当前音乐API不支持该操作: ${capability}`, {
+        provider: provider.name,
+        capability
+      });
     }
 
-    // 限制ID长度防止异常情况
-    if (sanitizedId.length > 20) {
-      throw ApiError.validation('ID参数长度超出限制');
+    return provider;
+  }
+
+  /**
+   * 请求上游：经过对应音源/接口的熔断器，遇到临时性错误时按退避策略重试
+   * 单次请求最多使用 maxBudget，超过时计入熔断；所在步骤的时间用完导致的中止不计入
+   * @param endpoint 上游接口名称
+   * @param source 音源
+   * @param step 所在步骤的截止时间
+   * @param fn 实际请求函数，接收本次请求的取消信号
+   * @param maxBudget 本次请求最多使用的时间(毫秒)，默认为 REQUEST_TIMEOUT
+   */
+  private async callUpstream<T>(
+    endpoint: string,
+    source: string | undefined,
+    step: Deadline,
+    fn: (signal: AbortSignal) => Promise<T>,
+    maxBudget: number = config.REQUEST_TIMEOUT || 15000
+  ): Promise<T> {
+    const call = step.child(maxBudget);
+    try {
+      return await circuitBreakerService.execute(endpoint, source, () => withRetry(() => fn(call.signal), { signal: call.signal }), step.signal);
+    } finally {
+      call.dispose();
     }
+  }
 
-    // 验证音源列表
-    if (sources && Array.isArray(sources)) {
-      // 检查每个音源是否在允许的列表中
-      const invalidSources = sources.filter(
-        source => !Object.values(DEFAULT_SOURCES).includes(source)
-      );
-      if (invalidSources.length > 0) {
-        throw ApiError.validation(`无效的音源: ${invalidSources.join(', ')}`);
+  /**
+   * 合并相同缓存键的并发请求，只向上游发起一次
+   * 共享的加载过程使用服务端的时间预算 REQUEST_DEADLINE_MAX（请求最多可以等待的时间），
+   * 每个请求只等待到自己的截止时间，到期时单独返回超时，其他请求继续等待结果
+   * @param key 缓存键
+   * @param deadline 请求截止时间
+   * @param load 加载函数，接收共享的截止时间
+   */
+  private coalesce<T>(key: string, deadline: Deadline | undefined, load: (step: Deadline) => Promise<T>): Promise<T> {
+    return waitWithin(deadline, () => cacheService.coalesce(key, async () => {
+      const step = new Deadline(config.REQUEST_DEADLINE_MAX);
+      try {
+        return await load(step);
+      } finally {
+        step.dispose();
       }
-    } else if (sources && !Array.isArray(sources)) {
+    }));
+  }
+
+  /**
+   * 调用解灰模块匹配，取消信号触发时中止匹配发出的上游请求
+   * @param id 歌曲ID
+   * @param sources 音源列表
+   * @param signal 取消信号
+   */
+  private runMatch(id: string, sources: SourceType[], signal: AbortSignal): Promise<any> {
+    const match = credentialService.prepareMatch();
+    return runCancellableMatch(signal, () => match(id, sources));
+  }
+
+  /**
+   * 校验匹配请求参数并过滤禁用的音源
+   * @param id 歌曲ID
+   * @param sources 音源列表
+   * @returns 净化后的ID和启用的音源列表
+   */
+  private validateMatchRequest(id: string | number, sources: SourceType[]) {
+    // 解灰按网易云歌曲匹配其他音源，只接受网易云ID
+    const track = parseTrackId(id);
+    if (track.source !== DEFAULT_TRACK_SOURCE) {
+      throw ApiError.validation(`匹配仅支持网易云歌曲ID，不支持: ${track.canonical}`);
+    }
+    const sanitizedId = track.id;
+
+    // 验证音源列表
+    if (sources && !Array.isArray(sources)) {
       throw ApiError.validation('音源参数格式不正确，应为数组');
     }
 
-    // 过滤禁用的音源
-    const enabledSources = sources.filter(source => {
-      switch (source as string) {
-        case 'netease': return config.ENABLE_NETEASE;
-        case 'tencent': return config.ENABLE_TENCENT;
-        case 'kugou': return config.ENABLE_KUGOU;
-        case 'kuwo': return config.ENABLE_KUWO;
-        case 'bilibili': return config.ENABLE_BILIBILI;
-        default: return true;
-      }
+    // 检查每个音源是否支持匹配，别名（如 tencent）统一为音源代码
+    const invalidSources = sources.filter(source => {
+      const code = findSource(source);
+      return !code || !supportsOperation(code, 'match');
     });
+    if (invalidSources.length > 0) {
+      throw ApiError.validation(`无效的音源: ${invalidSources.join(', ')}`);
+    }
+    const matchSources = [...new Set(sources.map(source => findSource(source) as SourceType))];
+
+    // 过滤禁用的音源
+    const enabledSources = matchSources.filter(source => isSourceEnabled(source));
 
     if (enabledSources.length === 0) {
       throw ApiError.validation('没有启用的有效音源');
     }
 
+    return { sanitizedId, enabledSources };
+  }
+
+  /**
+   * 校验通过音乐API访问的音乐源
+   * @param source 音乐源，支持别名（如 qq、youtube）
+   * @param operation 要执行的操作
+   * @returns 音乐API使用的名称
+   */
+  private resolveCatalogSource(source: string, operation: SourceOperation): string {
+    const code = findSource(source);
+    if (!code || !supportsOperation(code, operation)) {
+      const supported = getSourcesFor(operation).map(item => getCatalogCode(item));
+      throw ApiError.validation(`不支持的音乐源: ${String(source).trim().toLowerCase()}，支持的值: ${supported.join(', ')}`);
+    }
+    if (!isSourceEnabled(code)) {
+      throw ApiError.validation(`音乐源 ${getCatalogCode(code)} 已禁用`);
+    }
+    return getCatalogCode(code);
+  }
+
+  /**
+   * 匹配歌曲
+   * 匹配结果是试听片段或时长与原曲不符时不采用，使用其余音源的结果
+   * @param id 歌曲ID
+   * @param sources 音源列表
+   * @param deadline 请求截止时间
+   * @param referenceDuration 原曲时长(毫秒)，调用方已知时（如歌单曲目）不再查询曲目详情
+   * @returns 匹配结果
+   */
+  async matchSong(id: string | number, sources: SourceType[] = DEFAULT_SOURCES, deadline?: Deadline, referenceDuration?: number) {
+    const { sanitizedId, enabledSources } = this.validateMatchRequest(id, sources);
+
     // 构建缓存键
     const cacheKey = `match:${sanitizedId}:${enabledSources.join(',')}`;
 
@@ -86,117 +275,321 @@ export class MusicService {
       };
     }
 
-    console.log(`开始匹配: ${sanitizedId} - ${enabledSources}`);
+    // 合并相同缓存键的并发请求，只向上游发起一次
+    return this.coalesce(cacheKey, deadline, async step => {
+      // 跳过熔断中的音源，避免等待已知故障的音源超时
+      const availableSources = enabledSources.filter(source => circuitBreakerService.isAvailable('match', source));
+      if (availableSources.length === 0) {
+        throw ApiError.unavailable('所有音源暂时不可用，请稍后再试', {
+          id: sanitizedId,
+          sources: enabledSources
+        });
+      }
 
-    try {
-      // 设置请求超时
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error('匹配请求超时')), config.REQUEST_TIMEOUT || 15000);
-      });
+      console.log(`开始匹配: ${sanitizedId} - ${availableSources}`);
 
-      // 请求匹配结果
-      const matchPromise = match(sanitizedId, enabledSources);
+      // 匹配、原曲时长和链接探测共用时间预算，到期时中止解灰模块的上游请求
+      try {
+        // 原曲时长与匹配并行获取，用于识别试听片段
+        const referencePromise = !config.MATCH_DURATION_CHECK ? Promise.resolve(undefined)
+          : referenceDuration ? Promise.resolve(Math.round(referenceDuration / 1000))
+            : this.getReferenceDuration(sanitizedId, step);
 
-      // 使用Promise.race进行超时控制
-      const data = await Promise.race([
-        matchPromise,
-        timeoutPromise
-      ]) as any;
+        const { data, rejected } = await this.matchSources(sanitizedId, availableSources, step, referencePromise);
 
-      // 验证结果
-      if (!data) {
-        throw new Error('未获取到匹配结果');
-      }
+        if (rejected.length > 0) {
+          data.rejected = rejected;
+        }
+        const expiresAt = getUrlExpiry(data.url, data.source);
+        data.expiresAt = formatExpiry(expiresAt);
 
-      // 将结果存入缓存
-      await cacheService.set(cacheKey, data, {
-        ttl: 3600, // 默认1小时
-        priority: CachePriority.NORMAL
-      });
+        // 将结果存入缓存，不超过链接本身的有效期
+        await cacheService.set(cacheKey, data, {
+          ttl: 3600, // 默认1小时
+          priority: CachePriority.NORMAL,
+          expiresAt
+        });
 
-      // 处理代理URL
-      if (data.url) {
-        // 验证URL格式
-        try {
-          new URL(data.url);
-          const proxyUrl = generateProxyUrl(data.url);
-          if (proxyUrl) {
-            data.proxyUrl = proxyUrl;
+        // 处理代理URL
+        if (data.url) {
+          // 验证URL格式
+          try {
+            new URL(data.url);
+            const proxyUrl = generateProxyUrl(data.url);
+            if (proxyUrl) {
+              data.proxyUrl = proxyUrl;
+            }
+          } catch (urlError) {
+            console.warn('无效的音乐URL:', data.url);
+            // 不设置proxyUrl，但不抛出异常阻断整个流程
           }
-        } catch (urlError) {
-          console.warn('无效的音乐URL:', data.url);
-          // 不设置proxyUrl，但不抛出异常阻断整个流程
         }
-      }
 
-      return { data, cached: false };
-    } catch (error) {
-      console.error('匹配出错:', error);
+        return { data, cached: false };
+      } catch (error) {
+        console.error('匹配出错:', error);
 
-      // 细分错误类型
-      if (error instanceof Error) {
-        if (error.message.includes('timeout') || error.message.includes('超时')) {
+        if (error instanceof ApiError) {
+          throw error;
+        }
+
+        // 细分错误类型
+        if (step.expired || (error instanceof Error && (error.message.includes('timeout') || error.message.includes('超时')))) {
           throw ApiError.timeout('音乐匹配服务请求超时', {
             id: sanitizedId,
             sources: enabledSources
           });
         }
-      }
 
-      throw ApiError.api('音乐匹配服务暂时不可用', {
-        originalError: error instanceof Error ? error.message : String(error),
-        id: sanitizedId,
-        sources: enabledSources
-      });
-    }
+        throw ApiError.api('音乐匹配服务暂时不可用', {
+          originalError: error instanceof Error ? error.message : String(error),
+          id: sanitizedId,
+          sources: enabledSources
+        });
+      }
+    });
   }
 
   /**
-   * 从第三方API获取直链
+   * 逐个音源通过熔断器和重试调用解灰模块，每个音源的结果分别计入熔断和音源排名
+   * 与解灰模块选择结果的方式一致：设置 SELECT_MAX_BR 时取音质最高的结果，设置 FOLLOW_SOURCE_ORDER 时按顺序逐个尝试，
+   * 否则取最先得到的结果；试听片段或时长与原曲不符的结果不采用
    * @param id 歌曲ID
-   * @param br 比特率，支持128、192、320、740、999
-   * @param source 音乐源，默认不指定(由API决定)
-   * @returns 歌曲链接
+   * @param sources 音源列表
+   * @param step 匹配的截止时间
+   * @param referencePromise 原曲时长(秒)，未知时不校验时长
+   * @returns 采用的匹配结果和被拒绝的结果
    */
-  async getDirectLink(id: string, br: string = '320', source?: string) {
-    // 验证参数
-    if (!id) {
-      throw ApiError.validation('缺少必要参数 id');
+  private async matchSources(id: string, sources: SourceType[], step: Deadline, referencePromise: Promise<number | undefined>) {
+    const rejected: Array<{ source: string; reason: string }> = [];
+    // 已经得到结果时取消其余音源的请求，取消不计入熔断
+    const race = step.child();
+
+    const attempt = async (source: SourceType): Promise<Record<string, any>> => {
+      const result = await this.callUpstream('match', source, race, signal => this.runMatch(id, [source], signal));
+
+      // 验证结果
+      if (!result) {
+        throw new Error('未获取到匹配结果');
+      }
+      const parsed = parseUpstream('match', source, matchResultSchema, result);
+      const candidate: Record<string, any> = { ...parsed, source: parsed.source || source };
+      if (!config.MATCH_DURATION_CHECK) {
+        return candidate;
+      }
+
+      const check = await this.checkMatchedDuration(candidate, await referencePromise, race.signal);
+      if (check.ok) {
+        return { ...candidate, ...(check.estimated && { estimatedDuration: check.estimated }) };
+      }
+
+      console.warn(`拒绝匹配结果: ${id} - ${source} (${check.reason})`);
+      rejected.push({ source, reason: check.reason! });
+      sourceRankingService.recordRejection(source, check.rejection!, check.reason);
+      throw new Error(check.reason);
+    };
+
+    try {
+      return { data: await selectMatch(sources, attempt), rejected };
+    } catch (error) {
+      if (rejected.length === sources.length) {
+        throw ApiError.notFound('未找到完整的音源，匹配结果均为试听片段或与原曲时长不符', { id, rejected });
+      }
+      throw error;
+    } finally {
+      race.cancel();
     }
+  }
 
-    // ID输入验证 - 确保是数字或可转为数字的字符串
-    const sanitizedId = String(id).trim();
-    if (!/^\d+$/.test(sanitizedId)) {
-      throw ApiError.validation('无效的ID参数，应为数字');
+  /**
+   * 获取网易云原曲时长(秒)，未知时返回undefined
+   */
+  private async getReferenceDuration(id: string, deadline?: Deadline): Promise<number | undefined> {
+    // 与匹配并行获取，先于匹配结束时也不能出现未处理的拒绝
+    const info = await this.getSongInfo(id, 'netease', deadline).catch(() => null);
+    return info?.duration ? Math.round(info.duration / 1000) : undefined;
+  }
+
+  /**
+   * 校验匹配结果的时长
+   * 优先使用上游给出的大小和比特率估算，缺少大小时用范围请求读取文件大小
+   */
+  private async checkMatchedDuration(data: Record<string, any>, reference: number | undefined, signal?: AbortSignal): Promise<DurationCheck> {
+    if (!reference || !data.br) {
+      return { ok: true, reference };
     }
 
-    // 限制ID长度防止异常情况
-    if (sanitizedId.length > 20) {
-      throw ApiError.validation('ID参数长度超出限制');
+    let size = Number(data.size) || undefined;
+    if (!size) {
+      const probe = await linkProbeService.probe(data.url, signal);
+      size = probe.ok ? probe.contentLength : undefined;
     }
 
-    // 验证 br 参数有效性并净化
-    const validBR = ["128", "192", "320", "740", "999"];
-    const sanitizedBr = String(br).trim();
-    if (!validBR.includes(sanitizedBr)) {
-      throw ApiError.validation(`无效音质参数，支持的值: ${validBR.join(', ')}`);
+    return checkMatchDuration(estimateDuration(size, Number(data.br)), reference, Number(data.br), config.MATCH_DURATION_TOLERANCE);
+  }
+
+  /**
+   * 并行查询每个音源，返回逐个音源的匹配结果并选出音质最佳的一个
+   * @param id 歌曲ID
+   * @param sources 音源列表
+   * @param deadline 请求截止时间
+   * @returns 各音源结果及最佳结果
+   */
+  async matchAllSources(id: string | number, sources: SourceType[] = DEFAULT_SOURCES, deadline?: Deadline) {
+    const { sanitizedId, enabledSources } = this.validateMatchRequest(id, sources);
+
+    // 构建缓存键
+    const cacheKey = `matchall:${sanitizedId}:${enabledSources.join(',')}`;
+
+    // 尝试从缓存获取
+    const cachedResult = await cacheService.get(cacheKey);
+    if (cachedResult) {
+      console.log(`从缓存获取全音源匹配结果: ${sanitizedId}`);
+      return {
+        data: cachedResult,
+        cached: true
+      };
     }
 
-    // 净化音乐源参数
-    let sourceParam = '';
-    if (source) {
-      sourceParam = String(source).trim().toLowerCase();
-      // 验证音乐源是否合法
-      const validSources = ['netease', 'tencent', 'tidal', 'spotify', 'ytmusic', 'qobuz', 'joox', 'deezer', 'migu', 'kugou', 'kuwo', 'ximalaya'];
-      if (!validSources.includes(sourceParam)) {
-        console.warn(`不支持的音乐源: ${sourceParam}，将使用默认音乐源`);
-        sourceParam = '';
+    // 合并相同缓存键的并发请求，只向上游发起一次
+    return this.coalesce(cacheKey, deadline, async step => {
+      console.log(`开始全音源匹配: ${sanitizedId} - ${enabledSources}`);
+
+      // 每个音源独立请求，单个音源失败不影响其他音源
+      const results: SourceResult[] = await Promise.all(
+        enabledSources.map(source => this.matchSingleSource(sanitizedId, source, step))
+      );
+
+      // 在可用结果中选出音质最佳的音源
+      const best = qualityAssessmentService.selectBestQuality(
+        results
+          .filter(result => result.available && result.data)
+          .map(result => ({ source: result.source, data: result.data as SongInfo }))
+      );
+
+      const responseData = {
+        id: sanitizedId,
+        best,
+        results
+      };
+
+      // 至少有一个音源可用时才缓存，避免缓存临时故障；以最早过期的链接为准
+      if (best) {
+        const expiries = results
+          .map(result => result.data?.expiresAt ? Date.parse(result.data.expiresAt) : null)
+          .filter((time): time is number => time !== null);
+        await cacheService.set(cacheKey, responseData, {
+          ttl: 3600, // 默认1小时
+          priority: CachePriority.NORMAL,
+          expiresAt: expiries.length > 0 ? Math.min(...expiries) : null
+        });
       }
+
+      return { data: responseData, cached: false };
+    });
+  }
+
+  /**
+   * 使用单个音源匹配歌曲
+   * @param id 歌曲ID
+   * @param source 音源
+   * @param step 全音源匹配的截止时间
+   * @returns 该音源的匹配结果
+   */
+  private async matchSingleSource(id: string, source: SourceType, step: Deadline): Promise<SourceResult> {
+    const startTime = Date.now();
+
+    try {
+      // 熔断器同时负责记录音源排名
+      const data = await this.callUpstream('match', source, step, async signal => {
+        const result = await this.runMatch(id, [source], signal);
+
+        if (!result) {
+          throw new Error('未获取到匹配结果');
+        }
+
+        const matched = parseUpstream('match', source, matchResultSchema, result);
+        if (!matched.url) {
+          throw new Error('未获取到匹配结果');
+        }
+
+        return matched;
+      });
+
+      return {
+        source,
+        available: true,
+        data: {
+          id,
+          name: '',
+          artist: '',
+          url: data.url,
+          // 解灰模块返回的比特率单位为bps，这里统一为kbps
+          br: data.br ? Math.round(data.br / 1000) : undefined,
+          size: data.size || undefined,
+          md5: data.md5 || undefined,
+          format: getAudioFormat(data.url),
+          source,
+          expiresAt: formatExpiry(getUrlExpiry(data.url, source))
+        },
+        responseTime: Date.now() - startTime
+      };
+    } catch (error) {
+      return {
+        source,
+        available: false,
+        error: step.expired || isTimeoutError(error) ? '匹配请求超时' : error instanceof Error ? error.message : String(error || '匹配失败'),
+        responseTime: Date.now() - startTime
+      };
     }
+  }
+
+  /**
+   * 校验并净化直链请求参数
+   * @param id 歌曲ID
+   * @param br 音质上限
+   * @param source 音乐源
+   * @returns 净化后的参数和直链缓存键
+   */
+  private normalizeDirectLinkParams(id: string, br?: string, source?: string) {
+    // 不支持的 source 参数沿用旧行为，改用默认音乐源
+    const paramSource = source ? normalizeTrackSource(source) : null;
+    if (source && !paramSource) {
+      console.warn(`不支持的音乐源: ${source}，将使用默认音乐源`);
+    }
+
+    // 按音乐源校验ID，支持 source:id 格式
+    const track = parseTrackId(id, paramSource);
+    assertTrackOperation(track, 'url');
+    const sanitizedId = track.id;
+
+    // 验证 br 参数有效性，并按配置得出音质上限
+    if (br !== undefined && br !== '' && !isValidBitrate(br)) {
+      throw ApiError.validation(`无效音质参数，支持的值: ${[...BITRATE_LADDER].reverse().join(', ')}`);
+    }
+    const sanitizedBr = String(getBitrateCeiling(br));
+
+    // 未指明音乐源时由上游API决定
+    const sourceParam = track.explicit ? track.source : '';
 
     // 构建缓存键
     const cacheKey = `ncmget:${sanitizedId}:${sanitizedBr}:${sourceParam}`;
 
+    return { track, sanitizedId, sanitizedBr, sourceParam, cacheKey };
+  }
+
+  /**
+   * 从第三方API获取直链
+   * 以请求的音质为上限，从高到低依次尝试 999、740、320、192、128，直到上游返回可用链接
+   * @param id 歌曲ID
+   * @param br 音质上限，支持128、192、320、740、999，不传时由 SELECT_MAX_BR 决定
+   * @param source 音乐源，默认不指定(由API决定)
+   * @param deadline 请求截止时间
+   * @returns 歌曲链接，包含请求的音质、实际音质和音质等级
+   */
+  async getDirectLink(id: string, br?: string, source?: string, deadline?: Deadline) {
+    const { track, sanitizedId, sanitizedBr, sourceParam, cacheKey } = this.normalizeDirectLinkParams(id, br, source);
+
     // 尝试从缓存获取
     const cachedResult = await cacheService.get(cacheKey);
     if (cachedResult) {
@@ -207,123 +600,329 @@ export class MusicService {
       };
     }
 
-    // 检查音乐API是否启用
-    if (!config.ENABLE_MUSIC_API || !config.MUSIC_API_URL) {
-      throw ApiError.api('音乐API服务未启用', { service: 'MUSIC_API' });
-    }
+    // 合并相同缓存键的并发请求，只向上游发起一次
+    return this.coalesce(cacheKey, deadline, async step => {
+      const provider = this.getProvider('url');
 
-    try {
-      // 设置请求超时控制
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), config.REQUEST_TIMEOUT || 15000);
-
-      // 构造 API 请求
-      const apiUrl = new URL(config.MUSIC_API_URL);
-      apiUrl.searchParams.append("types", "url");
-      apiUrl.searchParams.append("id", sanitizedId);
-      apiUrl.searchParams.append("br", sanitizedBr);
-
-      // 如果指定了音乐源，添加到请求参数
-      if (sourceParam) {
-        apiUrl.searchParams.append("source", sourceParam);
-      }
+      // 歌曲元数据与播放链接并行获取，获取失败不影响播放链接
+      const songInfoPromise = this.getSongInfo(sanitizedId, sourceParam || 'netease', step).catch(() => null);
 
-      let response;
+      // 各档位依次使用剩余时间
       try {
-        response = await fetch(apiUrl.toString(), {
-          signal: controller.signal,
-          headers: {
-            'User-Agent': config.USER_AGENT || 'UNM-Server/2.0.0',
-            'Accept': 'application/json',
-            'Referer': 'https://music.gdstudio.xyz/' // 添加引用来源
+        let result;
+        let deliveredTier = Number(sanitizedBr);
+        let lastError: unknown;
+        try {
+          // 按音质梯度依次尝试，上游无法提供当前档位时降一档
+          for (const tier of getBitrateLadder(Number(sanitizedBr))) {
+            try {
+              // 如果未指定音乐源，由上游API决定
+              const tierResult = await this.callUpstream('url', sourceParam || undefined, step, signal => provider.getUrl({
+                id: sanitizedId,
+                br: String(tier),
+                source: sourceParam || undefined
+              }, { signal }));
+
+              if (tierResult && tierResult.url) {
+                result = tierResult;
+                deliveredTier = tier;
+                break;
+              }
+              lastError = ApiError.api('无法获取音乐链接', { response: tierResult, br: tier });
+            } catch (tierError) {
+              // 超时、熔断和数据结构异常说明上游整体不可用，不再继续降档
+              if (step.expired || isTimeoutError(tierError) ||
+                (tierError instanceof ApiError &&
+                  (tierError.type === ErrorType.UNAVAILABLE || tierError.type === ErrorType.UPSTREAM_SCHEMA))) {
+                throw tierError;
+              }
+              lastError = tierError;
+            }
           }
-        });
+        } catch (fetchError) {
+          // 处理fetch异常
+          if (step.expired ||
+            (fetchError && typeof fetchError === 'object' && 'name' in fetchError && fetchError.name === 'AbortError')) {
+            throw ApiError.timeout('音乐API请求超时');
+          }
+          throw fetchError;
+        }
 
-        // 清除超时定时器
-        clearTimeout(timeoutId);
+        // 所有档位都没有可用链接
+        if (!result || !result.url) {
+          throw lastError || ApiError.api('无法获取音乐链接', { response: result });
+        }
 
-        if (!response.ok) {
-          throw ApiError.api(`API 响应状态: ${response.status}`, {
-            statusCode: response.status,
-            statusText: response.statusText
-          });
+        // 验证URL合法性
+        let musicUrl;
+        try {
+          musicUrl = new URL(result.url);
+        } catch (urlError) {
+          throw ApiError.api('返回的音乐URL无效', { url: result.url });
         }
-      } catch (fetchError) {
-        clearTimeout(timeoutId);
 
-        // 处理fetch异常
-        if (fetchError && typeof fetchError === 'object' && 'name' in fetchError && fetchError.name === 'AbortError') {
-          throw ApiError.timeout('音乐API请求超时');
+        // 构造返回数据，合并歌曲元数据
+        const songInfo = await songInfoPromise;
+        const deliveredBr = normalizeBitrate(result.br) || deliveredTier;
+        // 元数据按请求的曲目获取（未指定音乐源时为网易云），音乐源以实际提供链接的上游为准，未知时为null
+        const resolvedSource = (result.source && normalizeTrackSource(result.source)) || sourceParam || null;
+        // 链接的有效期按实际提供链接的音乐源的规则解析
+        const expiresAt = getUrlExpiry(result.url, resolvedSource);
+        const responseData = {
+          ...songInfo,
+          id: sanitizedId,
+          trackId: track.canonical,
+          source: resolvedSource,
+          br: deliveredBr,
+          requestedBr: Number(sanitizedBr),
+          quality: getQualityLevel(deliveredBr, result.level),
+          url: result.url,
+          size: result.size || null,
+          md5: result.md5 || null,
+          type: result.type || null,
+          level: result.level || null,
+          expiresAt: formatExpiry(expiresAt) || null,
+        };
+
+        // 保存到缓存，带时效签名的链接在过期前失效
+        await cacheService.set(
+          cacheKey,
+          responseData,
+          {
+            ttl: 86400, // 默认1天
+            priority: CachePriority.HIGH, // 使用高优先级
+            expiresAt
+          }
+        );
+
+        return { data: responseData, cached: false };
+      } catch (error) {
+        console.error('获取音乐链接出错:', error);
+
+        if (error instanceof ApiError) {
+          throw error; // 重新抛出已经格式化的API错误
         }
-        throw fetchError;
-      }
 
-      const contentType = response.headers.get('content-type');
-      if (!contentType || !contentType.includes('application/json')) {
-        throw ApiError.api('API返回的不是有效的JSON数据', {
-          contentType: contentType
+        throw ApiError.api('获取音乐链接失败', {
+          originalError: error instanceof Error ? error.message : String(error)
         });
       }
+    });
+  }
 
-      const result = await response.json();
-
-      // 验证返回的URL是否存在
-      if (!result || !result.url) {
-        throw ApiError.api('无法获取音乐链接', { response: result });
+  /**
+   * 检查歌曲是否真的可以播放
+   * 解析直链后探测链接本身；缓存中的链接已失效时移除缓存并重新解析一次
+   * @param id 歌曲ID
+   * @param br 音质上限
+   * @param source 音乐源
+   * @param deadline 请求截止时间
+   * @returns 可用状态、链接信息和探测结果
+   */
+  async checkAvailability(id: string, br?: string, source?: string, deadline?: Deadline) {
+    const { cacheKey } = this.normalizeDirectLinkParams(id, br, source);
+
+    let result = await this.getDirectLink(id, br, source, deadline);
+    let probe: LinkProbeResult = await linkProbeService.probe(result.data.url, deadline?.signal);
+    let reResolved = false;
+
+    if (!probe.ok) {
+      console.warn(`播放链接探测失败: ${cacheKey} (${probe.reason})`);
+      await cacheService.delete(cacheKey);
+
+      // 新解析的链接刚探测过，只对缓存中取出的旧链接重新解析
+      if (result.cached) {
+        reResolved = true;
+        result = await this.getDirectLink(id, br, source, deadline);
+        probe = await linkProbeService.probe(result.data.url, deadline?.signal);
+        if (!probe.ok) {
+          await cacheService.delete(cacheKey);
+        }
       }
+    }
 
-      // 验证URL合法性
-      let musicUrl;
-      try {
-        musicUrl = new URL(result.url);
-      } catch (urlError) {
-        throw ApiError.api('返回的音乐URL无效', { url: result.url });
-      }
+    return {
+      data: {
+        available: probe.ok,
+        id: result.data.id,
+        br: result.data.br,
+        source: result.data.source || source || null,
+        reResolved,
+        probe
+      },
+      cached: result.cached
+    };
+  }
 
-      // 构造返回数据
-      const responseData = {
-        id: sanitizedId,
-        br: result.br || sanitizedBr,
-        url: result.url,
-        size: result.size || null,
-        md5: result.md5 || null,
-        type: result.type || null,
-        level: result.level || null,
+  /**
+   * 按网络条件获取播放链接
+   * 音质上限取请求与网络策略中较低的一个；未指定音源且直链不可用时，
+   * 按 adjustSourcesForNetwork 排序的解灰音源匹配，再由 selectForNetworkCondition 选出结果
+   * @param id 歌曲ID
+   * @param br 音质上限
+   * @param source 音乐源
+   * @param policy 网络策略
+   * @param deadline 请求截止时间
+   * @returns 播放链接，network 字段说明采用的策略
+   */
+  async getDirectLinkForNetwork(id: string, br: string | undefined, source: string | undefined, policy: NetworkPolicy, deadline?: Deadline) {
+    // 未知网络不做调整
+    if (policy.type === 'unknown') {
+      const result = await this.getDirectLink(id, br, source, deadline);
+      return {
+        ...result,
+        data: { ...result.data, network: { ...policy, source: result.data.source || source || null, fallback: false } }
       };
+    }
 
-      // 保存到缓存
-      await cacheService.set(
-        cacheKey,
-        responseData,
-        {
-          ttl: 86400, // 默认1天
-          priority: CachePriority.HIGH // 使用高优先级
-        }
-      );
+    const { track } = this.normalizeDirectLinkParams(id, br, source);
+    const ceiling = Math.min(getBitrateCeiling(br), policy.maxBr);
 
-      return { data: responseData, cached: false };
+    const candidates: Array<{ source: string; data: SongInfo }> = [];
+    let cached = false;
+    let directError: unknown;
+
+    try {
+      const direct = await this.getDirectLink(id, String(ceiling), source, deadline);
+      cached = direct.cached;
+      candidates.push({
+        source: direct.data.source || track.source,
+        data: { ...direct.data, format: direct.data.type || getAudioFormat(direct.data.url) }
+      });
     } catch (error) {
-      console.error('获取音乐链接出错:', error);
+      // 参数错误无需回退
+      if (error instanceof ApiError && error.type === ErrorType.VALIDATION) {
+        throw error;
+      }
+      directError = error;
+    }
 
-      if (error instanceof ApiError) {
-        throw error; // 重新抛出已经格式化的API错误
+    // 网易云歌曲直链不可用时，按当前网络下的音源排序匹配
+    const fallback = candidates.length === 0 && track.source === DEFAULT_TRACK_SOURCE;
+    if (fallback) {
+      const rankedSources = sourceRankingService.adjustSourcesForNetwork(DEFAULT_SOURCES, policy.type) as SourceType[];
+      if (rankedSources.length > 0) {
+        const matched = await this.matchAllSources(track.id, rankedSources, deadline).catch(() => null);
+        for (const result of matched?.data.results || []) {
+          if (result.available && result.data) {
+            candidates.push({ source: result.source, data: result.data });
+          }
+        }
       }
+    }
 
-      throw ApiError.api('获取音乐链接失败', {
-        originalError: error instanceof Error ? error.message : String(error)
-      });
+    const selected = qualityAssessmentService.selectForNetworkCondition(candidates, policy.type);
+    if (!selected) {
+      throw directError || ApiError.api('无法获取音乐链接', { id, network: policy.type });
     }
+
+    const deliveredBr = normalizeBitrate(selected.data.br);
+
+    return {
+      data: {
+        ...selected.data,
+        requestedBr: ceiling,
+        ...(deliveredBr > 0 && { quality: getQualityLevel(deliveredBr, selected.data.level) }),
+        network: { ...policy, source: selected.source, fallback }
+      },
+      cached: cached && !fallback
+    };
+  }
+
+  /**
+   * 获取歌曲元数据（歌名、歌手、专辑、时长、封面等）
+   * 优先使用 song: 缓存（包括搜索结果写入的数据），未命中时通过曲库提供商查询详情
+   * @param id 歌曲ID
+   * @param source 音乐源，默认为netease
+   * @param deadline 请求截止时间
+   * @returns 歌曲信息，无法获取时返回null
+   */
+  async getSongInfo(id: string, source: string = 'netease', deadline?: Deadline): Promise<SongInfo | null> {
+    const cachedInfo = await songCacheService.getSongSourceInfo(id, source);
+    if (cachedInfo) {
+      return cachedInfo;
+    }
+
+    // 只有曲库提供商覆盖的音源才能按ID查询详情
+    const catalog = getCatalogProvider();
+    if (source !== catalog.source) {
+      return null;
+    }
+
+    return this.coalesce(`songinfo:${source}:${id}`, deadline, async step => {
+      try {
+        const [detail] = await this.callUpstream('songdetail', source, step, signal =>
+          catalog.getSongDetails([id], { signal }));
+        if (!detail) {
+          return null;
+        }
+
+        const songInfo = catalog.toSongInfo(detail);
+        await songCacheService.cacheSongSourceInfo(id, source, songInfo);
+        return songInfo;
+      } catch (error) {
+        console.warn(`获取歌曲信息失败: ${id}`, error instanceof Error ? error.message : error);
+        return null;
+      }
+    });
+  }
+
+  /**
+   * 批量解析歌曲链接
+   * 每首歌优先通过 getDirectLink 获取，失败时回退到 matchSong，
+   * 与单曲接口共用缓存键，批量和单曲请求可以互相预热
+   * @param items 待解析的歌曲列表
+   * @param deadline 请求截止时间，所有歌曲共用
+   * @returns 每首歌的解析结果，顺序与输入一致
+   */
+  async resolveSongBatch(items: BatchSongItem[], deadline?: Deadline): Promise<BatchSongResult[]> {
+    return mapWithConcurrency(items, config.BATCH_CONCURRENCY, async (item, index): Promise<BatchSongResult> => {
+      const id = String(item?.id ?? '').trim();
+
+      try {
+        try {
+          const result = await this.getDirectLink(id, item.br ? String(item.br) : undefined, item.source, deadline);
+          return { index, id, success: true, via: 'direct', cached: result.cached, data: result.data };
+        } catch (directError) {
+          // 参数错误无需回退
+          if (directError instanceof ApiError && directError.type === ErrorType.VALIDATION) {
+            throw directError;
+          }
+
+          const result = await this.matchSong(id, DEFAULT_SOURCES, deadline);
+          return { index, id, success: true, via: 'match', cached: result.cached, data: result.data };
+        }
+      } catch (error) {
+        const apiError = error instanceof ApiError
+          ? error
+          : ApiError.api(error instanceof Error ? error.message : String(error));
+
+        return {
+          index,
+          id,
+          success: false,
+          error: {
+            code: apiError.statusCode,
+            type: apiError.type,
+            message: apiError.message
+          }
+        };
+      }
+    });
   }
 
   /**
    * 通过歌曲名搜索获取音乐
+   * 对搜索结果逐一评分，取与搜索意图最接近的一首，而不是直接取第一条
    * @param name 歌曲名称
    * @param source 音乐源，默认为kuwo
-   * @param count 每页数量，默认为1
+   * @param count 每页数量，默认为1，实际至少向上游请求 SEARCH_CANDIDATE_COUNT 条候选
    * @param page 页码，默认为1
+   * @param hints 期望的歌手和时长(秒)，用于评分
+   * @param deadline 请求截止时间，搜索和获取链接依次使用剩余时间
    * @returns 歌曲链接
    */
-  async searchAndGetMusic(name: string, source: string = 'kuwo', count: number = 1, page: number = 1) {
+  async searchAndGetMusic(name: string, source: string = 'kuwo', count: number = 1, page: number = 1, hints: { artist?: string; duration?: number } = {}, deadline?: Deadline) {
     // 参数验证
     if (!name) {
       throw ApiError.validation('缺少必要参数 name');
@@ -341,18 +940,16 @@ export class MusicService {
     }
 
     // 验证音乐源是否合法
-    const sanitizedSource = String(source).trim().toLowerCase();
-    const validSources = ['netease', 'tencent', 'tidal', 'spotify', 'ytmusic', 'qobuz', 'joox', 'deezer', 'migu', 'kugou', 'kuwo', 'ximalaya'];
-    if (!validSources.includes(sanitizedSource)) {
-      throw ApiError.validation(`不支持的音乐源: ${sanitizedSource}，支持的值: ${validSources.join(', ')}`);
-    }
+    const sanitizedSource = this.resolveCatalogSource(source, 'search');
 
     // 验证count和page参数
     const sanitizedCount = Math.max(1, Math.min(50, Math.floor(Number(count) || 1)));
     const sanitizedPage = Math.max(1, Math.floor(Number(page) || 1));
+    const artist = hints.artist ? String(hints.artist).slice(0, 100).trim() : '';
+    const duration = Number(hints.duration) > 0 ? Math.round(Number(hints.duration)) : undefined;
 
     // 构建缓存键
-    const cacheKey = `otherget:${sanitizedName}:${sanitizedSource}:${sanitizedCount}:${sanitizedPage}`;
+    const cacheKey = `otherget:${sanitizedName}:${sanitizedSource}:${sanitizedCount}:${sanitizedPage}:${artist}:${duration ?? ''}`;
 
     // 尝试从缓存获取
     const cachedResult = await cacheService.get(cacheKey);
@@ -364,80 +961,40 @@ export class MusicService {
       };
     }
 
-    // 检查音乐API是否启用
-    if (!config.ENABLE_MUSIC_API || !config.MUSIC_API_URL) {
-      throw ApiError.api('音乐API服务未启用', { service: 'MUSIC_API' });
-    }
-
-    try {
-      // 设置请求超时控制
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 5000); // 5秒超时
+    // 合并相同缓存键的并发请求，只向上游发起一次
+    return this.coalesce(cacheKey, deadline, async step => {
+      const provider = this.getProvider('search');
 
       try {
-        // 构造搜索 API 请求
-        const apiUrl = new URL(config.MUSIC_API_URL);
-        apiUrl.searchParams.append("types", "search");
-        apiUrl.searchParams.append("source", sanitizedSource);
-        apiUrl.searchParams.append("name", sanitizedName);
-        apiUrl.searchParams.append("count", String(sanitizedCount));
-        apiUrl.searchParams.append("pages", String(sanitizedPage));
-
-        const response = await fetch(apiUrl.toString(), {
-          signal: controller.signal,
-          headers: {
-            'User-Agent': 'UNM-Server/2.0.0',
-            'Accept': 'application/json',
-            'Referer': 'https://music.gdstudio.xyz/' // 添加引用来源
-          }
-        });
-
-        if (!response.ok) {
-          throw ApiError.api(`搜索API返回错误: ${response.status}`, {
-            statusCode: response.status,
-            statusText: response.statusText
-          });
-        }
-
-        const searchResult = await response.json();
+        // 搜索最多使用 SEARCH_TIMEOUT，获取链接使用剩余的时间
+        const searchResult = await this.callUpstream('search', sanitizedSource, step, signal => provider.search({
+          keyword: sanitizedName,
+          source: sanitizedSource,
+          count: Math.max(sanitizedCount, SEARCH_CANDIDATE_COUNT),
+          page: sanitizedPage
+        }, { signal }), config.SEARCH_TIMEOUT);
 
         // 验证搜索结果
         if (!searchResult || !searchResult.songs || !Array.isArray(searchResult.songs) || searchResult.songs.length === 0) {
           throw ApiError.api('未找到相关歌曲', { keyword: sanitizedName });
         }
 
-        // 获取第一首歌曲的信息
-        const firstSong = searchResult.songs[0];
-        if (!firstSong || !firstSong.musicId) {
-          throw ApiError.api('歌曲信息不完整', { firstSong });
+        // 按歌名、歌手、时长为候选评分，取得分最高的一首，部分上游以 id 代替 musicId
+        const ranked = rankCandidates({ title: sanitizedName, artist, duration }, searchResult.songs);
+        const best = ranked[0];
+        const musicId = best.song.musicId || best.song.id;
+        if (!musicId) {
+          throw ApiError.api('歌曲信息不完整', { song: best.song });
         }
 
         // 获取音乐直链
-        const musicId = firstSong.musicId;
-
-        // 再次构造API请求（获取音乐链接）
-        const musicApiUrl = new URL(config.MUSIC_API_URL);
-        musicApiUrl.searchParams.append("types", "url");
-        musicApiUrl.searchParams.append("id", musicId);
-        musicApiUrl.searchParams.append("source", sanitizedSource);
-
-        const musicResponse = await fetch(musicApiUrl.toString(), {
-          signal: controller.signal,
-          headers: {
-            'User-Agent': 'UNM-Server/2.0.0',
-            'Accept': 'application/json',
-            'Referer': 'https://music.gdstudio.xyz/' // 添加引用来源
-          }
-        });
 
-        if (!musicResponse.ok) {
-          throw ApiError.api(`获取音乐URL失败: ${musicResponse.status}`, {
-            statusCode: musicResponse.status,
-            statusText: musicResponse.statusText
-          });
-        }
-
-        const musicResult = await musicResponse.json();
+        // 再次请求上游（获取音乐链接）
+        const urlProvider = this.getProvider('url');
+        const musicResult = await this.callUpstream('url', sanitizedSource, step, signal => urlProvider.getUrl({
+          id: String(musicId),
+          source: sanitizedSource
+        }, { signal }));
 
         // 验证URL是否存在
         if (!musicResult || !musicResult.url) {
@@ -445,6 +1002,7 @@ export class MusicService {
         }
 
         // 构造返回数据
+        const expiresAt = getUrlExpiry(musicResult.url, sanitizedSource);
         const responseData = {
           name: sanitizedName,
           id: musicId,
@@ -453,116 +1011,205 @@ export class MusicService {
           size: musicResult.size,
           source: sanitizedSource,
           proxyUrl: generateProxyUrl(musicResult.url),
-          song: firstSong,
+          expiresAt: formatExpiry(expiresAt),
+          song: best.song,
+          score: best.score.score,
+          scoring: best.score,
+          candidates: ranked.slice(1, 1 + SEARCH_RUNNER_UP_COUNT).map(candidate => ({
+            id: candidate.song.musicId || candidate.song.id,
+            name: candidate.song.name,
+            artist: candidate.song.artist,
+            score: candidate.score.score,
+            penalties: candidate.score.penalties
+          })),
           allSongs: searchResult.songs
         };
 
         // 存储到缓存
         await cacheService.set(cacheKey, responseData, {
           ttl: 3600, // 默认1小时
-          priority: CachePriority.NORMAL
+          priority: CachePriority.NORMAL,
+          expiresAt
         });
 
         return { data: responseData, cached: false };
-      } finally {
-        clearTimeout(timeoutId);
-      }
-    } catch (error: any) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
+      } catch (error: any) {
+        if (error instanceof ApiError) {
+          throw error;
+        }
 
-      const isTimeout = error.name === 'AbortError';
-      const errorMessage = isTimeout ? '搜索请求超时' : '搜索请求失败';
+        const isTimeout = error.name === 'AbortError';
+        const errorMessage = isTimeout ? '搜索请求超时' : '搜索请求失败';
 
-      console.error('搜索失败:', error);
-      throw isTimeout ?
-        ApiError.timeout(errorMessage) :
-        ApiError.api(errorMessage, { originalError: error.message });
-    }
+        console.error('搜索失败:', error);
+        throw isTimeout ?
+          ApiError.timeout(errorMessage) :
+          ApiError.api(errorMessage, { originalError: error.message });
+      }
+    });
   }
 
   /**
-   * 获取歌词
-   * @param id 歌词ID
+   * 分页搜索歌曲，只返回标准化的歌曲列表，不解析播放链接
+   * @param keyword 搜索关键词
    * @param source 音乐源，默认为netease
-   * @returns 歌词内容
+   * @param page 页码，默认为1
+   * @param count 每页数量，默认为20
+   * @param deadline 请求截止时间
+   * @returns 搜索结果列表
    */
-  async getLyric(id: string, source: string = 'netease') {
-    // 验证参数
-    if (!id) {
-      throw ApiError.validation('缺少必要参数 id');
+  async search(keyword: string, source: string = 'netease', page: number = 1, count: number = 20, deadline?: Deadline) {
+    // 参数验证
+    if (!keyword) {
+      throw ApiError.validation('缺少必要参数 q');
+    }
+
+    // 输入净化和限制长度
+    const sanitizedKeyword = String(keyword).slice(0, 100).trim();
+    if (sanitizedKeyword.length < 2) {
+      throw ApiError.validation('搜索关键词太短，请输入至少2个字符');
     }
 
-    // ID输入验证 - 确保是数字或可转为数字的字符串
-    const sanitizedId = String(id).trim();
-    if (!/^\d+$/.test(sanitizedId)) {
-      throw ApiError.validation('无效的ID参数，应为数字');
+    // 进一步过滤特殊字符，防止注入
+    if (/[<>{}[\]\\\/]/.test(sanitizedKeyword)) {
+      throw ApiError.validation('搜索关键词包含无效字符');
     }
 
     // 验证音乐源是否合法
-    const sanitizedSource = String(source).trim().toLowerCase();
-    const validSources = ['netease', 'tencent', 'tidal', 'spotify', 'ytmusic', 'qobuz', 'joox', 'deezer', 'migu', 'kugou', 'kuwo', 'ximalaya'];
-    if (!validSources.includes(sanitizedSource)) {
-      throw ApiError.validation(`不支持的音乐源: ${sanitizedSource}，支持的值: ${validSources.join(', ')}`);
-    }
+    const sanitizedSource = this.resolveCatalogSource(source, 'search');
+
+    // 验证count和page参数
+    const sanitizedCount = Math.max(1, Math.min(50, Math.floor(Number(count) || 20)));
+    const sanitizedPage = Math.max(1, Math.floor(Number(page) || 1));
 
     // 构建缓存键
-    const cacheKey = `lyric:${sanitizedId}:${sanitizedSource}`;
+    const cacheKey = `search:${sanitizedKeyword}:${sanitizedSource}:${sanitizedCount}:${sanitizedPage}`;
 
     // 尝试从缓存获取
     const cachedResult = await cacheService.get(cacheKey);
     if (cachedResult) {
-      console.log(`从缓存获取歌词: ${sanitizedId}`);
+      console.log(`从缓存获取搜索列表: ${sanitizedKeyword}`);
       return {
         data: cachedResult,
         cached: true
       };
     }
 
-    // 检查音乐API是否启用
-    if (!config.ENABLE_MUSIC_API || !config.MUSIC_API_URL) {
-      throw ApiError.api('音乐API服务未启用', { service: 'MUSIC_API' });
-    }
-
-    try {
-      // 设置请求超时控制
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 5000); // 5秒超时
+    // 合并相同缓存键的并发请求，只向上游发起一次
+    return this.coalesce(cacheKey, deadline, async step => {
+      const provider = this.getProvider('search');
 
       try {
-        // 构造 API 请求
-        const apiUrl = new URL(config.MUSIC_API_URL);
-        apiUrl.searchParams.append("types", "lyric");
-        apiUrl.searchParams.append("id", sanitizedId);
-        apiUrl.searchParams.append("source", sanitizedSource);
-
-        const response = await fetch(apiUrl.toString(), {
-          signal: controller.signal,
-          headers: {
-            'User-Agent': 'UNM-Server/2.0.0',
-            'Accept': 'application/json',
-            'Referer': 'https://music.gdstudio.xyz/' // 添加引用来源
+        // 搜索请求最多使用 SEARCH_TIMEOUT
+        const searchResult = await this.callUpstream('search', sanitizedSource, step, signal => provider.search({
+          keyword: sanitizedKeyword,
+          source: sanitizedSource,
+          count: sanitizedCount,
+          page: sanitizedPage
+        }, { signal }), config.SEARCH_TIMEOUT);
+
+        const rawSongs = searchResult && Array.isArray(searchResult.songs) ? searchResult.songs : [];
+
+        // 转换为统一的歌曲信息，丢弃缺少ID的条目
+        const songs = rawSongs
+          .map(song => provider.toSongInfo(song, sanitizedSource))
+          .filter(song => song.id);
+
+        // 记录搜索得到的元数据，之后 /song 请求同一首歌时可直接使用；
+        // 曲库提供商覆盖的音源可查询更完整的详情，无需记录
+        const catalogSource = getCatalogProvider().source;
+        await Promise.all(songs.map(async song => {
+          const songSource = song.source || sanitizedSource;
+          if (songSource !== catalogSource && !(await songCacheService.hasSongSourceInfo(song.id, songSource))) {
+            await songCacheService.cacheSongSourceInfo(song.id, songSource, song);
           }
+        }));
+
+        // 上游未返回总数时无法得知确切数量，按本页是否已满推断是否还有更多
+        const total = typeof searchResult?.total === 'number' ? searchResult.total : null;
+        const hasMore = total !== null
+          ? sanitizedPage * sanitizedCount < total
+          : rawSongs.length >= sanitizedCount;
+
+        // 构造返回数据
+        const responseData = {
+          keyword: sanitizedKeyword,
+          source: sanitizedSource,
+          page: sanitizedPage,
+          count: sanitizedCount,
+          total,
+          hasMore,
+          songs
+        };
+
+        // 存储到缓存
+        await cacheService.set(cacheKey, responseData, {
+          ttl: 3600, // 默认1小时
+          priority: CachePriority.NORMAL
         });
 
-        if (!response.ok) {
-          throw ApiError.api(`API 响应状态: ${response.status}`, {
-            statusCode: response.status,
-            statusText: response.statusText
-          });
+        return { data: responseData, cached: false };
+      } catch (error: any) {
+        if (error instanceof ApiError) {
+          throw error;
         }
 
-        const result = await response.json();
+        const isTimeout = error.name === 'AbortError';
+        const errorMessage = isTimeout ? '搜索请求超时' : '搜索请求失败';
+
+        console.error('搜索歌曲列表失败:', error);
+        throw isTimeout ?
+          ApiError.timeout(errorMessage) :
+          ApiError.api(errorMessage, { originalError: error.message });
+      }
+    });
+  }
+
+  /**
+   * 获取歌词
+   * @param id 歌词ID
+   * @param source 音乐源，ID不带前缀时默认为netease
+   * @param deadline 请求截止时间
+   * @returns 歌词内容
+   */
+  async getLyric(id: string, source?: string, deadline?: Deadline) {
+    // 按音乐源校验ID，支持 source:id 格式
+    const track = parseTrackId(id, source);
+    assertTrackOperation(track, 'lyric');
+    const sanitizedId = track.id;
+    const sanitizedSource = track.source;
 
-        // 验证返回的歌词是否存在
-        if (!result || (!result.lyric && !result.tlyric)) {
+    // 构建缓存键
+    const cacheKey = `lyric:${sanitizedId}:${sanitizedSource}`;
+
+    // 尝试从缓存获取
+    const cachedResult = await cacheService.get(cacheKey);
+    if (cachedResult) {
+      console.log(`从缓存获取歌词: ${sanitizedId}`);
+      return {
+        data: cachedResult,
+        cached: true
+      };
+    }
+
+    // 合并相同缓存键的并发请求，只向上游发起一次
+    return this.coalesce(cacheKey, deadline, async step => {
+      const provider = this.getProvider('lyric');
+
+      try {
+        const result = await this.callUpstream('lyric', sanitizedSource, step, signal => provider.getLyric({
+          id: sanitizedId,
+          source: sanitizedSource
+        }, { signal }));
+
+        if (!result) {
           throw ApiError.api('无法获取歌词', { response: result });
         }
 
-        // 构造返回数据
+        // 构造返回数据，纯音乐等没有歌词的曲目返回空歌词
         const responseData = {
           id: sanitizedId,
+          trackId: track.canonical,
           source: sanitizedSource,
           lyric: result.lyric || '',
           tlyric: result.tlyric || ''
@@ -574,50 +1221,39 @@ export class MusicService {
         });
 
         return { data: responseData, cached: false };
-      } finally {
-        clearTimeout(timeoutId);
-      }
-    } catch (error: any) {
-      // 判断是否为超时错误
-      if (error instanceof ApiError) {
-        throw error; // 直接传递ApiError实例
-      }
+      } catch (error: any) {
+        // 判断是否为超时错误
+        if (error instanceof ApiError) {
+          throw error; // 直接传递ApiError实例
+        }
 
-      const isTimeout = error.name === 'AbortError';
-      const errorMessage = isTimeout ? 'API请求超时' : '服务器处理请求失败';
+        const isTimeout = error.name === 'AbortError';
+        const errorMessage = isTimeout ? 'API请求超时' : '服务器处理请求失败';
 
-      console.error('获取歌词失败:', error);
-      throw isTimeout ?
-        ApiError.timeout(errorMessage) :
-        ApiError.api(errorMessage, { originalError: error.message });
-    }
+        console.error('获取歌词失败:', error);
+        throw isTimeout ?
+          ApiError.timeout(errorMessage) :
+          ApiError.api(errorMessage, { originalError: error.message });
+      }
+    });
   }
 
   /**
    * 获取专辑图片
    * @param id 专辑图ID
-   * @param source 音乐源，默认为netease
-   * @param size 图片尺寸，300或500，默认为300
+   * @param source 音乐源，ID不带前缀时默认为netease
+   * @param size 图片尺寸，按最接近的上游尺寸(300或500)获取，默认为300
+   * @param deadline 请求截止时间
    * @returns 专辑图片URL
    */
-  async getAlbumPic(id: string, source: string = 'netease', size: number = 300) {
-    // 验证参数
-    if (!id) {
-      throw ApiError.validation('缺少必要参数 id');
-    }
-
-    // ID输入验证
-    const sanitizedId = String(id).trim();
+  async getAlbumPic(id: string, source?: string, size: number = 300, deadline?: Deadline) {
+    // 专辑图ID支持 source:id 格式
+    const picId = parseResourceId(id, source);
+    const sanitizedId = picId.id;
+    const sanitizedSource = picId.source;
 
-    // 验证音乐源是否合法
-    const sanitizedSource = String(source).trim().toLowerCase();
-    const validSources = ['netease', 'tencent', 'tidal', 'spotify', 'ytmusic', 'qobuz', 'joox', 'deezer', 'migu', 'kugou', 'kuwo', 'ximalaya'];
-    if (!validSources.includes(sanitizedSource)) {
-      throw ApiError.validation(`不支持的音乐源: ${sanitizedSource}，支持的值: ${validSources.join(', ')}`);
-    }
-
-    // 验证尺寸参数
-    const sanitizedSize = size === 500 ? 500 : 300;
+    // 任意尺寸映射到最接近的上游尺寸
+    const sanitizedSize = getNearestPicSize(size);
 
     // 构建缓存键
     const cacheKey = `pic:${sanitizedId}:${sanitizedSource}:${sanitizedSize}`;
@@ -632,41 +1268,16 @@ export class MusicService {
       };
     }
 
-    // 检查音乐API是否启用
-    if (!config.ENABLE_MUSIC_API || !config.MUSIC_API_URL) {
-      throw ApiError.api('音乐API服务未启用', { service: 'MUSIC_API' });
-    }
-
-    try {
-      // 设置请求超时控制
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 5000); // 5秒超时
+    // 合并相同缓存键的并发请求，只向上游发起一次
+    return this.coalesce(cacheKey, deadline, async step => {
+      const provider = this.getProvider('pic');
 
       try {
-        // 构造 API 请求
-        const apiUrl = new URL(config.MUSIC_API_URL);
-        apiUrl.searchParams.append("types", "pic");
-        apiUrl.searchParams.append("id", sanitizedId);
-        apiUrl.searchParams.append("source", sanitizedSource);
-        apiUrl.searchParams.append("size", String(sanitizedSize));
-
-        const response = await fetch(apiUrl.toString(), {
-          signal: controller.signal,
-          headers: {
-            'User-Agent': 'UNM-Server/2.0.0',
-            'Accept': 'application/json',
-            'Referer': 'https://music.gdstudio.xyz/' // 添加引用来源
-          }
-        });
-
-        if (!response.ok) {
-          throw ApiError.api(`API 响应状态: ${response.status}`, {
-            statusCode: response.status,
-            statusText: response.statusText
-          });
-        }
-
-        const result = await response.json();
+        const result = await this.callUpstream('pic', sanitizedSource, step, signal => provider.getPic({
+          id: sanitizedId,
+          source: sanitizedSource,
+          size: sanitizedSize
+        }, { signal }));
 
         // 验证返回的URL是否存在
         if (!result || !result.url) {
@@ -694,23 +1305,21 @@ export class MusicService {
         });
 
         return { data: responseData, cached: false };
-      } finally {
-        clearTimeout(timeoutId);
-      }
-    } catch (error: any) {
-      // 判断是否为超时错误
-      if (error instanceof ApiError) {
-        throw error; // 直接传递ApiError实例
-      }
+      } catch (error: any) {
+        // 判断是否为超时错误
+        if (error instanceof ApiError) {
+          throw error; // 直接传递ApiError实例
+        }
 
-      const isTimeout = error.name === 'AbortError';
-      const errorMessage = isTimeout ? 'API请求超时' : '服务器处理请求失败';
+        const isTimeout = error.name === 'AbortError';
+        const errorMessage = isTimeout ? 'API请求超时' : '服务器处理请求失败';
 
-      console.error('获取专辑图失败:', error);
-      throw isTimeout ?
-        ApiError.timeout(errorMessage) :
-        ApiError.api(errorMessage, { originalError: error.message });
-    }
+        console.error('获取专辑图失败:', error);
+        throw isTimeout ?
+          ApiError.timeout(errorMessage) :
+          ApiError.api(errorMessage, { originalError: error.message });
+      }
+    });
   }
 }
 
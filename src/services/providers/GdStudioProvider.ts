@@ -0,0 +1,205 @@
+import { ApiError } from '../../utils/errors';
+import { config } from '../../config/env';
+import { SongInfo } from '../../types';
+import {
+  MusicProvider,
+  MusicProviderFactory,
+  ProviderCapabilities,
+  ProviderLyricParams,
+  ProviderLyricResult,
+  ProviderPicParams,
+  ProviderPicResult,
+  ProviderRequestOptions,
+  ProviderSearchParams,
+  ProviderSearchResult,
+  ProviderUrlParams,
+  ProviderUrlResult
+} from './types';
+import {
+  lyricResultSchema,
+  parseUpstream,
+  picResultSchema,
+  searchResultSchema,
+  songListSchema,
+  urlResultSchema
+} from './schemas';
+
+/**
+ * GD Studio 音乐API适配器
+ *
+ * 部分API功能由GD Studio's Online Music Platform提供
+ * 免责声明：API仅用于学习目的，请勿用于商业用途
+ * 若使用该API请注明出处"GD音乐台(music.gdstudio.xyz)"
+ *
+ * API功能包括：
+ * 1. 搜索: types=search&source=[音乐源]&name=[关键词]&count=[每页数量]&pages=[页码]
+ * 2. 获取歌曲: types=url&source=[音乐源]&id=[曲目ID]&br=[音质]
+ * 3. 获取专辑图: types=pic&source=[音乐源]&id=[图片ID]&size=[尺寸]
+ * 4. 获取歌词: types=lyric&source=[音乐源]&id=[歌词ID]
+ *
+ * 支持的音乐源: netease、tencent、tidal、spotify、ytmusic、qobuz、joox、deezer、migu、kugou、kuwo、ximalaya
+ */
+export class GdStudioProvider implements MusicProvider {
+  readonly name = 'gdstudio';
+
+  readonly capabilities: ProviderCapabilities = {
+    search: true,
+    url: true,
+    lyric: true,
+    pic: true
+  };
+
+  // 默认请求标识
+  private static readonly DEFAULT_USER_AGENT = 'UNM-Server/2.0.0';
+
+  // GD Studio 要求的引用来源
+  private static readonly REFERER = 'https://music.gdstudio.xyz/';
+
+  constructor(private readonly apiUrl: URL) { }
+
+  /**
+   * 搜索歌曲
+   */
+  async search(params: ProviderSearchParams, options: ProviderRequestOptions = {}): Promise<ProviderSearchResult> {
+    const result = await this.request('search', {
+      source: params.source,
+      name: params.keyword,
+      count: String(params.count),
+      pages: String(params.page)
+    }, options);
+
+    // 搜索接口直接返回歌曲数组，统一包装为 { songs }
+    if (Array.isArray(result)) {
+      return { songs: parseUpstream('search', params.source, songListSchema, result) };
+    }
+    return parseUpstream('search', params.source, searchResultSchema, result);
+  }
+
+  /**
+   * 获取播放链接
+   */
+  async getUrl(params: ProviderUrlParams, options: ProviderRequestOptions = {}): Promise<ProviderUrlResult> {
+    const result = await this.request('url', {
+      id: params.id,
+      br: params.br,
+      source: params.source
+    }, {
+      ...options,
+      userAgent: config.USER_AGENT,
+      requireJson: true
+    });
+
+    return parseUpstream('url', params.source, urlResultSchema, result);
+  }
+
+  /**
+   * 获取歌词
+   */
+  async getLyric(params: ProviderLyricParams, options: ProviderRequestOptions = {}): Promise<ProviderLyricResult> {
+    const result = await this.request('lyric', {
+      id: params.id,
+      source: params.source
+    }, options);
+
+    return parseUpstream('lyric', params.source, lyricResultSchema, result);
+  }
+
+  /**
+   * 获取专辑图
+   */
+  async getPic(params: ProviderPicParams, options: ProviderRequestOptions = {}): Promise<ProviderPicResult> {
+    const result = await this.request('pic', {
+      id: params.id,
+      source: params.source,
+      size: String(params.size)
+    }, options);
+
+    return parseUpstream('pic', params.source, picResultSchema, result);
+  }
+
+  /**
+   * 将搜索结果中的单曲转换为 SongInfo
+   * @param song 上游单曲数据
+   * @param source 搜索时使用的音乐源
+   */
+  toSongInfo(song: any, source: string): SongInfo {
+    const artist = Array.isArray(song.artist)
+      ? song.artist.join(' / ')
+      : String(song.artist || '');
+    const album = song.album && typeof song.album === 'object'
+      ? song.album.name
+      : song.album;
+    const duration = Number(song.duration);
+
+    return {
+      id: String(song.id ?? song.musicId ?? ''),
+      name: String(song.name || ''),
+      artist,
+      album: album ? String(album) : undefined,
+      cover: typeof song.pic === 'string' && /^https?:\/\//.test(song.pic) ? song.pic : undefined,
+      duration: duration > 0 ? duration : undefined,
+      source: song.source || source,
+      picId: song.pic_id ? String(song.pic_id) : undefined,
+      lyricId: song.lyric_id ? String(song.lyric_id) : undefined
+    };
+  }
+
+  /**
+   * 向 GD Studio API 发起请求
+   * @param type 请求类型（types参数）
+   * @param params 其他查询参数，值为空时忽略
+   * @param options 请求选项
+   * @returns 解析后的JSON数据，结构由调用方校验
+   */
+  private async request(
+    type: string,
+    params: Record<string, string | undefined>,
+    options: ProviderRequestOptions & { userAgent?: string; requireJson?: boolean }
+  ): Promise<unknown> {
+    // 构造 API 请求
+    const apiUrl = new URL(this.apiUrl.toString());
+    apiUrl.searchParams.append('types', type);
+    for (const [key, value] of Object.entries(params)) {
+      if (value) {
+        apiUrl.searchParams.append(key, value);
+      }
+    }
+
+    const response = await fetch(apiUrl.toString(), {
+      signal: options.signal,
+      headers: {
+        'User-Agent': options.userAgent || GdStudioProvider.DEFAULT_USER_AGENT,
+        'Accept': 'application/json',
+        'Referer': GdStudioProvider.REFERER // 添加引用来源
+      }
+    });
+
+    if (!response.ok) {
+      throw ApiError.api(`API 响应状态: ${response.status}`, {
+        statusCode: response.status,
+        statusText: response.statusText
+      });
+    }
+
+    if (options.requireJson) {
+      const contentType = response.headers.get('content-type');
+      if (!contentType || !contentType.includes('application/json')) {
+        throw ApiError.api('API返回的不是有效的JSON数据', {
+          contentType: contentType
+        });
+      }
+    }
+
+    return await response.json();
+  }
+}
+
+/**
+ * GD Studio 提供商工厂
+ * 作为默认实现，接管所有 http(s) 形式的 MUSIC_API_URL
+ */
+export const gdStudioProviderFactory: MusicProviderFactory = {
+  name: 'gdstudio',
+  matches: (apiUrl: URL) => apiUrl.protocol === 'http:' || apiUrl.protocol === 'https:',
+  create: (apiUrl: URL) => new GdStudioProvider(apiUrl)
+};
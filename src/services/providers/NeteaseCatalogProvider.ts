@@ -0,0 +1,166 @@
+import crypto from 'crypto';
+import { ApiError } from '../../utils/errors';
+import { config } from '../../config/env';
+import { SongInfo } from '../../types';
+import { CatalogProvider, ProviderCollectionResult, ProviderRequestOptions } from './types';
+
+// 单次批量获取曲目详情的最大数量
+const SONG_DETAIL_BATCH_SIZE = 500;
+
+/**
+ * 网易云音乐曲库适配器
+ *
+ * 使用网易云公开的Web接口读取歌单和专辑：
+ * 1. 歌单详情: /api/v6/playlist/detail?id=[歌单ID]&n=[曲目数]
+ * 2. 专辑详情: /api/v1/album/[专辑ID]
+ * 3. 曲目详情: /api/v3/song/detail?c=[{"id":曲目ID}]
+ *
+ * 配置 NETEASE_COOKIE 后可读取私密歌单
+ */
+export class NeteaseCatalogProvider implements CatalogProvider {
+  readonly name = 'netease';
+
+  readonly source = 'netease';
+
+  constructor(private readonly baseUrl: string = 'https://music.163.com') { }
+
+  /**
+   * 获取歌单
+   */
+  async getPlaylist(id: string, options: ProviderRequestOptions = {}): Promise<ProviderCollectionResult> {
+    const result = await this.request(`/api/v6/playlist/detail?id=${encodeURIComponent(id)}&n=100000`, options);
+    const playlist = result.playlist;
+    if (!playlist) {
+      throw ApiError.notFound('歌单不存在或无权访问', { id });
+    }
+
+    const trackIds: string[] = Array.isArray(playlist.trackIds) && playlist.trackIds.length > 0
+      ? playlist.trackIds.map((track: any) => String(track.id))
+      : (playlist.tracks || []).map((track: any) => String(track.id));
+
+    return {
+      id: String(playlist.id),
+      name: String(playlist.name || ''),
+      cover: playlist.coverImgUrl || undefined,
+      description: playlist.description || undefined,
+      creator: playlist.creator?.nickname || undefined,
+      // 曲目增删时 trackUpdateTime 会变化，旧接口只有 updateTime
+      revision: String(playlist.trackUpdateTime || playlist.updateTime || this.hashIds(trackIds)),
+      trackIds,
+      tracks: playlist.tracks || []
+    };
+  }
+
+  /**
+   * 获取专辑
+   */
+  async getAlbum(id: string, options: ProviderRequestOptions = {}): Promise<ProviderCollectionResult> {
+    const result = await this.request(`/api/v1/album/${encodeURIComponent(id)}`, options);
+    const album = result.album;
+    if (!album) {
+      throw ApiError.notFound('专辑不存在', { id });
+    }
+
+    const songs: any[] = result.songs || album.songs || [];
+    const trackIds = songs.map(song => String(song.id));
+
+    return {
+      id: String(album.id),
+      name: String(album.name || ''),
+      cover: album.picUrl || undefined,
+      description: album.description || undefined,
+      creator: album.artist?.name || undefined,
+      // 专辑没有更新时间，以曲目列表的哈希作为版本
+      revision: this.hashIds(trackIds),
+      trackIds,
+      tracks: songs
+    };
+  }
+
+  /**
+   * 批量获取曲目详情
+   */
+  async getSongDetails(ids: string[], options: ProviderRequestOptions = {}): Promise<any[]> {
+    const songs: any[] = [];
+
+    for (let i = 0; i < ids.length; i += SONG_DETAIL_BATCH_SIZE) {
+      const batch = ids.slice(i, i + SONG_DETAIL_BATCH_SIZE).map(id => ({ id: Number(id) }));
+      const result = await this.request(`/api/v3/song/detail?c=${encodeURIComponent(JSON.stringify(batch))}`, options);
+      songs.push(...(result.songs || []));
+    }
+
+    return songs;
+  }
+
+  /**
+   * 将曲目详情转换为 SongInfo
+   * 兼容新接口的 ar/al/dt 和旧接口的 artists/album/duration 字段
+   */
+  toSongInfo(track: any): SongInfo {
+    const artists: any[] = track.ar || track.artists || [];
+    const album = track.al || track.album || {};
+    const duration = Number(track.dt ?? track.duration);
+
+    return {
+      id: String(track.id),
+      name: String(track.name || ''),
+      artist: artists.map(artist => artist.name).filter(Boolean).join(' / '),
+      album: album.name || undefined,
+      cover: album.picUrl || undefined,
+      duration: duration > 0 ? duration : undefined,
+      source: this.source,
+      picId: album.pic_str || (album.pic ? String(album.pic) : undefined),
+      lyricId: String(track.id)
+    };
+  }
+
+  /**
+   * 曲目ID列表的短哈希
+   */
+  private hashIds(ids: string[]): string {
+    return crypto.createHash('sha1').update(ids.join(',')).digest('hex').slice(0, 12);
+  }
+
+  /**
+   * 向网易云接口发起请求
+   * @param path 接口路径及查询参数
+   * @param options 请求选项
+   * @returns 解析后的JSON数据
+   */
+  private async request(path: string, options: ProviderRequestOptions): Promise<any> {
+    const headers: Record<string, string> = {
+      'User-Agent': config.USER_AGENT,
+      'Accept': 'application/json',
+      'Referer': 'https://music.163.com/'
+    };
+    if (config.NETEASE_COOKIE) {
+      headers['Cookie'] = config.NETEASE_COOKIE;
+    }
+
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      signal: options.signal,
+      headers
+    });
+
+    if (!response.ok) {
+      throw ApiError.api(`网易云接口响应状态: ${response.status}`, {
+        statusCode: response.status,
+        statusText: response.statusText
+      });
+    }
+
+    const result = await response.json();
+
+    // 接口通过 code 字段表示业务错误，如 404 不存在、401 无权访问
+    if (result?.code === 404 || result?.code === 401) {
+      throw ApiError.notFound('资源不存在或无权访问', { code: result.code });
+    }
+    if (result?.code !== 200) {
+      throw ApiError.api(result?.message || result?.msg || '网易云接口返回错误', {
+        code: result?.code
+      });
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * 音乐提供商注册表
+ * 根据 MUSIC_API_URL 选择上游适配器，也允许在运行时注入自定义实现
+ */
+
+import { config } from '../../config/env';
+import { gdStudioProviderFactory } from './GdStudioProvider';
+import { NeteaseCatalogProvider } from './NeteaseCatalogProvider';
+import { CatalogProvider, MusicProvider, MusicProviderFactory } from './types';
+
+export * from './types';
+export { parseUpstream, matchResultSchema } from './schemas';
+export { GdStudioProvider } from './GdStudioProvider';
+export { NeteaseCatalogProvider } from './NeteaseCatalogProvider';
+
+// 已注册的提供商工厂，按顺序匹配，GD Studio 作为兜底实现
+const factories: MusicProviderFactory[] = [gdStudioProviderFactory];
+
+// 手动注入的提供商（优先于根据配置创建的实例）
+let overrideProvider: MusicProvider | null = null;
+
+// 根据配置创建的实例缓存
+let cachedProvider: { apiUrl: string; provider: MusicProvider } | null = null;
+
+// 歌单、专辑使用的曲库提供商
+let catalogProvider: CatalogProvider = new NeteaseCatalogProvider();
+
+/**
+ * 注册提供商工厂
+ * 新注册的工厂优先匹配，便于接入自建后端
+ * @param factory 提供商工厂
+ */
+export function registerMusicProvider(factory: MusicProviderFactory): void {
+  factories.unshift(factory);
+  cachedProvider = null;
+}
+
+/**
+ * 根据API地址创建提供商
+ * @param apiUrl 上游API地址
+ * @returns 提供商实例，地址无效或无匹配工厂时返回null
+ */
+export function createMusicProvider(apiUrl?: string): MusicProvider | null {
+  if (!apiUrl) {
+    return null;
+  }
+
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(apiUrl);
+  } catch (error) {
+    console.warn(`无效的音乐API地址: ${apiUrl}`);
+    return null;
+  }
+
+  const factory = factories.find(item => item.matches(parsedUrl));
+  if (!factory) {
+    console.warn(`没有与音乐API地址匹配的提供商: ${parsedUrl.protocol}`);
+    return null;
+  }
+
+  return factory.create(parsedUrl);
+}
+
+/**
+ * 获取当前使用的提供商
+ * @returns 提供商实例，未启用音乐API时返回null
+ */
+export function getMusicProvider(): MusicProvider | null {
+  if (overrideProvider) {
+    return overrideProvider;
+  }
+
+  if (!config.ENABLE_MUSIC_API || !config.MUSIC_API_URL) {
+    return null;
+  }
+
+  if (!cachedProvider || cachedProvider.apiUrl !== config.MUSIC_API_URL) {
+    const provider = createMusicProvider(config.MUSIC_API_URL);
+    if (!provider) {
+      return null;
+    }
+    cachedProvider = { apiUrl: config.MUSIC_API_URL, provider };
+  }
+
+  return cachedProvider.provider;
+}
+
+/**
+ * 手动指定提供商（如本地假实现），传入null恢复按配置选择
+ * @param provider 提供商实例
+ */
+export function setMusicProvider(provider: MusicProvider | null): void {
+  overrideProvider = provider;
+}
+
+/**
+ * 获取歌单、专辑使用的曲库提供商
+ */
+export function getCatalogProvider(): CatalogProvider {
+  return catalogProvider;
+}
+
+/**
+ * 替换曲库提供商（如本地假实现）
+ * @param provider 提供商实例
+ */
+export function setCatalogProvider(provider: CatalogProvider): void {
+  catalogProvider = provider;
+}
@@ -0,0 +1,97 @@
+/**
+ * 上游返回数据的结构定义
+ * 上游的数据结构变化时在这里集中暴露为 UPSTREAM_SCHEMA 错误，而不是在后续处理中报出含糊的错误
+ */
+
+import { ApiError } from '../../utils/errors';
+import logger from '../../utils/logger';
+import { array, id, number, object, optional, Schema, string, union, validate } from '../../utils/schema';
+import {
+  ProviderLyricResult,
+  ProviderPicResult,
+  ProviderSearchResult,
+  ProviderSong,
+  ProviderUrlResult,
+  UnblockMatchResult
+} from './types';
+
+// 单次错误日志最多记录的问题字段数
+const MAX_LOGGED_ISSUES = 10;
+
+export const songSchema: Schema<ProviderSong> = object<ProviderSong>({
+  id: optional(id()),
+  musicId: optional(id()),
+  name: optional(string()),
+  artist: optional(union(string(), array(string()))),
+  album: optional(union(string(), object<{ name?: string }>({ name: optional(string()) }, { passthrough: true }))),
+  pic: optional(string()),
+  pic_id: optional(id()),
+  lyric_id: optional(id()),
+  duration: optional(number()),
+  source: optional(string())
+}, { passthrough: true });
+
+// 部分上游直接返回歌曲数组
+export const songListSchema: Schema<ProviderSong[]> = array(songSchema);
+
+export const searchResultSchema: Schema<ProviderSearchResult> = object<ProviderSearchResult>({
+  songs: songListSchema,
+  total: optional(number())
+});
+
+// 无法获取时上游返回空的 url，字段本身缺失说明结构已变化
+export const urlResultSchema: Schema<ProviderUrlResult> = object<ProviderUrlResult>({
+  url: string(),
+  br: optional(number()),
+  size: optional(number()),
+  md5: optional(string()),
+  type: optional(string()),
+  level: optional(string()),
+  source: optional(string())
+});
+
+// 纯音乐等没有歌词的曲目，上游不返回 lyric 或返回 null
+export const lyricResultSchema: Schema<ProviderLyricResult> = object<ProviderLyricResult>({
+  lyric: optional(string()),
+  tlyric: optional(string())
+});
+
+export const picResultSchema: Schema<ProviderPicResult> = object<ProviderPicResult>({
+  url: string()
+});
+
+export const matchResultSchema: Schema<UnblockMatchResult> = object<UnblockMatchResult>({
+  url: string(),
+  br: optional(number()),
+  size: optional(number()),
+  md5: optional(string()),
+  source: optional(string())
+}, { passthrough: true });
+
+/**
+ * 按结构定义校验上游数据，不符合时记录问题字段并抛出 UPSTREAM_SCHEMA 错误
+ * @param endpoint 上游接口名称（url、search、lyric、pic、match）
+ * @param source 音乐源
+ * @param schema 结构定义
+ * @param payload 上游返回的数据
+ * @returns 带类型的数据
+ */
+export function parseUpstream<T>(endpoint: string, source: string | undefined, schema: Schema<T>, payload: unknown): T {
+  const { value, issues } = validate(schema, payload);
+  if (issues.length === 0) {
+    return value;
+  }
+
+  logger.warn(`上游数据结构异常: ${endpoint}`, {
+    endpoint,
+    source,
+    issues: issues.slice(0, MAX_LOGGED_ISSUES),
+    issueCount: issues.length
+  });
+
+  throw ApiError.upstreamSchema(`上游返回的${endpoint}数据格式异常`, {
+    endpoint,
+    source,
+    fields: issues.map(issue => issue.path)
+  });
+}
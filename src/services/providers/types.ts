@@ -0,0 +1,201 @@
+/**
+ * 上游音乐提供商接口定义
+ * MusicService 只依赖这里的接口，具体的上游API由各适配器实现
+ */
+
+import { SongInfo } from '../../types';
+
+/**
+ * 提供商能力标识
+ */
+export interface ProviderCapabilities {
+  search: boolean; // 是否支持关键词搜索
+  url: boolean;    // 是否支持获取播放链接
+  lyric: boolean;  // 是否支持获取歌词
+  pic: boolean;    // 是否支持获取专辑图
+}
+
+/**
+ * 提供商能力名称
+ */
+export type ProviderCapability = keyof ProviderCapabilities;
+
+/**
+ * 单次上游请求的通用选项
+ */
+export interface ProviderRequestOptions {
+  signal?: AbortSignal; // 用于取消请求
+}
+
+/**
+ * 搜索参数
+ */
+export interface ProviderSearchParams {
+  keyword: string;
+  source: string;
+  count: number;
+  page: number;
+}
+
+/**
+ * 获取播放链接参数
+ */
+export interface ProviderUrlParams {
+  id: string;
+  br?: string;
+  source?: string;
+}
+
+/**
+ * 获取歌词参数
+ */
+export interface ProviderLyricParams {
+  id: string;
+  source: string;
+}
+
+/**
+ * 获取专辑图参数
+ */
+export interface ProviderPicParams {
+  id: string;
+  source: string;
+  size: number;
+}
+
+/**
+ * 上游搜索结果中的单曲，未声明的字段原样保留
+ */
+export interface ProviderSong {
+  id?: string;
+  musicId?: string;
+  name?: string;
+  artist?: string | string[];
+  album?: string | { name?: string };
+  pic?: string;
+  pic_id?: string;
+  lyric_id?: string;
+  duration?: number;
+  source?: string;
+}
+
+/**
+ * 上游返回的搜索结果
+ */
+export interface ProviderSearchResult {
+  songs: ProviderSong[];
+  total?: number;
+}
+
+/**
+ * 上游返回的播放链接
+ */
+export interface ProviderUrlResult {
+  url?: string;
+  br?: number;
+  size?: number;
+  md5?: string;
+  type?: string;
+  level?: string;
+  source?: string; // 实际提供链接的音乐源，上游返回时才有
+}
+
+/**
+ * 上游返回的歌词
+ */
+export interface ProviderLyricResult {
+  lyric?: string;
+  tlyric?: string;
+}
+
+/**
+ * 上游返回的专辑图
+ */
+export interface ProviderPicResult {
+  url?: string;
+}
+
+/**
+ * 解灰模块 match() 返回的匹配结果，未声明的字段原样保留
+ */
+export interface UnblockMatchResult {
+  url: string;
+  br?: number;   // 单位为bps
+  size?: number;
+  md5?: string;
+  source?: string;
+}
+
+/**
+ * 音乐提供商接口
+ * 新的上游后端（或本地测试用的假实现）只需实现该接口即可接入 MusicService
+ */
+export interface MusicProvider {
+  /** 提供商名称，用于日志和错误信息 */
+  readonly name: string;
+
+  /** 提供商支持的能力 */
+  readonly capabilities: ProviderCapabilities;
+
+  search(params: ProviderSearchParams, options?: ProviderRequestOptions): Promise<ProviderSearchResult>;
+
+  getUrl(params: ProviderUrlParams, options?: ProviderRequestOptions): Promise<ProviderUrlResult>;
+
+  getLyric(params: ProviderLyricParams, options?: ProviderRequestOptions): Promise<ProviderLyricResult>;
+
+  getPic(params: ProviderPicParams, options?: ProviderRequestOptions): Promise<ProviderPicResult>;
+
+  /** 将上游搜索结果中的单曲转换为统一的 SongInfo */
+  toSongInfo(song: any, source: string): SongInfo;
+}
+
+/**
+ * 提供商工厂
+ * matches 用于根据 MUSIC_API_URL 判断是否由该工厂创建提供商
+ */
+export interface MusicProviderFactory {
+  name: string;
+  matches(apiUrl: URL): boolean;
+  create(apiUrl: URL): MusicProvider;
+}
+
+/**
+ * 歌单或专辑（合集）的类型
+ */
+export type CollectionType = 'playlist' | 'album';
+
+/**
+ * 上游返回的合集信息
+ */
+export interface ProviderCollectionResult {
+  id: string;
+  name: string;
+  cover?: string;
+  description?: string;
+  creator?: string;      // 歌单创建者或专辑歌手
+  revision: string;      // 合集版本，曲目变化时随之改变
+  trackIds: string[];    // 完整的曲目ID列表，按合集顺序
+  tracks: any[];         // 上游已随合集返回的曲目详情，可能不完整
+}
+
+/**
+ * 曲库提供商接口
+ * 用于读取歌单、专辑等曲目列表，与播放链接的上游相互独立
+ */
+export interface CatalogProvider {
+  /** 提供商名称，用于日志和错误信息 */
+  readonly name: string;
+
+  /** 曲目所属的音乐源 */
+  readonly source: string;
+
+  getPlaylist(id: string, options?: ProviderRequestOptions): Promise<ProviderCollectionResult>;
+
+  getAlbum(id: string, options?: ProviderRequestOptions): Promise<ProviderCollectionResult>;
+
+  /** 批量获取曲目详情 */
+  getSongDetails(ids: string[], options?: ProviderRequestOptions): Promise<any[]>;
+
+  /** 将上游曲目详情转换为统一的 SongInfo */
+  toSongInfo(track: any): SongInfo;
+}
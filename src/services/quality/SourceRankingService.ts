@@ -1,4 +1,5 @@
 import { config } from '../../config';
+import { getDefaultQualityScores } from '../../config/source-registry';
 
 interface SourceStats {
   availableCount: number;
@@ -8,22 +9,14 @@ interface SourceStats {
   lastFailure: number | null;
   successRate: number;
   qualityScore: number; // 音质评分
+  rejections?: Record<string, number>; // 按原因统计的被拒绝次数
+  lastRejection?: { reason: string; detail: string; time: number };
 }
 
 export class SourceRankingService {
   private sourceStats: Map<string, SourceStats> = new Map();
-  // 默认音源质量评分
-  private readonly DEFAULT_QUALITY_SCORES: Record<string, number> = {
-    'qq': 85,    // QQ音乐质量不错
-    'kugou': 80, // 酷狗音乐
-    'kuwo': 75,  // 酷我音乐
-    'migu': 90,  // 咪咕音乐质量较高
-    'joox': 70,
-    'youtube': 88, // YouTube质量不错
-    'ytdlp': 95,   // yt-dlp提供高质量
-    'bilibili': 65,
-    'pyncmd': 60,
-  };
+  // 默认音源质量评分，由音源注册表派生
+  private readonly DEFAULT_QUALITY_SCORES: Record<string, number> = getDefaultQualityScores();
 
   constructor() {
     // 初始化音源统计
@@ -88,6 +81,17 @@ export class SourceRankingService {
     this.saveStatsToStorage();
   }
 
+  // 记录音源的匹配结果被拒绝（试听片段、版本不符等），计为一次失败
+  recordRejection(source: string, reason: string, detail: string = reason) {
+    this.recordSourceResult(source, false, 0);
+
+    const stats = this.sourceStats.get(source)!;
+    stats.rejections = { ...stats.rejections, [reason]: (stats.rejections?.[reason] || 0) + 1 };
+    stats.lastRejection = { reason, detail, time: Date.now() };
+
+    this.saveStatsToStorage();
+  }
+
   // 获取音源排名
   rankSources(sources: string[]): string[] {
     // 默认使用配置中的音源
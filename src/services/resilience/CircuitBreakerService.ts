@@ -0,0 +1,246 @@
+import { config } from '../../config/env';
+import { ApiError } from '../../utils/errors';
+import { isTimeoutError, isTransientError } from '../../utils/retry';
+import { sourceRankingService } from '../quality/SourceRankingService';
+
+/**
+ * 熔断器状态
+ */
+export enum CircuitState {
+  CLOSED = 'closed',       // 正常放行
+  OPEN = 'open',           // 熔断中，直接拒绝
+  HALF_OPEN = 'half-open'  // 放行一个试探请求
+}
+
+/**
+ * 单个音源/接口的熔断器
+ */
+interface CircuitBreaker {
+  endpoint: string;
+  source: string;
+  state: CircuitState;
+  failures: number;             // 连续失败次数
+  openedAt: number | null;      // 最近一次熔断时间
+  lastFailure: number | null;
+  lastError: string | null;
+  probeInFlight: boolean;       // 半开状态下是否已有试探请求
+}
+
+/**
+ * 熔断器状态快照，用于健康检查
+ */
+export interface CircuitBreakerSnapshot {
+  endpoint: string;
+  source: string;
+  state: CircuitState;
+  failures: number;
+  openedAt: string | null;
+  retryAt: string | null;
+  lastError: string | null;
+}
+
+// 未指定音源时使用的占位名称
+const DEFAULT_SOURCE = 'default';
+
+/**
+ * 熔断服务
+ * 按"接口 + 音源"维护熔断器：连续出现超时或临时性错误达到阈值后熔断，
+ * 熔断期间的请求立即失败，超过重置时间后进入半开状态放行一个试探请求
+ */
+export class CircuitBreakerService {
+  private breakers: Map<string, CircuitBreaker> = new Map();
+
+  /**
+   * @param threshold 连续失败多少次后熔断
+   * @param resetTimeout 熔断多久后进入半开状态(毫秒)
+   */
+  constructor(
+    private readonly threshold: number = config.CIRCUIT_BREAKER_THRESHOLD,
+    private readonly resetTimeout: number = config.CIRCUIT_BREAKER_RESET_TIMEOUT
+  ) { }
+
+  /**
+   * 获取（或创建）熔断器
+   */
+  private getBreaker(endpoint: string, source?: string): CircuitBreaker {
+    const sourceName = source || DEFAULT_SOURCE;
+    const key = `${endpoint}:${sourceName}`;
+    let breaker = this.breakers.get(key);
+
+    if (!breaker) {
+      breaker = {
+        endpoint,
+        source: sourceName,
+        state: CircuitState.CLOSED,
+        failures: 0,
+        openedAt: null,
+        lastFailure: null,
+        lastError: null,
+        probeInFlight: false
+      };
+      this.breakers.set(key, breaker);
+    }
+
+    return breaker;
+  }
+
+  /**
+   * 刷新熔断器状态：熔断超过重置时间后转为半开
+   */
+  private refreshState(breaker: CircuitBreaker): void {
+    if (breaker.state === CircuitState.OPEN && breaker.openedAt !== null &&
+      Date.now() - breaker.openedAt >= this.resetTimeout) {
+      breaker.state = CircuitState.HALF_OPEN;
+      breaker.probeInFlight = false;
+    }
+  }
+
+  /**
+   * 判断当前是否允许请求该音源/接口
+   * @param endpoint 上游接口名称
+   * @param source 音源
+   */
+  isAvailable(endpoint: string, source?: string): boolean {
+    const breaker = this.getBreaker(endpoint, source);
+    this.refreshState(breaker);
+
+    switch (breaker.state) {
+      case CircuitState.OPEN:
+        return false;
+      case CircuitState.HALF_OPEN:
+        return !breaker.probeInFlight;
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * 通过熔断器执行上游请求
+   * 结果同时记录到 SourceRankingService
+   * @param endpoint 上游接口名称（如 match、url、lyric）
+   * @param source 音源，未指定时使用默认占位名称
+   * @param fn 实际请求函数
+   * @param signal 调用方的取消信号，如请求的截止时间；请求因调用方放弃而中止时不计入熔断和音源排名
+   * @returns 请求结果
+   */
+  async execute<T>(endpoint: string, source: string | undefined, fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const breaker = this.getBreaker(endpoint, source);
+
+    if (!this.isAvailable(endpoint, source)) {
+      const retryAt = breaker.openedAt !== null ? breaker.openedAt + this.resetTimeout : Date.now();
+      throw ApiError.unavailable(`音源 ${breaker.source} 暂时不可用，请稍后再试`, {
+        endpoint,
+        source: breaker.source,
+        retryAfter: Math.max(1, Math.ceil((retryAt - Date.now()) / 1000))
+      });
+    }
+
+    if (breaker.state === CircuitState.HALF_OPEN) {
+      breaker.probeInFlight = true;
+    }
+
+    const startTime = Date.now();
+    try {
+      const result = await fn();
+      this.recordSuccess(breaker);
+      this.recordRanking(breaker, true, Date.now() - startTime);
+      return result;
+    } catch (error) {
+      // 调用方的时间用完或主动取消，不能说明上游是否健康，只释放试探机会
+      if (signal?.aborted) {
+        breaker.probeInFlight = false;
+        throw error;
+      }
+
+      // 只有超时和临时性错误说明上游不健康，"未找到歌曲"之类的业务错误不计入熔断
+      if (isTimeoutError(error) || isTransientError(error)) {
+        this.recordFailure(breaker, error);
+      } else {
+        this.recordSuccess(breaker);
+      }
+      this.recordRanking(breaker, false, Date.now() - startTime);
+      throw error;
+    }
+  }
+
+  /**
+   * 请求成功，关闭熔断器
+   */
+  private recordSuccess(breaker: CircuitBreaker): void {
+    if (breaker.state !== CircuitState.CLOSED) {
+      console.log(`熔断恢复: ${breaker.endpoint}:${breaker.source}`);
+    }
+
+    breaker.state = CircuitState.CLOSED;
+    breaker.failures = 0;
+    breaker.openedAt = null;
+    breaker.probeInFlight = false;
+  }
+
+  /**
+   * 请求失败，达到阈值或半开试探失败时熔断
+   */
+  private recordFailure(breaker: CircuitBreaker, error: any): void {
+    breaker.failures++;
+    breaker.lastFailure = Date.now();
+    breaker.lastError = error instanceof Error ? error.message : String(error);
+    breaker.probeInFlight = false;
+
+    if (breaker.state === CircuitState.HALF_OPEN || breaker.failures >= this.threshold) {
+      if (breaker.state !== CircuitState.OPEN) {
+        console.warn(`熔断开启: ${breaker.endpoint}:${breaker.source}，连续失败 ${breaker.failures} 次`);
+      }
+      breaker.state = CircuitState.OPEN;
+      breaker.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * 将结果同步到音源排名，占位音源不参与排名
+   */
+  private recordRanking(breaker: CircuitBreaker, success: boolean, responseTime: number): void {
+    if (breaker.source !== DEFAULT_SOURCE) {
+      sourceRankingService.recordSourceResult(breaker.source, success, responseTime);
+    }
+  }
+
+  /**
+   * 获取所有熔断器的状态快照
+   */
+  getSnapshot(): CircuitBreakerSnapshot[] {
+    return Array.from(this.breakers.values()).map(breaker => {
+      this.refreshState(breaker);
+      const isOpen = breaker.state === CircuitState.OPEN && breaker.openedAt !== null;
+
+      return {
+        endpoint: breaker.endpoint,
+        source: breaker.source,
+        state: breaker.state,
+        failures: breaker.failures,
+        openedAt: breaker.openedAt !== null ? new Date(breaker.openedAt).toISOString() : null,
+        retryAt: isOpen ? new Date(breaker.openedAt! + this.resetTimeout).toISOString() : null,
+        lastError: breaker.lastError
+      };
+    });
+  }
+
+  /**
+   * 重置熔断器
+   * @param endpoint 指定接口时只重置该接口的熔断器
+   */
+  reset(endpoint?: string): void {
+    if (!endpoint) {
+      this.breakers.clear();
+      return;
+    }
+
+    for (const [key, breaker] of this.breakers) {
+      if (breaker.endpoint === endpoint) {
+        this.breakers.delete(key);
+      }
+    }
+  }
+}
+
+// 导出单例
+export const circuitBreakerService = new CircuitBreakerService();
@@ -0,0 +1,286 @@
+import * as crypto from 'crypto';
+import { config } from '../../config/env';
+import { config as rankingConfig } from '../../config';
+import { DEFAULT_SOURCES, setDefaultSources, SourceType } from '../../config/sources';
+import {
+  findSource,
+  getSourceDefinition,
+  getSourceEnabledOverrides,
+  isSourceEnabled,
+  SOURCE_REGISTRY,
+  SourceCode,
+  SourceOperation,
+  setSourceEnabledOverrides,
+  supportsOperation
+} from '../../config/source-registry';
+import { ApiError } from '../../utils/errors';
+import {
+  FileSourceSettingsStore,
+  PostgresSourceSettingsStore,
+  SourceSettings,
+  SourceSettingsStore
+} from './SourceSettingsStore';
+
+/**
+ * 单个音源的当前状态
+ */
+export interface SourceState {
+  source: string;
+  name: string;
+  operations: readonly SourceOperation[];
+  enabled: boolean;
+  origin: 'runtime' | 'config';  // 开关来自管理接口还是配置
+  order: number | null;          // 在默认匹配音源中的位置，从1开始
+}
+
+/**
+ * 音源设置的当前状态
+ */
+export interface SourceSettingsSnapshot {
+  sources: SourceState[];
+  defaultSources: string[];
+  followSourceOrder: boolean;
+  revision: string | null;       // 未通过管理接口修改过时为null
+  updatedAt?: string;
+}
+
+// 未经管理接口修改时的设置，在模块加载时记录，重置时恢复
+const BASELINE = {
+  order: [...DEFAULT_SOURCES],
+  rankingOrder: [...rankingConfig.DEFAULT_SOURCES],
+  followSourceOrder: config.FOLLOW_SOURCE_ORDER,
+  followSourceOrderEnv: process.env.FOLLOW_SOURCE_ORDER
+};
+
+/**
+ * 音源设置服务
+ * 通过管理接口在运行时启用、禁用音源和调整默认音源顺序，无需重启；
+ * 修改保存到文件或数据库，集群中的其他进程定期检查版本号并重新加载
+ */
+export class SourceSettingsService {
+  private store: SourceSettingsStore | null = null;
+  private revision: string | null = null;
+  private updatedAt?: number;
+  private syncTimer: NodeJS.Timeout | null = null;
+  private syncing: Promise<boolean> | null = null;
+
+  /**
+   * 加载已保存的设置，服务启动时调用
+   */
+  async initialize(): Promise<void> {
+    await this.sync();
+  }
+
+  /**
+   * 开始定期同步其他进程的修改
+   */
+  startSync(): void {
+    if (this.syncTimer || config.SOURCE_SETTINGS_SYNC_INTERVAL <= 0) {
+      return;
+    }
+
+    this.syncTimer = setInterval(() => {
+      this.sync().catch(error => console.error('同步音源设置失败:', error));
+    }, config.SOURCE_SETTINGS_SYNC_INTERVAL);
+    this.syncTimer.unref();
+  }
+
+  /**
+   * 停止定期同步
+   */
+  stopSync(): void {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+  }
+
+  /**
+   * 读取存储中的设置，版本号变化时应用
+   * @returns 是否应用了新的设置
+   */
+  sync(): Promise<boolean> {
+    // 同一时间只进行一次读取
+    if (!this.syncing) {
+      this.syncing = this.getStore().load()
+        .then(settings => {
+          if (!settings || settings.revision === this.revision) {
+            return false;
+          }
+          this.apply(settings);
+          return true;
+        })
+        .finally(() => {
+          this.syncing = null;
+        });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * 获取所有音源的开关和默认音源顺序
+   */
+  getSnapshot(): SourceSettingsSnapshot {
+    const overrides = getSourceEnabledOverrides();
+    const sources = (Object.keys(SOURCE_REGISTRY) as SourceCode[]).map(code => {
+      const order = (DEFAULT_SOURCES as string[]).indexOf(code);
+      return {
+        source: code,
+        name: getSourceDefinition(code).name,
+        operations: getSourceDefinition(code).operations,
+        enabled: isSourceEnabled(code),
+        origin: overrides[code] !== undefined ? 'runtime' as const : 'config' as const,
+        order: order === -1 ? null : order + 1
+      };
+    });
+
+    return {
+      sources,
+      defaultSources: [...DEFAULT_SOURCES],
+      followSourceOrder: config.FOLLOW_SOURCE_ORDER,
+      revision: this.revision,
+      ...(this.updatedAt && { updatedAt: new Date(this.updatedAt).toISOString() })
+    };
+  }
+
+  /**
+   * 启用或禁用音源
+   * @param source 音源，支持别名
+   * @param enabled 是否启用
+   * @returns 音源代码、修改前是否启用和修改后的设置
+   */
+  async setEnabled(source: string, enabled: boolean): Promise<{ source: SourceCode; previous: boolean; settings: SourceSettingsSnapshot }> {
+    const code = this.requireSource(source);
+    const previous = isSourceEnabled(code);
+    const settings = await this.update(current => {
+      current.enabled[code] = enabled;
+    });
+    return { source: code, previous, settings };
+  }
+
+  /**
+   * 设置默认匹配音源的顺序和匹配方式
+   * @param sources 默认匹配音源，按优先级排列
+   * @param followSourceOrder 是否按顺序依次匹配
+   */
+  async setOrder(sources?: string[], followSourceOrder?: boolean): Promise<SourceSettingsSnapshot> {
+    if (sources === undefined && followSourceOrder === undefined) {
+      throw ApiError.validation('至少需要提供 sources 或 followSourceOrder');
+    }
+    if (followSourceOrder !== undefined && typeof followSourceOrder !== 'boolean') {
+      throw ApiError.validation('followSourceOrder 应为布尔值');
+    }
+
+    let order: string[] | undefined;
+    if (sources !== undefined) {
+      if (!Array.isArray(sources) || sources.length === 0) {
+        throw ApiError.validation('sources 应为非空数组');
+      }
+      order = sources.map(source => this.requireSource(String(source), 'match'));
+      const duplicated = order.filter((code, index) => order!.indexOf(code) !== index);
+      if (duplicated.length > 0) {
+        throw ApiError.validation(`音源重复: ${[...new Set(duplicated)].join(', ')}`);
+      }
+    }
+
+    return this.update(settings => {
+      if (order) {
+        settings.order = order;
+      }
+      if (followSourceOrder !== undefined) {
+        settings.followSourceOrder = followSourceOrder;
+      }
+    });
+  }
+
+  /**
+   * 清除管理接口的修改，恢复按配置运行
+   */
+  async reset(): Promise<SourceSettingsSnapshot> {
+    return this.update(settings => {
+      settings.enabled = {};
+      delete settings.order;
+      delete settings.followSourceOrder;
+    });
+  }
+
+  /**
+   * 在最新的设置上修改并保存，其他进程的修改不会被覆盖
+   */
+  private async update(mutate: (settings: SourceSettings) => void): Promise<SourceSettingsSnapshot> {
+    const store = this.getStore();
+    const settings: SourceSettings = (await store.load()) || { enabled: {}, revision: '', updatedAt: 0 };
+
+    mutate(settings);
+    settings.revision = `${Date.now().toString(36)}-${crypto.randomBytes(4).toString('hex')}`;
+    settings.updatedAt = Date.now();
+
+    await store.save(settings);
+    this.apply(settings);
+
+    return this.getSnapshot();
+  }
+
+  /**
+   * 应用设置：音源开关、默认音源顺序、匹配方式
+   * 解灰模块在每次匹配时读取 FOLLOW_SOURCE_ORDER 环境变量，非空即视为开启
+   */
+  private apply(settings: SourceSettings): void {
+    // 忽略已不存在的音源
+    const enabled = Object.fromEntries(
+      Object.entries(settings.enabled || {}).filter(([source]) => findSource(source) === source)
+    );
+    setSourceEnabledOverrides(enabled);
+
+    const order = (settings.order || []).filter(source => {
+      const code = findSource(source);
+      return code === source && supportsOperation(code, 'match');
+    }) as SourceType[];
+    setDefaultSources(order.length > 0 ? order : BASELINE.order);
+    // 未调整顺序时音源排名沿用配置的默认音源
+    rankingConfig.DEFAULT_SOURCES = order.length > 0 ? [...order] : [...BASELINE.rankingOrder];
+
+    if (settings.followSourceOrder === undefined) {
+      config.FOLLOW_SOURCE_ORDER = BASELINE.followSourceOrder;
+      if (BASELINE.followSourceOrderEnv === undefined) {
+        delete process.env.FOLLOW_SOURCE_ORDER;
+      } else {
+        process.env.FOLLOW_SOURCE_ORDER = BASELINE.followSourceOrderEnv;
+      }
+    } else {
+      config.FOLLOW_SOURCE_ORDER = settings.followSourceOrder;
+      if (settings.followSourceOrder) {
+        process.env.FOLLOW_SOURCE_ORDER = 'true';
+      } else {
+        delete process.env.FOLLOW_SOURCE_ORDER;
+      }
+    }
+
+    this.revision = settings.revision;
+    this.updatedAt = settings.updatedAt;
+  }
+
+  /**
+   * 规范化音源名称
+   * @throws ApiError 音源不存在或不支持指定操作时
+   */
+  private requireSource(source: string, operation?: SourceOperation): SourceCode {
+    const code = findSource(source);
+    if (!code || (operation && !supportsOperation(code, operation))) {
+      throw ApiError.validation(`不支持的音源: ${source}`);
+    }
+    return code;
+  }
+
+  private getStore(): SourceSettingsStore {
+    if (!this.store) {
+      this.store = config.DATABASE_URL
+        ? new PostgresSourceSettingsStore()
+        : new FileSourceSettingsStore(config.SOURCE_SETTINGS_PATH);
+    }
+    return this.store;
+  }
+}
+
+// 导出单例
+export const sourceSettingsService = new SourceSettingsService();
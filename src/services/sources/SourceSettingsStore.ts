@@ -0,0 +1,97 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { databaseService } from '../db/DatabaseService';
+
+/**
+ * 管理接口修改的音源设置的持久化存储
+ * 集群中的每个进程定期读取，用于同步其他进程的修改
+ */
+
+/**
+ * 音源设置
+ */
+export interface SourceSettings {
+  enabled: Record<string, boolean>;  // 音源代码到是否启用，未包含的音源按 ENABLE_* 配置
+  order?: string[];                  // 默认匹配音源及顺序，未设置时使用音源注册表的默认顺序
+  followSourceOrder?: boolean;       // 是否按顺序依次匹配，未设置时使用 FOLLOW_SOURCE_ORDER 配置
+  revision: string;                  // 每次修改生成新的版本号，用于判断是否需要重新加载
+  updatedAt: number;
+}
+
+/**
+ * 音源设置存储接口
+ */
+export interface SourceSettingsStore {
+  load(): Promise<SourceSettings | null>;
+  save(settings: SourceSettings): Promise<void>;
+}
+
+/**
+ * 保存到本地JSON文件，适用于同一台机器上的多个进程
+ */
+export class FileSourceSettingsStore implements SourceSettingsStore {
+  constructor(private readonly filePath: string) { }
+
+  async load(): Promise<SourceSettings | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async save(settings: SourceSettings): Promise<void> {
+    // 先写临时文件再重命名，其他进程不会读到写了一半的文件
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(settings, null, 2));
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+// runtime_settings 表中音源设置的名称
+const SETTINGS_NAME = 'sources';
+
+/**
+ * 保存到 PostgreSQL 的 runtime_settings 表，适用于多台机器
+ */
+export class PostgresSourceSettingsStore implements SourceSettingsStore {
+  private ready: Promise<void> | null = null;
+
+  async load(): Promise<SourceSettings | null> {
+    await this.ensureTable();
+    const result = await databaseService.query<{ payload: string }>(
+      'SELECT payload FROM runtime_settings WHERE name = $1',
+      [SETTINGS_NAME]
+    );
+    return result.rows.length > 0 ? JSON.parse(result.rows[0].payload) : null;
+  }
+
+  async save(settings: SourceSettings): Promise<void> {
+    await this.ensureTable();
+    await databaseService.query(
+      `INSERT INTO runtime_settings (name, payload, updated_at) VALUES ($1, $2, NOW())
+       ON CONFLICT (name) DO UPDATE SET payload = EXCLUDED.payload, updated_at = NOW()`,
+      [SETTINGS_NAME, JSON.stringify(settings)]
+    );
+  }
+
+  private ensureTable(): Promise<void> {
+    if (!this.ready) {
+      this.ready = databaseService.query(
+        `CREATE TABLE IF NOT EXISTS runtime_settings (
+           name TEXT PRIMARY KEY,
+           payload TEXT NOT NULL,
+           updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+         )`
+      ).then(() => undefined, error => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+}
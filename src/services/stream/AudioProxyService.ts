@@ -0,0 +1,164 @@
+import { Readable } from 'stream';
+import { ReadableStream as WebReadableStream } from 'stream/web';
+import { config } from '../../config/env';
+import { ApiError, ErrorType } from '../../utils/errors';
+
+/**
+ * 打开上游音频的选项
+ */
+export interface AudioStreamOptions {
+  range?: string;       // 客户端的 Range 请求头
+  signal?: AbortSignal; // 客户端断开时取消上游请求
+}
+
+/**
+ * 代理给客户端的音频流
+ */
+export interface AudioStream {
+  statusCode: number;             // 200、206 或 416
+  headers: Record<string, string>;
+  body: Readable | null;
+}
+
+// 透传给客户端的上游响应头
+const PASSTHROUGH_HEADERS = [
+  'content-type',
+  'content-length',
+  'content-range',
+  'accept-ranges',
+  'etag',
+  'last-modified'
+];
+
+// 上游未返回 Content-Type 时按扩展名推断
+const AUDIO_CONTENT_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  flac: 'audio/flac',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  ogg: 'audio/ogg',
+  opus: 'audio/ogg',
+  wav: 'audio/wav'
+};
+
+/**
+ * 音频代理服务
+ * 由服务端请求上游音频并以流的形式转发给客户端，
+ * 使 HTTPS 页面也能播放只提供 http:// 链接的音源
+ */
+export class AudioProxyService {
+  /**
+   * 打开上游音频流
+   * @param url 上游音频地址
+   * @param options 请求选项
+   * @returns 状态码、响应头和音频流
+   */
+  async open(url: string, options: AudioStreamOptions = {}): Promise<AudioStream> {
+    let upstreamUrl: URL;
+    try {
+      upstreamUrl = new URL(url);
+    } catch (error) {
+      throw ApiError.api('音频地址无效', { url });
+    }
+
+    // 只代理 http(s) 地址，避免被用来访问其他协议
+    if (upstreamUrl.protocol !== 'http:' && upstreamUrl.protocol !== 'https:') {
+      throw ApiError.api('不支持的音频地址协议', { protocol: upstreamUrl.protocol });
+    }
+
+    const headers: Record<string, string> = {
+      'User-Agent': config.USER_AGENT,
+      'Accept': '*/*'
+    };
+
+    // 只透传标准的字节范围请求
+    if (options.range && /^bytes=\d*-\d*(,\s*\d*-\d*)*$/.test(options.range.trim())) {
+      headers['Range'] = options.range.trim();
+    }
+
+    // 超时只作用于等待响应头，开始传输后由客户端连接决定生命周期
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), config.REQUEST_TIMEOUT || 15000);
+    const onClientAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onClientAbort, { once: true });
+
+    let response: Response;
+    try {
+      response = await fetch(upstreamUrl.toString(), {
+        headers,
+        redirect: 'follow',
+        signal: controller.signal
+      });
+    } catch (error: any) {
+      options.signal?.removeEventListener('abort', onClientAbort);
+      if (error?.name === 'AbortError') {
+        throw ApiError.timeout('音频源请求超时');
+      }
+      throw new ApiError('无法连接音频源', ErrorType.API, 502, {
+        originalError: error instanceof Error ? error.message : String(error)
+      });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    // 请求的范围超出文件大小
+    if (response.status === 416) {
+      options.signal?.removeEventListener('abort', onClientAbort);
+      await response.body?.cancel().catch(() => { });
+      return {
+        statusCode: 416,
+        headers: this.pickHeaders(response, upstreamUrl),
+        body: null
+      };
+    }
+
+    if (response.status !== 200 && response.status !== 206) {
+      options.signal?.removeEventListener('abort', onClientAbort);
+      await response.body?.cancel().catch(() => { });
+      throw new ApiError(`音频源响应状态: ${response.status}`, ErrorType.API, 502, {
+        statusCode: response.status
+      });
+    }
+
+    const body = response.body
+      ? Readable.fromWeb(response.body as unknown as WebReadableStream)
+      : null;
+    body?.once('close', () => options.signal?.removeEventListener('abort', onClientAbort));
+
+    return {
+      statusCode: response.status,
+      headers: this.pickHeaders(response, upstreamUrl),
+      body
+    };
+  }
+
+  /**
+   * 挑选需要透传的响应头
+   */
+  private pickHeaders(response: Response, upstreamUrl: URL): Record<string, string> {
+    const headers: Record<string, string> = {};
+
+    for (const name of PASSTHROUGH_HEADERS) {
+      const value = response.headers.get(name);
+      if (value) {
+        headers[name] = value;
+      }
+    }
+
+    // 部分音源返回 application/octet-stream，按扩展名给出更准确的类型
+    const contentType = headers['content-type'];
+    if (!contentType || contentType.startsWith('application/octet-stream')) {
+      const extension = upstreamUrl.pathname.split('.').pop()?.toLowerCase() || '';
+      headers['content-type'] = AUDIO_CONTENT_TYPES[extension] || contentType || 'audio/mpeg';
+    }
+
+    if (!headers['accept-ranges'] && response.status === 206) {
+      headers['accept-ranges'] = 'bytes';
+    }
+
+    return headers;
+  }
+}
+
+// 导出单例
+export const audioProxyService = new AudioProxyService();
@@ -0,0 +1,222 @@
+import { config } from '../../config/env';
+import { cacheService } from '../cache/CacheService';
+
+/**
+ * 播放链接探测结果
+ */
+export interface LinkProbeResult {
+  ok: boolean;
+  method: 'HEAD' | 'GET';       // 最终得出结论的请求方式
+  statusCode?: number;
+  contentType?: string;
+  contentLength?: number;       // 完整文件大小(字节)，上游未给出时为空
+  reason?: string;              // 不可用的原因
+  responseTime: number;         // 探测耗时(毫秒)
+}
+
+/**
+ * 后台校验一轮的结果
+ */
+export interface LinkVerifyStats {
+  checked: number;
+  evicted: number;
+}
+
+// 直链缓存的键前缀，与 MusicService.getDirectLink 一致
+const DIRECT_LINK_PREFIX = 'ncmget:';
+
+// 单次探测的超时时间上限(毫秒)
+const MAX_PROBE_TIMEOUT = 5000;
+
+// 小于该大小的响应通常是错误页面而不是音频(字节)
+const MIN_AUDIO_BYTES = 8 * 1024;
+
+// 可接受的非 audio/* 类型，部分音源以这些类型返回音频
+const ACCEPTED_CONTENT_TYPES = [
+  'application/octet-stream',
+  'binary/octet-stream',
+  'video/mp4',
+  'application/ogg'
+];
+
+// HEAD 不被支持或信息不完整时改用范围请求
+const HEAD_UNSUPPORTED_STATUSES = [403, 405, 501];
+
+/**
+ * 播放链接探测服务
+ * 通过 HEAD 或 Range 请求确认链接确实返回音频，并可在后台抽样校验已缓存的直链
+ */
+export class LinkProbeService {
+  private verifierTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * 探测链接是否可以播放：检查状态码、内容类型和文件大小
+   * @param url 播放链接
+   * @param signal 取消信号
+   */
+  async probe(url: string, signal?: AbortSignal): Promise<LinkProbeResult> {
+    const startTime = Date.now();
+
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch (error) {
+      return { ok: false, method: 'HEAD', reason: '链接格式无效', responseTime: 0 };
+    }
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      return { ok: false, method: 'HEAD', reason: `不支持的协议: ${target.protocol}`, responseTime: 0 };
+    }
+
+    try {
+      const head = await this.request(target, 'HEAD', signal);
+      if (!HEAD_UNSUPPORTED_STATUSES.includes(head.status) && (head.status !== 200 || head.headers.get('content-length'))) {
+        return { ...this.evaluate(head, 'HEAD'), responseTime: Date.now() - startTime };
+      }
+
+      const ranged = await this.request(target, 'GET', signal);
+      return { ...this.evaluate(ranged, 'GET'), responseTime: Date.now() - startTime };
+    } catch (error: any) {
+      return {
+        ok: false,
+        method: 'HEAD',
+        reason: error?.name === 'AbortError' ? '探测超时' : `无法连接: ${error instanceof Error ? error.message : String(error)}`,
+        responseTime: Date.now() - startTime
+      };
+    }
+  }
+
+  /**
+   * 抽样校验已缓存的直链，失效的直接从缓存移除，下次请求时重新解析
+   * @param sampleSize 本轮校验的条目数
+   */
+  async verifyCachedLinks(sampleSize: number = config.LINK_VERIFIER_SAMPLE_SIZE): Promise<LinkVerifyStats> {
+    const stats: LinkVerifyStats = { checked: 0, evicted: 0 };
+
+    for (const key of cacheService.sampleKeys(DIRECT_LINK_PREFIX, sampleSize)) {
+      const cached = await cacheService.get(key);
+      if (!cached || !cached.url) {
+        continue;
+      }
+
+      stats.checked++;
+      const result = await this.probe(cached.url);
+      if (!result.ok) {
+        await cacheService.delete(key);
+        stats.evicted++;
+        console.warn(`缓存的播放链接已失效，已移除: ${key} (${result.reason})`);
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * 启动后台校验，按 LINK_VERIFIER_INTERVAL 定期抽样
+   */
+  startVerifier(interval: number = config.LINK_VERIFIER_INTERVAL): void {
+    if (this.verifierTimer) {
+      return;
+    }
+
+    let running = false;
+    this.verifierTimer = setInterval(async () => {
+      // 上一轮尚未结束时跳过
+      if (running) {
+        return;
+      }
+      running = true;
+      try {
+        const stats = await this.verifyCachedLinks();
+        if (stats.checked > 0) {
+          console.log(`播放链接校验: 检查 ${stats.checked} 条，移除 ${stats.evicted} 条`);
+        }
+      } catch (error) {
+        console.error('播放链接校验失败:', error);
+      } finally {
+        running = false;
+      }
+    }, interval);
+
+    // 不阻止进程退出
+    this.verifierTimer.unref();
+  }
+
+  /**
+   * 停止后台校验
+   */
+  stopVerifier(): void {
+    if (this.verifierTimer) {
+      clearInterval(this.verifierTimer);
+      this.verifierTimer = null;
+    }
+  }
+
+  /**
+   * 发起探测请求，GET 只请求前两个字节
+   */
+  private async request(target: URL, method: 'HEAD' | 'GET', signal?: AbortSignal): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), Math.min(config.REQUEST_TIMEOUT || 15000, MAX_PROBE_TIMEOUT));
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const response = await fetch(target.toString(), {
+        method,
+        headers: {
+          'User-Agent': config.USER_AGENT,
+          'Accept': '*/*',
+          ...(method === 'GET' && { 'Range': 'bytes=0-1' })
+        },
+        redirect: 'follow',
+        signal: controller.signal
+      });
+
+      // 只需要响应头，丢弃响应体
+      await response.body?.cancel().catch(() => { });
+      return response;
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * 根据响应头判断链接是否可用
+   */
+  private evaluate(response: Response, method: 'HEAD' | 'GET'): Omit<LinkProbeResult, 'responseTime'> {
+    const contentType = response.headers.get('content-type')?.split(';')[0].trim().toLowerCase() || undefined;
+    const contentLength = this.getContentLength(response);
+    const result = { method, statusCode: response.status, contentType, contentLength };
+
+    if (response.status !== 200 && response.status !== 206) {
+      return { ...result, ok: false, reason: `上游响应状态: ${response.status}` };
+    }
+
+    if (contentType && !contentType.startsWith('audio/') && !ACCEPTED_CONTENT_TYPES.includes(contentType)) {
+      return { ...result, ok: false, reason: `内容类型不是音频: ${contentType}` };
+    }
+
+    if (contentLength !== undefined && contentLength < MIN_AUDIO_BYTES) {
+      return { ...result, ok: false, reason: `文件过小: ${contentLength} 字节` };
+    }
+
+    return { ...result, ok: true };
+  }
+
+  /**
+   * 获取完整文件大小，范围请求从 Content-Range 中读取
+   */
+  private getContentLength(response: Response): number | undefined {
+    if (response.status === 206) {
+      const total = /\/(\d+)$/.exec(response.headers.get('content-range') || '');
+      return total ? Number(total[1]) : undefined;
+    }
+
+    const length = Number(response.headers.get('content-length'));
+    return response.headers.has('content-length') && Number.isFinite(length) ? length : undefined;
+  }
+}
+
+// 导出单例
+export const linkProbeService = new LinkProbeService();
@@ -22,8 +22,12 @@ export interface SongInfo {
   size?: number;
   md5?: string;
   format?: string;
+  level?: string; // 上游返回的音质等级（如 exhigh、lossless）
   duration?: number;
   source?: string;
+  picId?: string; // 专辑图ID（用于 /pic 接口）
+  lyricId?: string; // 歌词ID（用于 /lyric 接口）
+  expiresAt?: string; // 播放链接的过期时间(ISO 8601)，链接不带时效签名时为空
 }
 
 // 音源信息类型
@@ -52,4 +56,54 @@ export interface SourceResult {
   data?: SongInfo;
   error?: string;
   responseTime?: number;
-} 
\ No newline at end of file
+} 
+
+// 批量解析请求项
+export interface BatchSongItem {
+  id: string;
+  br?: string;
+  source?: string;
+}
+
+// 批量解析结果项，顺序与请求一致
+export interface BatchSongResult {
+  index: number;
+  id: string;
+  success: boolean;
+  via?: 'direct' | 'match'; // 通过直链接口还是解灰匹配得到结果
+  cached?: boolean;
+  data?: any;
+  error?: {
+    code: number;
+    type: string;
+    message: string;
+  };
+}
+
+// 合集（歌单、专辑）中的曲目，附带解灰状态
+export interface CollectionTrack extends SongInfo {
+  unblock: {
+    available: boolean; // matchSong 是否找到可播放的音源
+    source?: string;    // 匹配到的音源
+    br?: number;        // 匹配到的比特率(kbps)
+    reason?: string;    // 不可用的原因
+    timedOut?: boolean; // 请求截止时间内未完成匹配，稍后重试可能可用
+  };
+}
+
+// 歌单或专辑的解析结果
+export interface CollectionResult {
+  type: 'playlist' | 'album';
+  id: string;
+  name: string;
+  cover?: string;
+  description?: string;
+  creator?: string;
+  revision: string;  // 合集版本，缓存按版本区分
+  total: number;     // 合集曲目总数
+  offset: number;
+  limit: number;
+  resolved: boolean; // 曲目是否包含播放链接
+  partial: boolean;  // 是否有曲目未在截止时间内完成匹配
+  tracks: CollectionTrack[];
+}
\ No newline at end of file
@@ -27,6 +27,8 @@ declare module 'lru-cache' {
       ttl?: number;
       allowStale?: boolean;
       updateAgeOnGet?: boolean;
+      maxSize?: number;
+      sizeCalculation?: (value: V, key: K) => number;
       dispose?: (value: V, key: K) => void;
     });
     set(key: K, value: V, options?: { ttl?: number }): void;
@@ -0,0 +1,74 @@
+/**
+ * 匹配结果的时长校验
+ * 部分音源返回30~60秒的试听片段或其他版本，按文件大小和比特率估算时长并与原曲比较
+ */
+
+/**
+ * 拒绝匹配结果的原因
+ */
+export type DurationRejection = 'trial' | 'mismatch';
+
+/**
+ * 时长校验结果
+ */
+export interface DurationCheck {
+  ok: boolean;
+  estimated?: number;          // 估算的时长(秒)，无法估算时为空
+  reference?: number;          // 原曲时长(秒)，未知时为空
+  rejection?: DurationRejection;
+  reason?: string;             // 拒绝原因的说明
+}
+
+// 试听片段的最长时长(秒)
+const TRIAL_MAX_DURATION = 65;
+
+// 有损格式允许的相对误差，超过容差秒数和该比例时视为版本不符
+const LOSSY_RELATIVE_TOLERANCE = 0.1;
+
+// 高于该比特率(bps)视为无损，无损的实际码率波动大，估算值只作参考
+const LOSSLESS_MIN_BR = 320000;
+
+/**
+ * 按文件大小和比特率估算时长
+ * @param size 文件大小(字节)
+ * @param br 比特率(bps)
+ * @returns 时长(秒)，缺少数据时返回undefined
+ */
+export function estimateDuration(size: number | undefined, br: number | undefined): number | undefined {
+  if (!size || !br || size <= 0 || br <= 0) {
+    return undefined;
+  }
+  return Math.round((size * 8) / br);
+}
+
+/**
+ * 比较匹配结果与原曲的时长
+ * @param estimated 估算的时长(秒)
+ * @param reference 原曲时长(秒)
+ * @param br 比特率(bps)
+ * @param tolerance 允许的误差(秒)
+ */
+export function checkMatchDuration(
+  estimated: number | undefined,
+  reference: number | undefined,
+  br: number | undefined,
+  tolerance: number
+): DurationCheck {
+  const result = { estimated, reference };
+  if (!estimated || !reference) {
+    return { ...result, ok: true };
+  }
+
+  if (estimated <= TRIAL_MAX_DURATION && reference - estimated > tolerance) {
+    return { ...result, ok: false, rejection: 'trial', reason: `疑似试听片段: 约${estimated}秒，原曲${reference}秒` };
+  }
+
+  // 无损文件的码率随内容变化，估算值偏短属于正常情况，只在明显偏长时判定为版本不符
+  const lossless = (br || 0) > LOSSLESS_MIN_BR;
+  const difference = lossless ? estimated - reference : Math.abs(estimated - reference);
+  if (difference > Math.max(tolerance, reference * LOSSY_RELATIVE_TOLERANCE)) {
+    return { ...result, ok: false, rejection: 'mismatch', reason: `时长不符: 约${estimated}秒，原曲${reference}秒` };
+  }
+
+  return { ...result, ok: true };
+}
@@ -0,0 +1,87 @@
+import { config } from '../config/env';
+
+/**
+ * 统一的音质等级，与网易云的 level 命名一致
+ */
+export type QualityLevel = 'standard' | 'higher' | 'exhigh' | 'lossless' | 'hires';
+
+// 上游支持的音质档位，从高到低
+export const BITRATE_LADDER = [999, 740, 320, 192, 128];
+
+// 无损档位，ENABLE_FLAC 关闭时跳过
+const LOSSLESS_BITRATES = [999, 740];
+
+// 未指定音质且不选择最高音质时使用的档位
+const DEFAULT_BITRATE = 320;
+
+const QUALITY_LEVELS: QualityLevel[] = ['standard', 'higher', 'exhigh', 'lossless', 'hires'];
+
+/**
+ * 是否为支持的音质档位
+ * @param br 音质参数
+ */
+export function isValidBitrate(br: string | number): boolean {
+  const value = String(br).trim();
+  return /^\d+$/.test(value) && BITRATE_LADDER.includes(Number(value));
+}
+
+/**
+ * 将上游返回的比特率统一为kbps，部分上游以bps返回
+ * @param br 上游返回的比特率
+ * @returns kbps，无法解析时返回0
+ */
+export function normalizeBitrate(br: unknown): number {
+  const value = Number(br);
+  if (!Number.isFinite(value) || value <= 0) {
+    return 0;
+  }
+  return value >= 10000 ? Math.round(value / 1000) : value;
+}
+
+/**
+ * 计算本次请求的音质上限
+ * 未指定音质时，SELECT_MAX_BR 开启则取最高档位，否则取320；ENABLE_FLAC 关闭时最高为320
+ * @param br 客户端请求的音质
+ */
+export function getBitrateCeiling(br?: string | number): number {
+  const highest = config.ENABLE_FLAC ? BITRATE_LADDER[0] : DEFAULT_BITRATE;
+  const requested = br !== undefined && br !== '' ? Number(br) : (config.SELECT_MAX_BR ? highest : DEFAULT_BITRATE);
+  return Math.min(requested, highest);
+}
+
+/**
+ * 生成回退梯度：从上限开始依次降低音质
+ * @param ceiling 音质上限
+ * @returns 依次尝试的档位
+ */
+export function getBitrateLadder(ceiling: number): number[] {
+  return BITRATE_LADDER.filter(br =>
+    br <= ceiling && (config.ENABLE_FLAC || !LOSSLESS_BITRATES.includes(br))
+  );
+}
+
+/**
+ * 将比特率归一化为音质等级
+ * 上游返回的 level 合法时直接使用；999/740 为上游的无损档位代码，其余按实际比特率(kbps)判断
+ * @param br 实际比特率
+ * @param level 上游返回的音质等级
+ */
+export function getQualityLevel(br: number, level?: string | null): QualityLevel {
+  if (level && QUALITY_LEVELS.includes(level as QualityLevel)) {
+    return level as QualityLevel;
+  }
+
+  if (br === 999 || br >= 1500) {
+    return 'hires';
+  }
+  if (br > 320) {
+    return 'lossless';
+  }
+  if (br > 192) {
+    return 'exhigh';
+  }
+  if (br > 128) {
+    return 'higher';
+  }
+  return 'standard';
+}
@@ -0,0 +1,188 @@
+import { ProviderSong } from '../services/providers/types';
+
+/**
+ * 搜索候选评分
+ * 按歌名相似度、歌手重合度和时长接近程度为搜索结果打分，翻唱、现场版、伴奏等版本降低得分
+ */
+
+/**
+ * 搜索意图
+ */
+export interface CandidateQuery {
+  title: string;       // 搜索关键词，可以包含歌手名
+  artist?: string;     // 期望的歌手，多个用 / 或逗号分隔
+  duration?: number;   // 期望的时长(秒)
+}
+
+/**
+ * 单个候选的评分明细
+ */
+export interface CandidateScore {
+  score: number;        // 综合得分 0~1
+  title: number;        // 歌名相似度 0~1
+  artist?: number;      // 歌手重合度 0~1，无法判断时为空
+  duration?: number;    // 时长接近程度 0~1，时长未知时为空
+  penalties: string[];  // 命中的降权关键词
+}
+
+/**
+ * 排序后的候选
+ */
+export interface RankedCandidate {
+  song: ProviderSong;
+  index: number;        // 在上游结果中的位置
+  score: CandidateScore;
+}
+
+// 各项得分的权重，缺少某项时按其余权重重新归一
+const WEIGHTS = { title: 0.6, artist: 0.25, duration: 0.15 };
+
+// 时长相差超过该值(秒)时时长得分为0
+const DURATION_TOLERANCE = 30;
+
+// 每个降权关键词扣除的分数
+const PENALTY = 0.25;
+
+// 非原版的关键词，搜索词本身包含时不降权
+const VERSION_KEYWORDS: Array<{ name: string; pattern: RegExp }> = [
+  { name: 'Live', pattern: /(^|[^a-z])live([^a-z]|$)|现场/i },
+  { name: '伴奏', pattern: /伴奏|karaoke|instrumental|off\s*vocal/i },
+  { name: 'Remix', pattern: /remix|混音/i },
+  { name: 'DJ', pattern: /(^|[^a-z])dj([^a-z]|$)/i }
+];
+
+/**
+ * 规范化文本：全角转半角、转小写、去掉空白和标点
+ */
+export function normalizeText(value: string): string {
+  return String(value || '')
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\s\p{P}\p{S}]+/gu, '');
+}
+
+/**
+ * 去掉括号中的版本说明，如 "晴天 (Live)"、"晴天【伴奏】"
+ */
+function stripBrackets(value: string): string {
+  return value.replace(/[(（[【<《][^)）\]】>》]*[)）\]】>》]/g, ' ').trim();
+}
+
+/**
+ * 基于编辑距离的相似度 0~1
+ */
+function similarity(a: string, b: string): number {
+  if (!a || !b) {
+    return 0;
+  }
+  if (a === b) {
+    return 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+/**
+ * 拆分歌手列表
+ */
+function splitArtists(value: string | string[] | undefined): string[] {
+  const list = Array.isArray(value) ? value : String(value || '').split(/[\/,，、&;]|\s+feat\.?\s+/i);
+  return list.map(normalizeText).filter(Boolean);
+}
+
+function getAlbumName(song: ProviderSong): string {
+  return typeof song.album === 'string' ? song.album : song.album?.name || '';
+}
+
+/**
+ * 为单个候选打分
+ * @param query 搜索意图
+ * @param song 上游搜索结果中的单曲
+ */
+export function scoreCandidate(query: CandidateQuery, song: ProviderSong): CandidateScore {
+  const rawTitle = String(song.name || '');
+  const candidateTitle = normalizeText(stripBrackets(rawTitle)) || normalizeText(rawTitle);
+  const candidateArtists = splitArtists(song.artist);
+  let queryTitle = normalizeText(query.title);
+
+  // 歌手重合度：指定了歌手时按重合比例计算，否则看搜索词中是否带有候选的歌手名
+  let artist: number | undefined;
+  const queryArtists = splitArtists(query.artist);
+  if (queryArtists.length > 0) {
+    const matched = queryArtists.filter(name => candidateArtists.some(candidate => candidate.includes(name) || name.includes(candidate)));
+    artist = candidateArtists.length > 0 ? matched.length / queryArtists.length : 0;
+  } else {
+    const mentioned = candidateArtists.filter(name => name.length > 0 && queryTitle.includes(name) && queryTitle !== name);
+    if (mentioned.length > 0) {
+      artist = 1;
+      for (const name of mentioned) {
+        queryTitle = queryTitle.replace(name, '');
+      }
+    }
+  }
+
+  const title = similarity(queryTitle, candidateTitle);
+
+  let duration: number | undefined;
+  if (query.duration && query.duration > 0 && song.duration && song.duration > 0) {
+    // 上游时长可能以毫秒为单位
+    const seconds = song.duration > 10000 ? song.duration / 1000 : song.duration;
+    duration = Math.max(0, 1 - Math.abs(seconds - query.duration) / DURATION_TOLERANCE);
+  }
+
+  // 候选是特殊版本而搜索词没有要求时降权
+  const queryText = `${query.title} ${query.artist || ''}`;
+  const candidateText = `${rawTitle} ${getAlbumName(song)}`;
+  const penalties = VERSION_KEYWORDS
+    .filter(keyword => keyword.pattern.test(candidateText) && !keyword.pattern.test(queryText))
+    .map(keyword => keyword.name);
+
+  let weighted = WEIGHTS.title * title;
+  let totalWeight = WEIGHTS.title;
+  if (artist !== undefined) {
+    weighted += WEIGHTS.artist * artist;
+    totalWeight += WEIGHTS.artist;
+  }
+  if (duration !== undefined) {
+    weighted += WEIGHTS.duration * duration;
+    totalWeight += WEIGHTS.duration;
+  }
+
+  const score = Math.max(0, weighted / totalWeight - PENALTY * penalties.length);
+
+  return {
+    score: round(score),
+    title: round(title),
+    ...(artist !== undefined && { artist: round(artist) }),
+    ...(duration !== undefined && { duration: round(duration) }),
+    penalties
+  };
+}
+
+/**
+ * 按得分从高到低排列候选，得分相同时保持上游顺序
+ * @param query 搜索意图
+ * @param songs 上游搜索结果
+ */
+export function rankCandidates(query: CandidateQuery, songs: ProviderSong[]): RankedCandidate[] {
+  return songs
+    .map((song, index) => ({ song, index, score: scoreCandidate(query, song) }))
+    .sort((a, b) => b.score.score - a.score.score || a.index - b.index);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
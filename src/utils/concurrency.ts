@@ -0,0 +1,28 @@
+/**
+ * 以有限并发处理数组中的每一项，结果顺序与输入一致
+ * @param items 待处理的数组
+ * @param limit 最大并发数
+ * @param fn 处理函数
+ * @returns 与输入顺序一致的结果数组
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  // 每个工作者依次领取下一项，直到全部处理完
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+}
@@ -0,0 +1,155 @@
+import { config } from '../config/env';
+import { ApiError } from './errors';
+
+// 客户端 timeout 参数允许的最小值(毫秒)
+const MIN_DEADLINE_BUDGET = 1000;
+
+/**
+ * 请求截止时间
+ * 由路由为每个请求创建，随调用链传给各个服务方法和上游请求，每一步只能使用剩余的时间；
+ * 到期或被取消时通过 signal 中止仍在进行的请求
+ */
+export class Deadline {
+  readonly expiresAt: number;
+  private readonly controller = new AbortController();
+  private timer: NodeJS.Timeout | null = null;
+  private detachParent: (() => void) | null = null;
+
+  /**
+   * @param budget 可用时间(毫秒)
+   * @param parent 上级取消信号，上级取消时一并取消
+   */
+  constructor(budget: number, parent?: AbortSignal) {
+    this.expiresAt = Date.now() + Math.max(0, budget);
+
+    // 没有剩余时间时立即取消，后续步骤不再发起请求
+    if (budget <= 0 || parent?.aborted) {
+      this.controller.abort();
+      return;
+    }
+
+    this.timer = setTimeout(() => this.cancel(), budget);
+    this.timer.unref();
+
+    if (parent) {
+      const onAbort = () => this.cancel();
+      parent.addEventListener('abort', onAbort, { once: true });
+      this.detachParent = () => parent.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * 取消信号，到期或被取消时触发 AbortError
+   */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * 是否已到期或被取消
+   */
+  get expired(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  /**
+   * 剩余时间(毫秒)
+   */
+  remaining(): number {
+    return this.expired ? 0 : Math.max(0, this.expiresAt - Date.now());
+  }
+
+  /**
+   * 为其中一步创建子截止时间，不超过剩余时间，用完后需要调用 dispose
+   * 剩余时间不足 maxBudget 时不另设定时器，随本截止时间一起取消，
+   * 因此子步骤先于本截止时间到期，说明是该步骤自己超时
+   * @param maxBudget 该步骤最多使用的时间(毫秒)
+   */
+  child(maxBudget?: number): Deadline {
+    const remaining = this.remaining();
+    const capped = Boolean(maxBudget && maxBudget > 0 && maxBudget < remaining);
+    const step = new Deadline(capped ? maxBudget! : remaining, this.signal);
+    if (!capped) {
+      step.clearTimer();
+    }
+    return step;
+  }
+
+  /**
+   * 立即取消，中止仍在进行的请求
+   */
+  cancel(): void {
+    this.dispose();
+    if (!this.controller.signal.aborted) {
+      this.controller.abort();
+    }
+  }
+
+  /**
+   * 请求结束后释放定时器和上级信号的监听，不会中止请求
+   */
+  dispose(): void {
+    this.clearTimer();
+    if (this.detachParent) {
+      this.detachParent();
+      this.detachParent = null;
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+/**
+ * 在请求截止时间内等待一个不受其控制的任务，如合并的并发请求共用的加载过程；
+ * 截止时间到了只是不再等待并返回超时，任务本身继续进行，其他请求仍可使用其结果
+ * @param deadline 请求截止时间，未传入时一直等待
+ * @param task 启动任务，截止时间已到时不再启动
+ * @returns 任务结果
+ * @throws ApiError 请求截止时间已到时
+ */
+export async function waitWithin<T>(deadline: Deadline | undefined, task: () => Promise<T>): Promise<T> {
+  if (!deadline) {
+    return task();
+  }
+  if (deadline.expired) {
+    throw ApiError.timeout('请求超时');
+  }
+
+  const signal = deadline.signal;
+  let onAbort: () => void = () => { };
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(ApiError.timeout('请求超时'));
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+  try {
+    return await Promise.race([task(), aborted]);
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * 根据客户端的 timeout 参数确定请求可用的时间
+ * 未提供时使用 REQUEST_TIMEOUT，提供时限制在 1000 毫秒到 REQUEST_DEADLINE_MAX 之间
+ * @param hint 客户端期望的超时时间(毫秒)
+ * @returns 可用时间(毫秒)
+ * @throws ApiError timeout 参数格式不正确时
+ */
+export function resolveDeadlineBudget(hint?: string | number): number {
+  if (hint === undefined || hint === null || hint === '') {
+    return config.REQUEST_TIMEOUT || 15000;
+  }
+
+  const value = Number(hint);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw ApiError.validation('timeout 参数应为正整数(毫秒)');
+  }
+
+  return Math.min(Math.max(value, MIN_DEADLINE_BUDGET), config.REQUEST_DEADLINE_MAX);
+}
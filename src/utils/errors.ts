@@ -7,6 +7,8 @@ export enum ErrorType {
   API = 'API_ERROR',
   RATE_LIMIT = 'RATE_LIMIT_ERROR',
   TIMEOUT = 'TIMEOUT_ERROR',
+  UNAVAILABLE = 'SERVICE_UNAVAILABLE_ERROR',
+  UPSTREAM_SCHEMA = 'UPSTREAM_SCHEMA_ERROR',
   UNKNOWN = 'UNKNOWN_ERROR'
 }
 
@@ -62,6 +64,20 @@ export class ApiError extends Error {
     return new ApiError(message, ErrorType.TIMEOUT, 504, data);
   }
 
+  /**
+   * 创建服务暂不可用错误（如音源熔断中）
+   */
+  static unavailable(message: string = '服务暂时不可用，请稍后再试', data?: any): ApiError {
+    return new ApiError(message, ErrorType.UNAVAILABLE, 503, data);
+  }
+
+  /**
+   * 创建上游数据结构错误（上游返回的数据与约定的结构不一致）
+   */
+  static upstreamSchema(message: string = '上游返回的数据格式异常', data?: any): ApiError {
+    return new ApiError(message, ErrorType.UPSTREAM_SCHEMA, 502, data);
+  }
+
   /**
    * 创建速率限制错误
    */
@@ -0,0 +1,128 @@
+import { TrackId, assertTrackOperation, parseTrackId } from './track-id';
+
+/**
+ * 音乐平台分享链接解析
+ * 从网易云、QQ音乐、酷狗、酷我、B站的歌曲页面链接中提取音乐源和曲目ID
+ */
+
+/**
+ * 单个平台的链接规则
+ */
+interface ShareLinkRule {
+  source: string;                          // 对应的音乐源
+  hosts: RegExp;                           // 适用的域名
+  extract: (url: URL) => string | null;    // 提取曲目ID，无法识别时返回null
+}
+
+// 各平台短链接的域名，需要跟随跳转才能得到歌曲页面
+const SHORT_LINK_HOSTS = /^(163cn\.tv|163cn\.link|c6\.y\.qq\.com|c\.y\.qq\.com|url\.cn|t\d*\.kugou\.com|b23\.tv)$/;
+
+/**
+ * 读取查询参数，网易云等单页应用把参数放在 # 之后，同时检查两处
+ */
+function getParam(url: URL, name: string): string | null {
+  const direct = url.searchParams.get(name);
+  if (direct) {
+    return direct;
+  }
+
+  const hash = url.hash.replace(/^#/, '');
+  const query = hash.includes('?') ? hash.slice(hash.indexOf('?') + 1) : hash;
+  return new URLSearchParams(query).get(name);
+}
+
+/**
+ * 在路径(含 # 之后的路径)中匹配曲目ID
+ */
+function matchPath(url: URL, pattern: RegExp): string | null {
+  const match = pattern.exec(url.pathname) || pattern.exec(url.hash.replace(/^#/, '').split('?')[0]);
+  return match ? match[1] ?? match[0] : null;
+}
+
+const SHARE_LINK_RULES: ShareLinkRule[] = [
+  {
+    // music.163.com/#/song?id=1859245776、y.music.163.com/m/song?id=...、music.163.com/song/1859245776
+    source: 'netease',
+    hosts: /(^|\.)music\.163\.com$/,
+    extract: url => (matchPath(url, /\/song\/?$/) ? getParam(url, 'id') : null) || matchPath(url, /\/song\/(\d+)/)
+  },
+  {
+    // y.qq.com/n/ryqq/songDetail/0039MnYb0qxYhV、y.qq.com/n/yqq/song/0039MnYb0qxYhV.html、
+    // i.y.qq.com/v8/playsong.html?songmid=...
+    source: 'tencent',
+    hosts: /(^|\.)y\.qq\.com$/,
+    extract: url => matchPath(url, /\/songDetail\/([0-9A-Za-z]+)/)
+      || matchPath(url, /\/yqq\/song\/([0-9A-Za-z]+)\.html/)
+      || getParam(url, 'songmid')
+      || getParam(url, 'songid')
+  },
+  {
+    // www.kugou.com/song/#hash=4E6DD2C8...&album_id=...、m.kugou.com/share/song.html?hash=...
+    source: 'kugou',
+    hosts: /(^|\.)kugou\.com$/,
+    extract: url => getParam(url, 'hash')
+  },
+  {
+    // www.kuwo.cn/play_detail/228908、m.kuwo.cn/newh5app/play_detail/228908、m.kuwo.cn/yinyue/228908
+    source: 'kuwo',
+    hosts: /(^|\.)kuwo\.cn$/,
+    extract: url => matchPath(url, /\/(?:play_detail|yinyue)\/(\d+)/) || getParam(url, 'rid')
+  },
+  {
+    // www.bilibili.com/audio/au1234567、www.bilibili.com/video/BV1xx411c7mD
+    source: 'bilibili',
+    hosts: /(^|\.)bilibili\.com$/,
+    extract: url => matchPath(url, /\/audio\/(au\d+)/) || matchPath(url, /\/video\/(BV[0-9A-Za-z]{10})/)
+  }
+];
+
+/**
+ * 从用户粘贴的分享文案中提取第一个链接
+ * 如 "分享歌曲: 晴天 https://163cn.tv/xxxx (来自@网易云音乐)"
+ * @param text 分享文案或链接
+ * @returns 链接，没有时返回null
+ */
+export function extractUrl(text: string): string | null {
+  const match = /https?:\/\/[^\s"'<>()（）【】，。]+/i.exec(String(text || ''));
+  return match ? match[0] : null;
+}
+
+/**
+ * 是否为需要跟随跳转的短链接
+ */
+export function isShortLink(url: URL): boolean {
+  return SHORT_LINK_HOSTS.test(url.hostname.toLowerCase());
+}
+
+/**
+ * 是否为可以解析或跟随跳转的平台域名，跳转到其他域名时不再继续
+ */
+export function isShareLinkHost(url: URL): boolean {
+  const hostname = url.hostname.toLowerCase();
+  return (url.protocol === 'http:' || url.protocol === 'https:')
+    && (isShortLink(url) || SHARE_LINK_RULES.some(rule => rule.hosts.test(hostname)));
+}
+
+/**
+ * 解析歌曲页面链接
+ * @param url 链接
+ * @returns 曲目标识，不是已知平台的歌曲页面时返回null
+ * @throws ApiError 提取到的ID不符合该音乐源的格式，或该音乐源不能获取播放链接时
+ */
+export function parseShareLink(url: URL): TrackId | null {
+  const hostname = url.hostname.toLowerCase();
+  const rule = SHARE_LINK_RULES.find(item => item.hosts.test(hostname));
+  if (!rule) {
+    return null;
+  }
+
+  const id = rule.extract(url);
+  if (!id) {
+    return null;
+  }
+
+  // 解析链接是为了获取播放链接，不支持的音乐源直接拒绝
+  const track = parseTrackId(id, rule.source);
+  assertTrackOperation(track, 'url');
+  return track;
+}
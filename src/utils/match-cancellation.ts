@@ -0,0 +1,75 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { EventEmitter } from 'events';
+import * as path from 'path';
+
+/**
+ * 解灰模块匹配的取消
+ *
+ * 解灰模块的 request() 支持传入 CancelRequest 中止请求，但 match() 和各音源的实现都不会传入。
+ * 加载解灰模块前替换其 request 模块，未传入 CancelRequest 时使用当前匹配的取消令牌，
+ * 令牌通过 AsyncLocalStorage 随异步调用链传递，不同请求的匹配互不影响
+ */
+
+// 与解灰模块 src/cancel.js 的 CancelRequest 接口一致
+interface CancelRequest extends EventEmitter {
+  cancelled: boolean;
+  cancel(): void;
+}
+
+// 当前匹配的取消令牌
+const currentCancelRequest = new AsyncLocalStorage<CancelRequest>();
+
+// 标记已替换过的 request 模块
+const PATCHED = Symbol.for('unm-server.match-cancellation');
+
+/**
+ * 替换解灰模块的 request 模块，需在加载解灰模块之前调用
+ * @param packageDir 解灰模块的目录
+ */
+export function installMatchCancellation(packageDir: string): void {
+  const requestPath = require.resolve(path.join(packageDir, 'src', 'request.js'));
+  const original = require(requestPath);
+  const cached = require.cache[requestPath];
+  if (!cached || typeof original !== 'function' || original[PATCHED]) {
+    return;
+  }
+
+  const patched = (method: string, url: string, headers?: unknown, body?: unknown, proxy?: unknown, cancelRequest?: CancelRequest) =>
+    original(method, url, headers, body, proxy, cancelRequest ?? currentCancelRequest.getStore());
+  cached.exports = Object.assign(patched, original, { [PATCHED]: true });
+}
+
+/**
+ * 执行一次匹配，取消信号触发时中止匹配发出的所有上游请求并立即返回
+ * @param signal 取消信号
+ * @param match 调用解灰模块的匹配函数
+ * @throws 取消信号的 reason（AbortError）
+ */
+export async function runCancellableMatch<T>(signal: AbortSignal, match: () => Promise<T>): Promise<T> {
+  if (signal.aborted) {
+    throw signal.reason;
+  }
+
+  const { CancelRequest } = require('@unblockneteasemusic/server/src/cancel');
+  const cancelRequest: CancelRequest = new CancelRequest();
+
+  let onAbort: () => void = () => { };
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => {
+      cancelRequest.cancel();
+      // request.js 注册监听时误用了 cancel 模块对象作为事件名，cancel() 触发不到，逐个触发已注册的事件
+      for (const event of cancelRequest.eventNames()) {
+        cancelRequest.emit(event);
+      }
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+  try {
+    // 部分音源（如 yt-dlp）不经过 request()，取消后不再等待其结果
+    return await Promise.race([currentCancelRequest.run(cancelRequest, match), aborted]);
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+  }
+}
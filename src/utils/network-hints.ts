@@ -0,0 +1,86 @@
+import { ApiError } from './errors';
+
+/**
+ * 网络类型，与 QualityAssessmentService / SourceRankingService 的策略一致
+ */
+export type NetworkType = 'wifi' | '4g' | '3g' | '2g' | 'unknown';
+
+/**
+ * 本次请求采用的网络策略
+ */
+export interface NetworkPolicy {
+  type: NetworkType;
+  via: 'query' | 'client-hints' | 'default'; // 网络类型的来源
+  saveData: boolean;                          // 客户端是否开启了省流量模式
+  maxBr: number;                              // 该网络下的音质上限
+}
+
+export const NETWORK_TYPES: NetworkType[] = ['wifi', '4g', '3g', '2g', 'unknown'];
+
+// 各网络类型的音质上限，按网速从快到慢排列
+const NETWORK_MAX_BITRATES: Record<NetworkType, number> = {
+  wifi: 999,
+  '4g': 320,
+  '3g': 192,
+  '2g': 128,
+  unknown: 999
+};
+
+// ECT 客户端提示到网络类型的映射
+const ECT_NETWORK_TYPES: Record<string, NetworkType> = {
+  'slow-2g': '2g',
+  '2g': '2g',
+  '3g': '3g',
+  '4g': '4g'
+};
+
+// 开启省流量模式时最多使用的网络档位
+const SAVE_DATA_NETWORK: NetworkType = '3g';
+
+/**
+ * 取两种网络类型中较慢的一种
+ */
+function slowerOf(a: NetworkType, b: NetworkType): NetworkType {
+  if (a === 'unknown') {
+    return b;
+  }
+  if (b === 'unknown') {
+    return a;
+  }
+  return NETWORK_MAX_BITRATES[a] <= NETWORK_MAX_BITRATES[b] ? a : b;
+}
+
+/**
+ * 根据 network 参数或 ECT、Save-Data 客户端提示确定网络策略
+ * 显式的 network 参数优先；否则取 ECT 与 Save-Data 中更保守的一个
+ * @param network 请求参数中的网络类型
+ * @param headers 请求头
+ * @returns 网络策略
+ */
+export function resolveNetworkPolicy(
+  network: string | undefined,
+  headers: Record<string, string | string[] | undefined>
+): NetworkPolicy {
+  const saveData = String(headers['save-data'] || '').trim().toLowerCase() === 'on';
+
+  if (network) {
+    const type = network.trim().toLowerCase() as NetworkType;
+    if (!NETWORK_TYPES.includes(type)) {
+      throw ApiError.validation(`无效的网络类型: ${network}，支持的值: ${NETWORK_TYPES.join(', ')}`);
+    }
+    return { type, via: 'query', saveData, maxBr: NETWORK_MAX_BITRATES[type] };
+  }
+
+  const ect = ECT_NETWORK_TYPES[String(headers['ect'] || '').trim().toLowerCase()];
+  let type: NetworkType = ect || 'unknown';
+  if (saveData) {
+    type = slowerOf(type, SAVE_DATA_NETWORK);
+  }
+
+  return {
+    type,
+    via: ect || saveData ? 'client-hints' : 'default',
+    saveData,
+    maxBr: NETWORK_MAX_BITRATES[type]
+  };
+}
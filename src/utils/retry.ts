@@ -0,0 +1,129 @@
+import { config } from '../config/env';
+import { ApiError, ErrorType } from './errors';
+
+/**
+ * 重试选项
+ */
+export interface RetryOptions {
+  attempts?: number;    // 最大重试次数（不含首次请求）
+  baseDelay?: number;   // 退避基准时间(毫秒)
+  maxDelay?: number;    // 单次退避最长时间(毫秒)
+  signal?: AbortSignal; // 取消信号，取消后不再重试
+}
+
+// 可重试的底层网络错误码
+const TRANSIENT_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'EPIPE',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT'
+]);
+
+/**
+ * 判断错误是否为临时性错误（上游5xx/429、连接重置等），值得重试
+ * @param error 捕获的错误
+ * @returns 是否可重试
+ */
+export function isTransientError(error: any): boolean {
+  if (!error) {
+    return false;
+  }
+
+  // 上游返回的HTTP状态码
+  if (error instanceof ApiError) {
+    const statusCode = Number(error.data?.statusCode);
+    return statusCode >= 500 || statusCode === 429;
+  }
+
+  // Node.js fetch 的网络错误会把原始错误放在 cause 中
+  const code = error.code || error.cause?.code;
+  if (code && TRANSIENT_ERROR_CODES.has(code)) {
+    return true;
+  }
+
+  return error.name === 'TypeError' && error.message === 'fetch failed';
+}
+
+/**
+ * 判断错误是否为超时
+ * @param error 捕获的错误
+ * @returns 是否为超时错误
+ */
+export function isTimeoutError(error: any): boolean {
+  if (!error) {
+    return false;
+  }
+
+  if (error instanceof ApiError) {
+    return error.type === ErrorType.TIMEOUT;
+  }
+
+  const message = String(error.message || '');
+  return error.name === 'AbortError' || message.includes('timeout') || message.includes('超时');
+}
+
+/**
+ * 计算第 attempt 次重试前的等待时间（指数退避 + 全抖动）
+ * @param attempt 重试序号，从1开始
+ * @param baseDelay 退避基准时间(毫秒)
+ * @param maxDelay 单次退避最长时间(毫秒)
+ * @returns 等待时间(毫秒)
+ */
+export function getBackoffDelay(attempt: number, baseDelay: number, maxDelay: number): number {
+  const ceiling = Math.min(maxDelay, baseDelay * Math.pow(2, attempt - 1));
+  return Math.floor(Math.random() * ceiling);
+}
+
+/**
+ * 可被取消的等待
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 执行请求，遇到临时性错误时按指数退避重试
+ * 超时、参数错误等非临时性错误会直接抛出
+ * @param fn 实际请求函数
+ * @param options 重试选项，未指定时使用配置中的 RETRY_* 设置
+ * @returns 请求结果
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const attempts = options.attempts ?? config.RETRY_ATTEMPTS;
+  const baseDelay = options.baseDelay ?? config.RETRY_BASE_DELAY;
+  const maxDelay = options.maxDelay ?? config.RETRY_MAX_DELAY;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= attempts || options.signal?.aborted || !isTransientError(error)) {
+        throw error;
+      }
+
+      const delay = getBackoffDelay(attempt + 1, baseDelay, maxDelay);
+      console.warn(`上游请求失败，${delay}ms 后进行第 ${attempt + 1} 次重试:`, error instanceof Error ? error.message : error);
+      await sleep(delay, options.signal);
+    }
+  }
+}
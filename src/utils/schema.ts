@@ -0,0 +1,160 @@
+/**
+ * 轻量的运行时结构校验工具
+ * 用于校验上游返回的JSON，校验通过后得到带类型的数据
+ */
+
+/**
+ * 单个字段的校验问题
+ */
+export interface SchemaIssue {
+  path: string;     // 字段路径，如 songs[0].name
+  expected: string; // 期望的类型
+  received: string; // 实际的类型
+}
+
+/**
+ * 结构定义：校验 value，发现的问题追加到 issues，返回规范化后的值
+ */
+export type Schema<T> = (value: unknown, path: string, issues: SchemaIssue[]) => T;
+
+/**
+ * 获取值的类型描述，用于记录问题
+ */
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * 字符串
+ */
+export function string(): Schema<string> {
+  return (value, path, issues) => {
+    if (typeof value !== 'string') {
+      issues.push({ path, expected: 'string', received: describe(value) });
+      return '';
+    }
+    return value;
+  };
+}
+
+/**
+ * 数字，上游常以字符串返回数字，可解析的数字字符串也视为合法
+ */
+export function number(): Schema<number> {
+  return (value, path, issues) => {
+    const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+      issues.push({ path, expected: 'number', received: describe(value) });
+      return 0;
+    }
+    return parsed;
+  };
+}
+
+/**
+ * 字符串或数字形式的ID，统一转为字符串
+ */
+export function id(): Schema<string> {
+  return (value, path, issues) => {
+    if ((typeof value === 'string' && value !== '') || (typeof value === 'number' && Number.isFinite(value))) {
+      return String(value);
+    }
+    issues.push({ path, expected: 'id', received: describe(value) });
+    return '';
+  };
+}
+
+/**
+ * 可选字段，undefined 和 null 视为缺失
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path, issues) => (value === undefined || value === null ? undefined : schema(value, path, issues));
+}
+
+/**
+ * 数组，逐项校验
+ */
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, expected: 'array', received: describe(value) });
+      return [];
+    }
+    return value.map((element, index) => item(element, joinPath(path, index), issues));
+  };
+}
+
+/**
+ * 满足任一结构即可，都不满足时记录为一个问题
+ */
+export function union<A, B>(a: Schema<A>, b: Schema<B>): Schema<A | B> {
+  return (value, path, issues) => {
+    const first: SchemaIssue[] = [];
+    const result = a(value, path, first);
+    if (first.length === 0) {
+      return result;
+    }
+
+    const second: SchemaIssue[] = [];
+    const fallback = b(value, path, second);
+    if (second.length === 0) {
+      return fallback;
+    }
+
+    issues.push({ path, expected: `${first[0].expected} | ${second[0].expected}`, received: describe(value) });
+    return result;
+  };
+}
+
+/**
+ * 对象，只保留声明过的字段
+ * passthrough 为true时保留未声明的字段，适合需要原样返回给客户端的数据
+ */
+export function object<T extends object>(
+  shape: { [K in keyof T]: Schema<T[K]> },
+  options: { passthrough?: boolean } = {}
+): Schema<T> {
+  return (value, path, issues) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      issues.push({ path: path || '(root)', expected: 'object', received: describe(value) });
+      return {} as T;
+    }
+
+    const input = value as Record<string, unknown>;
+    const result: Record<string, unknown> = options.passthrough ? { ...input } : {};
+    for (const key of Object.keys(shape) as Array<keyof T & string>) {
+      const parsed = shape[key](input[key], joinPath(path, key), issues);
+      if (parsed === undefined) {
+        delete result[key];
+      } else {
+        result[key] = parsed;
+      }
+    }
+    return result as T;
+  };
+}
+
+/**
+ * 校验数据
+ * @param schema 结构定义
+ * @param value 待校验的数据
+ * @returns 规范化后的数据及发现的问题
+ */
+export function validate<T>(schema: Schema<T>, value: unknown): { value: T; issues: SchemaIssue[] } {
+  const issues: SchemaIssue[] = [];
+  const parsed = schema(value, '', issues);
+  return { value: parsed, issues };
+}
@@ -0,0 +1,135 @@
+import { ApiError } from './errors';
+import { SourceOperation, findSource, getCatalogCode, getSourceDefinition, getTrackIdPatterns, supportsOperation } from '../config/source-registry';
+
+/**
+ * 跨平台的曲目标识
+ * 规范格式为 source:id，如 netease:1859245776、tencent:0039MnYb0qxYhV；
+ * 不带前缀的ID沿用旧规则，按 source 参数或网易云处理
+ */
+export interface TrackId {
+  source: string;     // 音乐源
+  id: string;         // 该音乐源内的ID
+  canonical: string;  // 规范格式 source:id
+  explicit: boolean;  // 是否通过前缀或 source 参数指明了音乐源
+}
+
+// 不指明音乐源时的默认音乐源
+export const DEFAULT_TRACK_SOURCE = 'netease';
+
+// 各音乐源的曲目ID格式，由音源注册表派生
+const TRACK_ID_PATTERNS = getTrackIdPatterns();
+
+// 专辑图ID等资源ID的格式各音乐源差异较大，只做通用的字符检查
+const RESOURCE_ID_PATTERN = /^[0-9A-Za-z_-]{1,64}$/;
+
+// 各操作的说明，用于错误提示
+const OPERATION_LABELS: Record<SourceOperation, string> = {
+  match: '解灰匹配',
+  url: '获取播放链接',
+  search: '搜索',
+  lyric: '获取歌词',
+  pic: '获取专辑图'
+};
+
+// 支持的音乐源
+export const TRACK_SOURCES = Object.keys(TRACK_ID_PATTERNS);
+
+/**
+ * 规范化音乐源名称
+ * @param source 音乐源
+ * @returns 规范的音乐源名称，不支持时返回null
+ */
+export function normalizeTrackSource(source: string | undefined | null): string | null {
+  // 别名（如 qq、youtube）统一为音乐API使用的名称
+  const code = findSource(source);
+  const resolved = code ? getCatalogCode(code) : null;
+  return resolved && TRACK_ID_PATTERNS[resolved] ? resolved : null;
+}
+
+/**
+ * 拆分ID中的音乐源前缀，并确定最终的音乐源
+ */
+function splitId(value: string | number, source?: string | null): { source: string; id: string; explicit: boolean } {
+  const raw = String(value ?? '').trim();
+  if (!raw) {
+    throw ApiError.validation('缺少必要参数 id');
+  }
+
+  const paramSource = source ? normalizeTrackSource(source) : null;
+  if (source && !paramSource) {
+    throw ApiError.validation(`不支持的音乐源: ${source}，支持的值: ${TRACK_SOURCES.join(', ')}`);
+  }
+
+  const separator = raw.indexOf(':');
+  if (separator === -1) {
+    return { source: paramSource || DEFAULT_TRACK_SOURCE, id: raw, explicit: Boolean(paramSource) };
+  }
+
+  const prefix = raw.slice(0, separator);
+  const prefixSource = normalizeTrackSource(prefix);
+  if (!prefixSource) {
+    throw ApiError.validation(`不支持的音乐源: ${prefix}，支持的值: ${TRACK_SOURCES.join(', ')}`);
+  }
+  if (paramSource && paramSource !== prefixSource) {
+    throw ApiError.validation(`ID前缀 ${prefix} 与 source 参数 ${source} 不一致`);
+  }
+
+  return { source: prefixSource, id: raw.slice(separator + 1).trim(), explicit: true };
+}
+
+/**
+ * 解析并校验曲目ID
+ * @param value 曲目ID，可以是 source:id 或不带前缀的ID
+ * @param source source 参数，不带前缀时决定音乐源，带前缀时必须与前缀一致
+ * @returns 曲目标识
+ */
+export function parseTrackId(value: string | number, source?: string | null): TrackId {
+  const parsed = splitId(value, source);
+
+  if (!TRACK_ID_PATTERNS[parsed.source].test(parsed.id)) {
+    throw ApiError.validation(parsed.source === DEFAULT_TRACK_SOURCE
+      ? '无效的ID参数，网易云歌曲ID应为数字'
+      : `无效的${parsed.source}歌曲ID: ${parsed.id}`);
+  }
+
+  return { ...parsed, canonical: formatTrackId(parsed.source, parsed.id) };
+}
+
+/**
+ * 校验曲目的音乐源是否支持指定操作
+ * 如B站音乐的ID格式有效，但只能用于解灰匹配，不能直接获取播放链接
+ * @param track 曲目标识
+ * @param operation 操作
+ * @throws ApiError 音乐源不支持该操作时
+ */
+export function assertTrackOperation(track: TrackId, operation: SourceOperation): void {
+  const code = findSource(track.source);
+  if (code && !supportsOperation(code, operation)) {
+    throw ApiError.validation(`${getSourceDefinition(code).name}暂不支持${OPERATION_LABELS[operation]}: ${track.canonical}`);
+  }
+}
+
+/**
+ * 解析专辑图等资源的ID，只做通用的字符检查
+ * @param value 资源ID，可以是 source:id 或不带前缀的ID
+ * @param source source 参数
+ * @returns 资源标识
+ */
+export function parseResourceId(value: string | number, source?: string | null): TrackId {
+  const parsed = splitId(value, source);
+
+  if (!RESOURCE_ID_PATTERN.test(parsed.id)) {
+    throw ApiError.validation(`无效的ID参数: ${parsed.id}`);
+  }
+
+  return { ...parsed, canonical: formatTrackId(parsed.source, parsed.id) };
+}
+
+/**
+ * 生成规范格式的曲目ID
+ * @param source 音乐源
+ * @param id 该音乐源内的ID
+ */
+export function formatTrackId(source: string, id: string): string {
+  return `${source}:${id}`;
+}
@@ -0,0 +1,155 @@
+/**
+ * 播放链接过期时间解析
+ * 音源返回的CDN链接大多带有时效签名，过期后CDN返回403，缓存时间不能超过链接本身的有效期
+ */
+
+/**
+ * 从链接中读取过期时间(毫秒时间戳)，无法识别时返回null
+ */
+type ExpiryParser = (url: URL, now: number) => number | null;
+
+/**
+ * 单个音源的过期时间规则
+ */
+interface SourceExpiryRule {
+  sources: string[];  // 适用的音源名称
+  hosts: RegExp;      // 未指明音源时按域名识别
+  parse: ExpiryParser;
+}
+
+// 北京时间与UTC的时差(毫秒)，网易云、酷狗链接路径中的时间为北京时间
+const CST_OFFSET = 8 * 60 * 60 * 1000;
+
+// QQ音乐 vkey 不携带时间，按签发起1小时保守估计
+const VKEY_LIFETIME = 60 * 60 * 1000;
+
+// wsTime 为签发时间时的默认有效期
+const WS_TIME_LIFETIME = 60 * 60 * 1000;
+
+/**
+ * 解析秒或毫秒形式的Unix时间戳
+ */
+function parseUnixTime(value: string | null): number | null {
+  if (!value || !/^\d{10}(\d{3})?$/.test(value)) {
+    return null;
+  }
+  return value.length === 13 ? Number(value) : Number(value) * 1000;
+}
+
+/**
+ * 解析路径中的北京时间，如 20240101123000
+ */
+function parseCstPathTime(url: URL, digits: 12 | 14): number | null {
+  const pattern = new RegExp(`/(\\d{4})(\\d{2})(\\d{2})(\\d{2})(\\d{2})${digits === 14 ? '(\\d{2})' : ''}/`);
+  const match = pattern.exec(url.pathname);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second = '0'] = match;
+  const time = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)) - CST_OFFSET;
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * 通用的查询参数签名，与音源无关
+ */
+const COMMON_PARSERS: ExpiryParser[] = [
+  // AWS S3 预签名: X-Amz-Date + X-Amz-Expires
+  url => {
+    const date = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(url.searchParams.get('X-Amz-Date') || '');
+    const expires = Number(url.searchParams.get('X-Amz-Expires'));
+    if (!date || !(expires > 0)) {
+      return null;
+    }
+    const [, year, month, day, hour, minute, second] = date.map(Number);
+    return Date.UTC(year, month - 1, day, hour, minute, second) + expires * 1000;
+  },
+  // CloudFront、OSS 等: Expires 为截止时间
+  url => parseUnixTime(url.searchParams.get('Expires') || url.searchParams.get('expires') || url.searchParams.get('expire')),
+  // 阿里云CDN A型鉴权: auth_key={截止时间}-{随机数}-{uid}-{md5}
+  url => parseUnixTime((url.searchParams.get('auth_key') || '').split('-')[0] || null),
+  // 腾讯云CDN: sign + 十六进制的截止时间 t
+  url => {
+    const t = url.searchParams.get('t');
+    return url.searchParams.has('sign') && t && /^[0-9a-f]{8}$/i.test(t) ? parseInt(t, 16) * 1000 : null;
+  },
+  // 网宿CDN: wsTime 为十进制或十六进制时间，已过去时视为签发时间
+  (url, now) => {
+    const wsTime = url.searchParams.get('wsTime');
+    if (!wsTime) {
+      return null;
+    }
+    const time = /^\d{10}$/.test(wsTime) ? Number(wsTime) * 1000
+      : /^[0-9a-f]{8}$/i.test(wsTime) ? parseInt(wsTime, 16) * 1000
+        : null;
+    if (time === null) {
+      return null;
+    }
+    return time > now ? time : time + WS_TIME_LIFETIME;
+  }
+];
+
+/**
+ * 各音源特有的链接格式
+ */
+const SOURCE_RULES: SourceExpiryRule[] = [
+  {
+    // m701.music.126.net/20240101123000/{hash}/...
+    sources: ['netease'],
+    hosts: /(^|\.)music\.126\.net$/,
+    parse: url => parseCstPathTime(url, 14)
+  },
+  {
+    // webfs.tx.kugou.com/202401011230/{hash}/...
+    sources: ['kugou'],
+    hosts: /(^|\.)kugou\.com$/,
+    parse: url => parseCstPathTime(url, 12)
+  },
+  {
+    sources: ['tencent', 'qq'],
+    hosts: /(^|\.)(qqmusic\.qq\.com|music\.tc\.qq\.com)$/,
+    parse: (url, now) => (url.searchParams.has('vkey') ? now + VKEY_LIFETIME : null)
+  },
+  {
+    // B站: deadline 为截止时间
+    sources: ['bilibili'],
+    hosts: /(^|\.)(bilivideo\.com|bilivideo\.cn|akamaized\.net)$/,
+    parse: url => parseUnixTime(url.searchParams.get('deadline'))
+  }
+];
+
+/**
+ * 读取播放链接的过期时间
+ * 同时匹配到多个规则时取最早的时间
+ * @param url 播放链接
+ * @param source 音乐源，未指定时按域名识别
+ * @param now 当前时间(毫秒)
+ * @returns 过期时间(毫秒时间戳)，链接不带时效签名时返回null
+ */
+export function getUrlExpiry(url: string, source?: string | null, now: number = Date.now()): number | null {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch (error) {
+    return null;
+  }
+
+  const hostname = target.hostname.toLowerCase();
+  const parsers = [
+    ...SOURCE_RULES
+      .filter(rule => (source && rule.sources.includes(source)) || rule.hosts.test(hostname))
+      .map(rule => rule.parse),
+    ...COMMON_PARSERS
+  ];
+
+  let expiresAt: number | null = null;
+  for (const parse of parsers) {
+    const time = parse(target, now);
+    if (time !== null && Number.isFinite(time) && (expiresAt === null || time < expiresAt)) {
+      expiresAt = time;
+    }
+  }
+
+  return expiresAt;
+}
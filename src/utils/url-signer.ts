@@ -0,0 +1,193 @@
+import crypto from 'crypto';
+import { config } from '../config/env';
+import { secureCompare } from './data-protection';
+
+/**
+ * 签名覆盖的播放参数
+ */
+export interface PlaybackParams {
+  id: string;
+  br?: string;
+  source?: string;
+}
+
+/**
+ * 签名后附加到链接上的查询参数
+ */
+export interface SignedPlaybackQuery extends PlaybackParams {
+  expires: string; // 过期时间(Unix秒)
+  sig: string;     // HMAC-SHA256签名
+  kf?: string;     // 绑定的API密钥指纹
+}
+
+/**
+ * 签名选项
+ */
+export interface SignOptions {
+  apiKey?: string; // 绑定的API密钥，密钥失效后链接随之失效
+  ttl?: number;    // 有效期(秒)，默认使用 SIGNED_URL_TTL
+}
+
+/**
+ * 签名验证结果
+ */
+export interface SignatureCheck {
+  valid: boolean;
+  reason?: string;
+}
+
+// 签名格式版本，变更签名内容时递增
+const SIGNATURE_VERSION = 'v1';
+
+/**
+ * 是否已配置签名密钥
+ */
+export function isUrlSigningEnabled(): boolean {
+  return Boolean(config.URL_SIGNING_SECRET);
+}
+
+/**
+ * 计算API密钥指纹，链接中只出现指纹而不暴露密钥本身
+ * @param apiKey API密钥
+ */
+export function getApiKeyFingerprint(apiKey: string): string {
+  return crypto.createHash('sha256').update(apiKey).digest('hex').slice(0, 16);
+}
+
+/**
+ * 计算签名
+ */
+function computeSignature(secret: string, params: PlaybackParams, expires: string, apiKey?: string): string {
+  const payload = [
+    SIGNATURE_VERSION,
+    params.id,
+    params.br || '',
+    params.source || '',
+    expires,
+    apiKey || ''
+  ].join('\n');
+
+  return crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * 解析密钥轮换时间，支持ISO时间或Unix秒
+ * 宽限期从配置的轮换时间开始计算，服务重启或进程重建不会重置
+ * @returns 毫秒时间戳，未配置或格式不正确时返回null
+ */
+function getRotatedAt(): number | null {
+  const value = config.URL_SIGNING_ROTATED_AT?.trim();
+  if (!value) {
+    return null;
+  }
+  const time = /^\d+$/.test(value) ? Number(value) * 1000 : Date.parse(value);
+  return Number.isFinite(time) ? time : null;
+}
+
+/**
+ * 当前可用于验证的密钥：当前密钥，以及宽限期内的旧密钥
+ * 未配置轮换时间时无法确定宽限期，不接受旧密钥
+ */
+function getVerificationSecrets(): string[] {
+  const secrets = config.URL_SIGNING_SECRET ? [config.URL_SIGNING_SECRET] : [];
+
+  const rotatedAt = getRotatedAt();
+  if (config.URL_SIGNING_PREVIOUS_SECRET && rotatedAt !== null &&
+    Date.now() - rotatedAt < config.URL_SIGNING_GRACE_PERIOD * 1000) {
+    secrets.push(config.URL_SIGNING_PREVIOUS_SECRET);
+  }
+
+  return secrets;
+}
+
+/**
+ * 为播放参数生成签名
+ * @param params 播放参数
+ * @param options 签名选项
+ * @returns 需要附加到链接上的查询参数
+ */
+export function signPlaybackParams(params: PlaybackParams, options: SignOptions = {}): SignedPlaybackQuery {
+  if (!config.URL_SIGNING_SECRET) {
+    throw new Error('未配置 URL_SIGNING_SECRET');
+  }
+
+  const expires = String(Math.floor(Date.now() / 1000) + (options.ttl ?? config.SIGNED_URL_TTL));
+
+  return {
+    id: params.id,
+    ...(params.br && { br: params.br }),
+    ...(params.source && { source: params.source }),
+    expires,
+    ...(options.apiKey && { kf: getApiKeyFingerprint(options.apiKey) }),
+    sig: computeSignature(config.URL_SIGNING_SECRET, params, expires, options.apiKey)
+  };
+}
+
+/**
+ * 生成带签名的完整播放链接
+ * @param path 路由路径，如 /v1/api/stream
+ * @param params 播放参数
+ * @param options 签名选项
+ * @returns 签名链接及过期时间
+ */
+export function buildSignedPlaybackUrl(path: string, params: PlaybackParams, options: SignOptions = {}) {
+  const query = signPlaybackParams(params, options);
+
+  return {
+    url: `${config.BASE_URL}${path}?${new URLSearchParams({ ...query }).toString()}`,
+    expiresAt: new Date(Number(query.expires) * 1000).toISOString()
+  };
+}
+
+/**
+ * 请求是否携带播放签名
+ * @param query 查询参数
+ */
+export function hasPlaybackSignature(query: unknown): boolean {
+  return Boolean(query && typeof query === 'object' && 'sig' in query);
+}
+
+/**
+ * 验证播放链接签名
+ * @param query 请求的查询参数
+ * @returns 验证结果
+ */
+export function verifyPlaybackSignature(query: Record<string, any>): SignatureCheck {
+  const secrets = getVerificationSecrets();
+  if (secrets.length === 0) {
+    return { valid: false, reason: '未启用链接签名' };
+  }
+
+  const { id, br, source, expires, sig, kf } = query;
+  if (!id || !sig || !expires || !/^\d+$/.test(String(expires))) {
+    return { valid: false, reason: '签名参数不完整' };
+  }
+
+  if (!/^[A-Za-z0-9_-]+$/.test(String(sig)) || (kf && !/^[0-9a-f]{16}$/.test(String(kf)))) {
+    return { valid: false, reason: '签名格式无效' };
+  }
+
+  if (Number(expires) * 1000 <= Date.now()) {
+    return { valid: false, reason: '链接已过期' };
+  }
+
+  // 绑定了API密钥的链接，只有密钥仍然有效时才能通过验证
+  let apiKey: string | undefined;
+  if (kf) {
+    apiKey = String(config.API_KEYS || '')
+      .split(',')
+      .map(key => key.trim())
+      .find(key => key && secureCompare(getApiKeyFingerprint(key), String(kf)));
+
+    if (!apiKey) {
+      return { valid: false, reason: 'API密钥已失效' };
+    }
+  }
+
+  const params: PlaybackParams = { id: String(id), br: br && String(br), source: source && String(source) };
+  const matched = secrets.some(secret =>
+    secureCompare(computeSignature(secret, params, String(expires), apiKey), String(sig))
+  );
+
+  return matched ? { valid: true } : { valid: false, reason: '签名不匹配' };
+}
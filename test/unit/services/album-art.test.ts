@@ -0,0 +1,72 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { AlbumArtService, getNearestPicSize, matchesEtag } from '../../../src/services/artwork/AlbumArtService';
+
+const IMAGE = Buffer.from('fake-jpeg-bytes');
+
+describe('AlbumArtService', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let requests = 0;
+    const service = new AlbumArtService();
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            requests++;
+            if (req.url === '/page.html') {
+                res.writeHead(200, { 'Content-Type': 'text/html' }).end('<html></html>');
+                return;
+            }
+            res.writeHead(200, { 'Content-Type': 'image/jpeg', 'Content-Length': IMAGE.length });
+            res.end(IMAGE);
+        });
+
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        requests = 0;
+        service.clear();
+    });
+
+    it('should download once and serve later requests from the byte cache', async () => {
+        const [first, second] = await Promise.all([
+            service.fetch(`${baseUrl}/cover.jpg`),
+            service.fetch(`${baseUrl}/cover.jpg`)
+        ]);
+        const third = await service.fetch(`${baseUrl}/cover.jpg`);
+
+        expect(requests).toBe(1);
+        expect(first.body.equals(IMAGE)).toBe(true);
+        expect(first.contentType).toBe('image/jpeg');
+        expect(first.etag).toMatch(/^"[0-9a-f]{40}"$/);
+        expect(second.etag).toBe(first.etag);
+        expect(third.etag).toBe(first.etag);
+    });
+
+    it('should reject non-image responses and non-http urls', async () => {
+        await expect(service.fetch(`${baseUrl}/page.html`)).rejects.toMatchObject({ statusCode: 502 });
+        await expect(service.fetch('file:///etc/passwd')).rejects.toThrow('不支持的图片地址协议');
+    });
+
+    it('should map arbitrary sizes to the nearest upstream size', () => {
+        expect(getNearestPicSize(64)).toBe(300);
+        expect(getNearestPicSize(300)).toBe(300);
+        expect(getNearestPicSize(301)).toBe(500);
+        expect(getNearestPicSize(1200)).toBe(500);
+        expect(getNearestPicSize(NaN)).toBe(300);
+    });
+
+    it('should match If-None-Match lists, weak tags and wildcards', () => {
+        expect(matchesEtag('"abc"', '"abc"')).toBe(true);
+        expect(matchesEtag('"x", W/"abc"', '"abc"')).toBe(true);
+        expect(matchesEtag('*', '"abc"')).toBe(true);
+        expect(matchesEtag('"x"', '"abc"')).toBe(false);
+        expect(matchesEtag(undefined, '"abc"')).toBe(false);
+    });
+});
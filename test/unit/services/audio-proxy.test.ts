@@ -0,0 +1,92 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import { AudioProxyService } from '../../../src/services/stream/AudioProxyService';
+
+const AUDIO = Buffer.from('0123456789abcdefghij');
+
+/**
+ * 读取整个流
+ */
+async function readAll(stream: Readable | null): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream || []) {
+        chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks).toString();
+}
+
+describe('AudioProxyService', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    const proxy = new AudioProxyService();
+
+    beforeAll(async () => {
+        // 简单的上游音频服务器，支持单段 Range
+        server = http.createServer((req, res) => {
+            if (req.url === '/missing.mp3') {
+                res.writeHead(404).end();
+                return;
+            }
+
+            const range = /^bytes=(\d+)-(\d*)$/.exec(req.headers.range || '');
+            if (!range) {
+                res.writeHead(200, { 'Content-Type': 'application/octet-stream', 'Content-Length': AUDIO.length });
+                res.end(AUDIO);
+                return;
+            }
+
+            const start = Number(range[1]);
+            const end = range[2] ? Number(range[2]) : AUDIO.length - 1;
+            if (start >= AUDIO.length) {
+                res.writeHead(416, { 'Content-Range': `bytes */${AUDIO.length}` }).end();
+                return;
+            }
+
+            res.writeHead(206, {
+                'Content-Type': 'audio/mpeg',
+                'Content-Length': end - start + 1,
+                'Content-Range': `bytes ${start}-${end}/${AUDIO.length}`,
+                'Accept-Ranges': 'bytes'
+            });
+            res.end(AUDIO.subarray(start, end + 1));
+        });
+
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should stream the whole file and infer the content type from the extension', async () => {
+        const stream = await proxy.open(`${baseUrl}/song.flac`);
+
+        expect(stream.statusCode).toBe(200);
+        expect(stream.headers['content-type']).toBe('audio/flac');
+        expect(stream.headers['content-length']).toBe(String(AUDIO.length));
+        expect(await readAll(stream.body)).toBe(AUDIO.toString());
+    });
+
+    it('should pass Range requests through as 206 partial content', async () => {
+        const stream = await proxy.open(`${baseUrl}/song.mp3`, { range: 'bytes=5-9' });
+
+        expect(stream.statusCode).toBe(206);
+        expect(stream.headers['content-range']).toBe(`bytes 5-9/${AUDIO.length}`);
+        expect(stream.headers['content-length']).toBe('5');
+        expect(await readAll(stream.body)).toBe('56789');
+    });
+
+    it('should return 416 for unsatisfiable ranges', async () => {
+        const stream = await proxy.open(`${baseUrl}/song.mp3`, { range: 'bytes=100-' });
+
+        expect(stream.statusCode).toBe(416);
+        expect(stream.body).toBeNull();
+    });
+
+    it('should reject upstream errors and non-http urls', async () => {
+        await expect(proxy.open(`${baseUrl}/missing.mp3`)).rejects.toMatchObject({ statusCode: 502 });
+        await expect(proxy.open('file:///etc/passwd')).rejects.toThrow('不支持的音频地址协议');
+    });
+});
@@ -0,0 +1,133 @@
+import match from '@unblockneteasemusic/server';
+import { CatalogService } from '../../../src/services/catalog/CatalogService';
+import { CatalogProvider, NeteaseCatalogProvider, setCatalogProvider } from '../../../src/services/providers';
+import { cacheService } from '../../../src/services/cache/CacheService';
+import { Deadline } from '../../../src/utils/deadline';
+
+// 避免加载真实的解灰模块
+jest.mock('@unblockneteasemusic/server', () => jest.fn());
+
+const netease = new NeteaseCatalogProvider();
+
+/**
+ * 创建本地假曲库，歌单只附带部分曲目详情
+ */
+function createFakeCatalog(revision: { value: string }): CatalogProvider {
+    const track = (id: number) => ({ id, name: `song-${id}`, ar: [{ name: 'A' }, { name: 'B' }], al: { name: 'album', picUrl: 'https://example.com/p.jpg', pic_str: '42' }, dt: 200000 });
+
+    return {
+        name: 'fake',
+        source: 'netease',
+        getPlaylist: jest.fn().mockImplementation(async (id: string) => ({
+            id,
+            name: 'playlist',
+            revision: revision.value,
+            trackIds: ['5001', '5002', '5003'],
+            tracks: [track(5001)]
+        })),
+        getAlbum: jest.fn(),
+        getSongDetails: jest.fn().mockImplementation(async (ids: string[]) => ids.map(id => track(Number(id)))),
+        toSongInfo: track => netease.toSongInfo(track)
+    };
+}
+
+describe('CatalogService', () => {
+    const mockedMatch = match as unknown as jest.Mock;
+    const revision = { value: 'r1' };
+    let provider: CatalogProvider;
+
+    beforeEach(async () => {
+        revision.value = 'r1';
+        provider = createFakeCatalog(revision);
+        setCatalogProvider(provider);
+        await cacheService.deleteByPrefix('playlist');
+        mockedMatch.mockImplementation(async (id: string) => {
+            if (id === '5002') {
+                throw new Error('no source');
+            }
+            return { url: `https://example.com/${id}.mp3`, br: 320000, size: 1024, source: 'kuwo' };
+        });
+    });
+
+    afterEach(() => {
+        mockedMatch.mockReset();
+        setCatalogProvider(netease);
+    });
+
+    it('should return SongInfo items with unblock status in playlist order', async () => {
+        const service = new CatalogService();
+
+        const result = await service.getPlaylist('9001');
+
+        expect(result.data.total).toBe(3);
+        expect(provider.getSongDetails).toHaveBeenCalledWith(['5002', '5003'], expect.anything());
+        // 匹配使用合集附带的时长，不再逐首查询详情
+        expect(provider.getSongDetails).toHaveBeenCalledTimes(1);
+        expect(result.data.tracks.map(track => track.id)).toEqual(['5001', '5002', '5003']);
+        expect(result.data.tracks[0]).toMatchObject({
+            name: 'song-5001',
+            artist: 'A / B',
+            duration: 200000,
+            picId: '42',
+            unblock: { available: true, source: 'kuwo', br: 320 }
+        });
+        expect(result.data.tracks[0].url).toBeUndefined();
+        expect(result.data.tracks[1].unblock).toMatchObject({ available: false, reason: expect.any(String) });
+    });
+
+    it('should include urls when resolving and honor offset and limit', async () => {
+        const service = new CatalogService();
+
+        const result = await service.getPlaylist('9002', { resolve: true, offset: 2, limit: 1 });
+
+        expect(result.data.tracks).toHaveLength(1);
+        expect(result.data.tracks[0]).toMatchObject({ id: '5003', url: 'https://example.com/5003.mp3', br: 320 });
+    });
+
+    it('should cache per revision and re-resolve when the playlist changes', async () => {
+        const service = new CatalogService();
+
+        await service.getPlaylist('9003');
+        const cached = await service.getPlaylist('9003');
+        expect(cached.cached).toBe(true);
+
+        // 基本信息缓存过期后发现新版本
+        revision.value = 'r2';
+        await cacheService.delete('playlistmeta:9003');
+        const refreshed = await service.getPlaylist('9003');
+
+        expect(refreshed.cached).toBe(false);
+        expect(refreshed.data.revision).toBe('r2');
+    });
+
+    it('should return the tracks matched before the deadline and let the next request pick up the rest', async () => {
+        await cacheService.deleteByPrefix('match:');
+        mockedMatch.mockImplementation(async (id: string) => {
+            if (id === '5003') {
+                await new Promise(resolve => setTimeout(resolve, 600));
+            }
+            return { url: `https://example.com/${id}.mp3`, br: 320000, source: 'kuwo' };
+        });
+        const service = new CatalogService();
+
+        const result = await service.getPlaylist('9004', {}, new Deadline(300));
+
+        expect(result.data.partial).toBe(true);
+        expect(result.data.tracks[0].unblock.available).toBe(true);
+        expect(result.data.tracks[2].unblock).toMatchObject({ available: false, timedOut: true });
+        expect(await cacheService.get('playlist:9004:r1:0:100:status')).toBeFalsy();
+
+        // 未完成的匹配继续进行并写入缓存，下一次请求直接使用
+        await new Promise(resolve => setTimeout(resolve, 500));
+        const calls = mockedMatch.mock.calls.length;
+        const next = await service.getPlaylist('9004', {}, new Deadline(300));
+
+        expect(next.data.partial).toBe(false);
+        expect(next.data.tracks[2].unblock.available).toBe(true);
+        expect(mockedMatch).toHaveBeenCalledTimes(calls);
+    });
+
+    it('should reject non-numeric ids', async () => {
+        await expect(new CatalogService().getPlaylist('abc')).rejects.toMatchObject({ statusCode: 400 });
+    });
+});
@@ -0,0 +1,87 @@
+import { CircuitBreakerService, CircuitState } from '../../../src/services/resilience/CircuitBreakerService';
+import { ApiError, ErrorType } from '../../../src/utils/errors';
+import { withRetry } from '../../../src/utils/retry';
+
+/**
+ * 构造一个上游5xx错误
+ */
+function upstreamError(statusCode: number = 502): ApiError {
+    return ApiError.api(`API 响应状态: ${statusCode}`, { statusCode });
+}
+
+describe('CircuitBreakerService', () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should open after repeated transient failures and reject immediately', async () => {
+        const breakers = new CircuitBreakerService(2, 1000);
+        const failing = jest.fn().mockRejectedValue(upstreamError());
+
+        await expect(breakers.execute('url', 'kuwo', failing)).rejects.toThrow();
+        await expect(breakers.execute('url', 'kuwo', failing)).rejects.toThrow();
+        const rejected = breakers.execute('url', 'kuwo', failing);
+
+        await expect(rejected).rejects.toMatchObject({ type: ErrorType.UNAVAILABLE, statusCode: 503 });
+        expect(failing).toHaveBeenCalledTimes(2);
+        expect(breakers.isAvailable('url', 'kugou')).toBe(true);
+        expect(breakers.getSnapshot().find(item => item.source === 'kuwo')?.state).toBe(CircuitState.OPEN);
+    });
+
+    it('should not count business errors as failures', async () => {
+        const breakers = new CircuitBreakerService(1, 1000);
+
+        await expect(breakers.execute('match', 'kugou', async () => {
+            throw new Error('未获取到匹配结果');
+        })).rejects.toThrow();
+
+        expect(breakers.isAvailable('match', 'kugou')).toBe(true);
+    });
+
+    it('should not count requests aborted because the caller gave up', async () => {
+        const breakers = new CircuitBreakerService(1, 1000);
+        const caller = new AbortController();
+        caller.abort();
+        const aborted = () => Promise.reject(Object.assign(new Error('This operation was aborted'), { name: 'AbortError' }));
+
+        await expect(breakers.execute('url', 'kuwo', aborted, caller.signal)).rejects.toThrow('aborted');
+        expect(breakers.isAvailable('url', 'kuwo')).toBe(true);
+
+        // 调用方仍在等待时的超时是上游的问题
+        await expect(breakers.execute('url', 'kuwo', aborted, new AbortController().signal)).rejects.toThrow('aborted');
+        expect(breakers.isAvailable('url', 'kuwo')).toBe(false);
+    });
+
+    it('should half-open after the reset timeout and close on a successful probe', async () => {
+        jest.useFakeTimers();
+        const breakers = new CircuitBreakerService(1, 1000);
+
+        await expect(breakers.execute('lyric', 'netease', () => Promise.reject(upstreamError()))).rejects.toThrow();
+        expect(breakers.isAvailable('lyric', 'netease')).toBe(false);
+
+        jest.advanceTimersByTime(1000);
+        expect(breakers.getSnapshot()[0].state).toBe(CircuitState.HALF_OPEN);
+
+        await expect(breakers.execute('lyric', 'netease', async () => 'ok')).resolves.toBe('ok');
+        expect(breakers.getSnapshot()[0].state).toBe(CircuitState.CLOSED);
+    });
+});
+
+describe('withRetry', () => {
+    it('should retry transient errors and return the eventual result', async () => {
+        const fn = jest.fn()
+            .mockRejectedValueOnce(upstreamError(503))
+            .mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+            .mockResolvedValueOnce('done');
+
+        await expect(withRetry(fn, { attempts: 2, baseDelay: 1, maxDelay: 2 })).resolves.toBe('done');
+        expect(fn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry client errors', async () => {
+        const fn = jest.fn().mockRejectedValue(upstreamError(404));
+
+        await expect(withRetry(fn, { attempts: 3, baseDelay: 1, maxDelay: 2 })).rejects.toThrow();
+        expect(fn).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,133 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { config } from '../../../src/config/env';
+import { CredentialCipher, FileCredentialStore, StoredCredential } from '../../../src/services/credentials/CredentialStore';
+import { CredentialService } from '../../../src/services/credentials/CredentialService';
+
+jest.mock('@unblockneteasemusic/server', () => jest.fn());
+
+const QQ_COOKIE = 'uin=12345; qm_keyst=Q_H_L_abcdef123456';
+
+describe('CredentialCipher', () => {
+    const credential: StoredCredential = { source: 'qq', value: QQ_COOKIE, status: 'unknown', updatedAt: 1 };
+
+    it('should round-trip credentials without leaking plaintext', () => {
+        const cipher = new CredentialCipher('credential-secret-credential-secret');
+        const payload = cipher.encrypt(credential);
+
+        expect(payload).not.toContain('qm_keyst');
+        expect(cipher.decrypt(payload)).toEqual(credential);
+    });
+
+    it('should reject tampered payloads and wrong secrets', () => {
+        const cipher = new CredentialCipher('credential-secret-credential-secret');
+        const payload = cipher.encrypt(credential);
+        const [version, iv, tag, body] = payload.split(':');
+        const tampered = [version, iv, tag, (body[0] === 'A' ? 'B' : 'A') + body.slice(1)].join(':');
+
+        expect(() => cipher.decrypt(tampered)).toThrow();
+        expect(() => new CredentialCipher('another-secret').decrypt(payload)).toThrow();
+    });
+});
+
+describe('CredentialService', () => {
+    const originalEnv = { ...process.env };
+    const originalConfig = { ...config };
+    let tempDir: string;
+
+    beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'unm-credentials-'));
+        config.CREDENTIAL_SECRET = 'credential-secret-credential-secret';
+        config.CREDENTIAL_STORE_PATH = path.join(tempDir, 'credentials.json');
+        config.DATABASE_URL = undefined;
+        delete process.env.QQ_COOKIE;
+        delete process.env.JOOX_COOKIE;
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+        Object.assign(config, originalConfig);
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should validate the credential format before saving', async () => {
+        const service = new CredentialService();
+
+        await expect(service.set('qq', 'uin=12345')).rejects.toMatchObject({ statusCode: 400 });
+        await expect(service.set('joox', 'wmid=1; session_key=abc')).resolves.toMatchObject({ source: 'joox', configured: true });
+        await expect(service.set('kugou', 'anything')).rejects.toThrow('不支持的音源');
+    });
+
+    it('should persist encrypted credentials and load them on startup', async () => {
+        const service = new CredentialService();
+        const summary = await service.set('tencent', QQ_COOKIE);
+
+        expect(summary).toMatchObject({ source: 'qq', origin: 'runtime', status: 'unknown' });
+        expect(summary.preview).not.toBe(QQ_COOKIE);
+        expect(fs.readFileSync(config.CREDENTIAL_STORE_PATH, 'utf8')).not.toContain('qm_keyst');
+
+        delete process.env.QQ_COOKIE;
+        const restarted = new CredentialService();
+        await restarted.initialize();
+
+        expect(process.env.QQ_COOKIE).toBe(QQ_COOKIE);
+        expect(restarted.getSourceFlags().qq).toEqual({ configured: true, valid: true, status: 'unknown' });
+    });
+
+    it('should restore the credential from the environment when the runtime one expires', async () => {
+        process.env.QQ_COOKIE = 'uin=1; qm_keyst=from-env';
+        config.QQ_COOKIE = process.env.QQ_COOKIE;
+        const service = new CredentialService();
+
+        await service.set('qq', QQ_COOKIE);
+        expect(process.env.QQ_COOKIE).toBe(QQ_COOKIE);
+
+        await service.expire('qq');
+        service.prepareMatch();
+
+        expect(process.env.QQ_COOKIE).toBe('uin=1; qm_keyst=from-env');
+        expect(config.QQ_COOKIE).toBe('uin=1; qm_keyst=from-env');
+    });
+
+    it('should pick up changes made by another process', async () => {
+        const worker = new CredentialService();
+        await worker.initialize();
+        const admin = new CredentialService();
+
+        await admin.set('qq', QQ_COOKIE);
+        delete process.env.QQ_COOKIE;
+
+        expect(await worker.sync()).toBe(true);
+        expect(process.env.QQ_COOKIE).toBe(QQ_COOKIE);
+        expect(await worker.sync()).toBe(false);
+
+        await admin.expire('qq');
+        expect(await worker.sync()).toBe(true);
+        expect(worker.getSourceFlags().qq).toMatchObject({ valid: false, status: 'expired' });
+    });
+
+    it('should push credentials into the environment before matching and drop expired ones', async () => {
+        const service = new CredentialService();
+        await service.set('qq', QQ_COOKIE);
+
+        const matcher = service.prepareMatch();
+        expect(typeof matcher).toBe('function');
+        expect(process.env.QQ_COOKIE).toBe(QQ_COOKIE);
+        expect(config.QQ_COOKIE).toBe(QQ_COOKIE);
+
+        await service.expire('qq');
+        service.prepareMatch();
+
+        expect(process.env.QQ_COOKIE).toBeUndefined();
+        expect(service.getSourceFlags().qq).toMatchObject({ valid: false, status: 'expired' });
+    });
+
+    it('should refuse to store credentials without a secret', async () => {
+        config.CREDENTIAL_SECRET = undefined;
+        const service = new CredentialService();
+
+        await expect(service.set('qq', QQ_COOKIE)).rejects.toMatchObject({ statusCode: 503 });
+        expect(service.isEnabled()).toBe(false);
+    });
+});
@@ -0,0 +1,75 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { LinkProbeService } from '../../../src/services/stream/LinkProbeService';
+import { cacheService } from '../../../src/services/cache/CacheService';
+
+const AUDIO_SIZE = 64 * 1024;
+
+describe('LinkProbeService', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    const probe = new LinkProbeService();
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            switch (req.url) {
+                case '/ok.mp3':
+                    res.writeHead(200, { 'Content-Type': 'audio/mpeg', 'Content-Length': AUDIO_SIZE });
+                    res.end(req.method === 'HEAD' ? undefined : Buffer.alloc(AUDIO_SIZE));
+                    return;
+                case '/no-head.flac':
+                    // 不支持 HEAD，只接受范围请求
+                    if (req.method === 'HEAD') {
+                        res.writeHead(405).end();
+                        return;
+                    }
+                    res.writeHead(206, { 'Content-Type': 'application/octet-stream', 'Content-Range': `bytes 0-1/${AUDIO_SIZE}` });
+                    res.end(Buffer.alloc(2));
+                    return;
+                case '/expired.mp3':
+                    // 过期链接常见的表现：返回错误页面
+                    res.writeHead(200, { 'Content-Type': 'text/html', 'Content-Length': 13 });
+                    res.end(req.method === 'HEAD' ? undefined : '<html></html>');
+                    return;
+                default:
+                    res.writeHead(404).end();
+            }
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should accept audio responses to HEAD requests', async () => {
+        const result = await probe.probe(`${baseUrl}/ok.mp3`);
+
+        expect(result).toMatchObject({ ok: true, method: 'HEAD', statusCode: 200, contentType: 'audio/mpeg', contentLength: AUDIO_SIZE });
+    });
+
+    it('should fall back to a range request when HEAD is not supported', async () => {
+        const result = await probe.probe(`${baseUrl}/no-head.flac`);
+
+        expect(result).toMatchObject({ ok: true, method: 'GET', statusCode: 206, contentLength: AUDIO_SIZE });
+    });
+
+    it('should reject error pages, missing files and unsupported protocols', async () => {
+        expect(await probe.probe(`${baseUrl}/expired.mp3`)).toMatchObject({ ok: false, reason: expect.stringContaining('text/html') });
+        expect(await probe.probe(`${baseUrl}/missing.mp3`)).toMatchObject({ ok: false, statusCode: 404 });
+        expect(await probe.probe('ftp://example.com/a.mp3')).toMatchObject({ ok: false });
+    });
+
+    it('should evict dead links when verifying cached entries', async () => {
+        await cacheService.deleteByPrefix('ncmget:');
+        await cacheService.set('ncmget:1:320:', { url: `${baseUrl}/ok.mp3` });
+        await cacheService.set('ncmget:2:320:', { url: `${baseUrl}/expired.mp3` });
+
+        const stats = await probe.verifyCachedLinks(10);
+
+        expect(stats).toEqual({ checked: 2, evicted: 1 });
+        expect(await cacheService.get('ncmget:1:320:')).not.toBeNull();
+        expect(await cacheService.get('ncmget:2:320:')).toBeNull();
+    });
+});
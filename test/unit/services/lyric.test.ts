@@ -0,0 +1,78 @@
+import { LyricService } from '../../../src/services/lyric/LyricService';
+
+const LYRIC = [
+    '[ti:晴天]',
+    '[ar:周杰伦]',
+    '[offset:+500]',
+    '{"t":0,"c":[{"tx":"作词: "},{"tx":"周杰伦"}]}',
+    '[00:01.00][00:31.00]故事的小黄花',
+    '[00:05.500]从出生那年就飘着',
+    '[00:09.0]',
+    '[00:10:20]童年的荡秋千'
+].join('\n');
+
+const TRANSLATION = [
+    '[by:译者]',
+    '[00:01.00]The little yellow flower in the story',
+    '[00:05.52]Has been floating since the year I was born'
+].join('\n');
+
+describe('LyricService', () => {
+    const service = new LyricService();
+
+    it('should parse metadata, multi-timestamp lines and apply the offset', () => {
+        const parsed = service.parse(LYRIC);
+
+        expect(parsed.metadata).toEqual({ ti: '晴天', ar: '周杰伦' });
+        expect(parsed.offset).toBe(500);
+        expect(parsed.lines.map(line => [line.time, line.text])).toEqual([
+            [0, '作词: 周杰伦'],
+            [500, '故事的小黄花'],
+            [5000, '从出生那年就飘着'],
+            [8500, ''],
+            [9700, '童年的荡秋千'],
+            [30500, '故事的小黄花']
+        ]);
+    });
+
+    it('should merge translations by timestamp within tolerance', () => {
+        const parsed = service.parseWithTranslation(LYRIC, TRANSLATION);
+
+        expect(parsed.lines[1].translation).toBe('The little yellow flower in the story');
+        expect(parsed.lines[2].translation).toBe('Has been floating since the year I was born');
+        expect(parsed.lines[4].translation).toBeUndefined();
+        expect(parsed.lines[5].translation).toBeUndefined();
+    });
+
+    it('should export a json timeline with end times', () => {
+        const formatted = service.format('[00:01.00]a\n[00:03.00]b', '', 'json');
+
+        expect(formatted.body).toEqual({
+            metadata: {},
+            lines: [
+                { time: 1000, end: 3000, text: 'a' },
+                { time: 3000, end: 8000, text: 'b' }
+            ]
+        });
+    });
+
+    it('should export normalized and merged LRC', () => {
+        const lrc = '[ti:t]\n[00:01.00]a\n[00:03.00]b';
+        const tlrc = '[00:01.00]A';
+
+        expect(service.format(lrc, tlrc, 'lrc').body).toBe('[ti:t]\n[00:01.00]a\n[00:03.00]b\n');
+        expect(service.format(lrc, tlrc, 'merged-lrc').body).toBe('[ti:t]\n[00:01.00]a\n[00:01.00]A\n[00:03.00]b\n');
+    });
+
+    it('should export SRT and WebVTT cues skipping blank lines', () => {
+        const lrc = '[00:01.00]a\n[00:02.50]\n[01:02.00]b';
+
+        expect(service.format(lrc, '[00:01.00]A', 'srt').body).toBe(
+            '1\n00:00:01,000 --> 00:00:02,500\na\nA\n\n2\n00:01:02,000 --> 00:01:07,000\nb\n'
+        );
+        expect(service.format(lrc, '', 'vtt')).toEqual({
+            contentType: 'text/vtt; charset=utf-8',
+            body: 'WEBVTT\n\n00:00:01.000 --> 00:00:02.500\na\n\n00:01:02.000 --> 00:01:07.000\nb\n'
+        });
+    });
+});
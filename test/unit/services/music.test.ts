@@ -0,0 +1,630 @@
+import match from '@unblockneteasemusic/server';
+import { MusicService } from '../../../src/services/music';
+import { CatalogProvider, MusicProvider, NeteaseCatalogProvider, setCatalogProvider } from '../../../src/services/providers';
+import { songCacheService } from '../../../src/services/cache/SongCacheService';
+import { ApiError } from '../../../src/utils/errors';
+import { resolveNetworkPolicy } from '../../../src/utils/network-hints';
+import { linkProbeService } from '../../../src/services/stream/LinkProbeService';
+import { config } from '../../../src/config/env';
+import { sourceRankingService } from '../../../src/services/quality/SourceRankingService';
+import { Deadline } from '../../../src/utils/deadline';
+import { circuitBreakerService } from '../../../src/services/resilience/CircuitBreakerService';
+
+// 避免加载真实的解灰模块
+jest.mock('@unblockneteasemusic/server', () => jest.fn());
+
+// 本地假曲库，避免请求网易云
+const fakeCatalog: CatalogProvider = {
+    name: 'fake',
+    source: 'netease',
+    getPlaylist: jest.fn(),
+    getAlbum: jest.fn(),
+    getSongDetails: jest.fn().mockResolvedValue([]),
+    toSongInfo: track => new NeteaseCatalogProvider().toSongInfo(track)
+};
+
+beforeAll(() => {
+    setCatalogProvider(fakeCatalog);
+});
+
+/**
+ * 创建本地假提供商
+ */
+function createFakeProvider(overrides: Partial<MusicProvider> = {}): MusicProvider {
+    return {
+        name: 'fake',
+        capabilities: { search: true, url: true, lyric: true, pic: true },
+        search: jest.fn().mockResolvedValue({ songs: [] }),
+        getUrl: jest.fn().mockResolvedValue({ url: 'https://example.com/a.mp3', br: 320, size: 1024 }),
+        getLyric: jest.fn().mockResolvedValue({ lyric: '[00:01.00]test', tlyric: '' }),
+        getPic: jest.fn().mockResolvedValue({ url: 'https://example.com/a.jpg' }),
+        toSongInfo: (song: any, source: string) => ({
+            id: String(song.id),
+            name: song.name,
+            artist: song.artist,
+            source
+        }),
+        ...overrides
+    };
+}
+
+describe('MusicService with MusicProvider', () => {
+    it('should resolve direct links through the injected provider', async () => {
+        const provider = createFakeProvider();
+        const service = new MusicService(provider);
+
+        const result = await service.getDirectLink('1001', '320', 'kuwo');
+
+        expect(result.cached).toBe(false);
+        expect(result.data.url).toBe('https://example.com/a.mp3');
+        expect(provider.getUrl).toHaveBeenCalledWith(
+            { id: '1001', br: '320', source: 'kuwo' },
+            expect.objectContaining({ signal: expect.anything() })
+        );
+    });
+
+    it('should pass lyric and pic requests to the provider', async () => {
+        const provider = createFakeProvider();
+        const service = new MusicService(provider);
+
+        const lyric = await service.getLyric('1002', 'netease');
+        const pic = await service.getAlbumPic('1002', 'netease', 500);
+
+        expect(lyric.data.lyric).toBe('[00:01.00]test');
+        expect(pic.data.url).toBe('https://example.com/a.jpg');
+        expect(provider.getPic).toHaveBeenCalledWith(
+            { id: '1002', source: 'netease', size: 500 },
+            expect.anything()
+        );
+    });
+
+    it('should return empty lyrics for instrumental tracks', async () => {
+        const provider = createFakeProvider({ getLyric: jest.fn().mockResolvedValue({}) });
+        const service = new MusicService(provider);
+
+        const lyric = await service.getLyric('1003', 'netease');
+
+        expect(lyric.data).toMatchObject({ lyric: '', tlyric: '' });
+    });
+
+    it('should return a normalized, paginated search result list', async () => {
+        const provider = createFakeProvider({
+            search: jest.fn().mockResolvedValue({
+                songs: [
+                    { id: 1, name: 'Song A', artist: 'Artist A' },
+                    { id: 2, name: 'Song B', artist: 'Artist B' }
+                ]
+            })
+        });
+        const service = new MusicService(provider);
+
+        const result = await service.search('paged keyword', 'netease', 1, 2);
+
+        expect(result.data.songs).toEqual([
+            { id: '1', name: 'Song A', artist: 'Artist A', source: 'netease' },
+            { id: '2', name: 'Song B', artist: 'Artist B', source: 'netease' }
+        ]);
+        expect(result.data.total).toBeNull();
+        expect(result.data.hasMore).toBe(true);
+        expect(provider.getUrl).not.toHaveBeenCalled();
+    });
+
+    it('should pick the best scored search candidate and report runner-ups', async () => {
+        const provider = createFakeProvider({
+            search: jest.fn().mockResolvedValue({
+                songs: [
+                    { id: 11, name: '晴天 (Live)', artist: ['周杰伦'] },
+                    { id: 12, name: '晴天', artist: ['周杰伦'] },
+                    { id: 13, name: '晴天 (伴奏)', artist: ['周杰伦'] }
+                ]
+            })
+        });
+        const service = new MusicService(provider);
+
+        const result = await service.searchAndGetMusic('晴天 周杰伦', 'kuwo');
+
+        expect(provider.search).toHaveBeenCalledWith(expect.objectContaining({ count: 10 }), expect.anything());
+        expect(provider.getUrl).toHaveBeenCalledWith({ id: '12', source: 'kuwo' }, expect.anything());
+        expect(result.data.score).toBe(1);
+        expect(result.data.candidates.map((candidate: any) => candidate.id)).toEqual([11, 13]);
+    });
+
+    it('should reject operations the provider does not support', async () => {
+        const provider = createFakeProvider({
+            capabilities: { search: false, url: true, lyric: true, pic: true }
+        });
+        const service = new MusicService(provider);
+
+        await expect(service.searchAndGetMusic('test song', 'kuwo')).rejects.toBeInstanceOf(ApiError);
+        expect(provider.search).not.toHaveBeenCalled();
+    });
+});
+
+describe('MusicService.matchAllSources', () => {
+    const mockedMatch = match as unknown as jest.Mock;
+
+    afterEach(() => {
+        mockedMatch.mockReset();
+    });
+
+    it('should report every source and pick the best quality result', async () => {
+        mockedMatch.mockImplementation(async (_id: string, sources: string[]) => {
+            switch (sources[0]) {
+                case 'kugou': return { url: 'https://example.com/a.mp3', br: 128000, size: 2048 };
+                case 'kuwo': return { url: 'https://example.com/b.flac', br: 999000, size: 40960 };
+                default: throw new Error('No audioData!');
+            }
+        });
+        const service = new MusicService(createFakeProvider());
+
+        const result = await service.matchAllSources('2001', ['kugou', 'kuwo', 'migu']);
+
+        expect(mockedMatch).toHaveBeenCalledTimes(3);
+        expect(result.data.results.map((item: any) => [item.source, item.available])).toEqual([
+            ['kugou', true],
+            ['kuwo', true],
+            ['migu', false]
+        ]);
+        expect(result.data.results[2].error).toBe('No audioData!');
+        expect(result.data.best?.source).toBe('kuwo');
+        expect(result.data.best?.data.format).toBe('flac');
+        expect(result.data.best?.data.br).toBe(999);
+    });
+
+    it('should return a null best result when no source is available', async () => {
+        mockedMatch.mockRejectedValue(new Error('No audioData!'));
+        const service = new MusicService(createFakeProvider());
+
+        const result = await service.matchAllSources('2002', ['kugou', 'kuwo']);
+
+        expect(result.data.best).toBeNull();
+        expect(result.data.results.every((item: any) => !item.available)).toBe(true);
+    });
+});
+
+describe('MusicService.matchSong duration check', () => {
+    const mockedMatch = match as unknown as jest.Mock;
+
+    afterEach(() => {
+        mockedMatch.mockReset();
+    });
+
+    it('should reject trial clips and fall through to the next source', async () => {
+        (fakeCatalog.getSongDetails as jest.Mock).mockResolvedValueOnce([{ id: 4001, name: '原曲', dt: 240000 }]);
+        mockedMatch
+            // 128kbps 下 480KB 约30秒，是试听片段
+            .mockResolvedValueOnce({ url: 'https://example.com/trial.mp3', br: 128000, size: 480000, source: 'kugou' })
+            .mockResolvedValueOnce({ url: 'https://example.com/full.mp3', br: 320000, size: 9600000, source: 'kuwo' });
+        const service = new MusicService(createFakeProvider());
+
+        const result = await service.matchSong('4001', ['kugou', 'kuwo']);
+
+        expect(mockedMatch).toHaveBeenNthCalledWith(2, '4001', ['kuwo']);
+        expect(result.data.url).toBe('https://example.com/full.mp3');
+        expect(result.data.estimatedDuration).toBe(240);
+        expect(result.data.rejected).toEqual([{ source: 'kugou', reason: expect.stringContaining('试听片段') }]);
+        expect(sourceRankingService.getSourceStats('kugou')).toMatchObject({ rejections: { trial: 1 }, lastRejection: { reason: 'trial' } });
+    });
+
+    it('should return 404 when every source is rejected', async () => {
+        (fakeCatalog.getSongDetails as jest.Mock).mockResolvedValueOnce([{ id: 4002, name: '原曲', dt: 240000 }]);
+        mockedMatch.mockResolvedValueOnce({ url: 'https://example.com/other.mp3', br: 320000, size: 4000000, source: 'kuwo' });
+        const service = new MusicService(createFakeProvider());
+
+        await expect(service.matchSong('4002', ['kuwo'])).rejects.toMatchObject({ statusCode: 404 });
+    });
+});
+
+describe('MusicService.matchSong circuit breaker', () => {
+    const mockedMatch = match as unknown as jest.Mock;
+
+    afterEach(() => {
+        mockedMatch.mockReset();
+        circuitBreakerService.reset('match');
+    });
+
+    it('should retry transient failures of a single source', async () => {
+        mockedMatch
+            .mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+            .mockResolvedValueOnce({ url: 'https://example.com/retried.mp3', br: 320000 });
+        const service = new MusicService(createFakeProvider());
+
+        const result = await service.matchSong('4201', ['kuwo']);
+
+        expect(mockedMatch).toHaveBeenCalledTimes(2);
+        expect(result.data).toMatchObject({ url: 'https://example.com/retried.mp3', source: 'kuwo' });
+    });
+
+    it('should count failures per source and skip sources whose breaker is open', async () => {
+        mockedMatch.mockImplementation(async (_id: string, [source]: string[]) => {
+            if (source === 'kugou') {
+                throw new Error('request timeout');
+            }
+            return { url: `https://example.com/${source}.mp3`, br: 320000, source };
+        });
+        const service = new MusicService(createFakeProvider());
+
+        for (let i = 0; i < config.CIRCUIT_BREAKER_THRESHOLD; i++) {
+            await service.matchSong(`43${i}`, ['kugou', 'kuwo']);
+        }
+        const kugou = circuitBreakerService.getSnapshot().find(item => item.endpoint === 'match' && item.source === 'kugou');
+        expect(kugou?.state).toBe('open');
+
+        mockedMatch.mockClear();
+        await service.matchSong('4399', ['kugou', 'kuwo']);
+        expect(mockedMatch).toHaveBeenCalledTimes(1);
+        expect(mockedMatch).toHaveBeenCalledWith('4399', ['kuwo']);
+    });
+});
+
+describe('MusicService request coalescing', () => {
+    const mockedMatch = match as unknown as jest.Mock;
+
+    afterEach(() => {
+        mockedMatch.mockReset();
+    });
+
+    it('should share one upstream match between concurrent identical requests', async () => {
+        let resolveMatch: (value: any) => void = () => { };
+        mockedMatch.mockReturnValue(new Promise(resolve => { resolveMatch = resolve; }));
+        const service = new MusicService(createFakeProvider());
+
+        const pending = Promise.all([
+            service.matchSong('3001', ['kuwo']),
+            service.matchSong('3001', ['kuwo']),
+            service.matchSong('3001', ['kuwo'])
+        ]);
+        resolveMatch({ url: 'https://example.com/c.mp3', br: 320000 });
+        const results = await pending;
+
+        expect(mockedMatch).toHaveBeenCalledTimes(1);
+        expect(results.map(result => result.data.url)).toEqual([
+            'https://example.com/c.mp3',
+            'https://example.com/c.mp3',
+            'https://example.com/c.mp3'
+        ]);
+    });
+
+    it('should share upstream failures and allow a retry afterwards', async () => {
+        const provider = createFakeProvider({
+            getUrl: jest.fn()
+                .mockRejectedValueOnce(new Error('upstream down'))
+                .mockResolvedValueOnce({ url: 'https://example.com/d.mp3', br: 320 })
+        });
+        const service = new MusicService(provider);
+
+        // 128 是最低档位，失败时不会再降档
+        const failures = await Promise.allSettled([
+            service.getDirectLink('3002', '128', 'kuwo'),
+            service.getDirectLink('3002', '128', 'kuwo')
+        ]);
+        const retry = await service.getDirectLink('3002', '128', 'kuwo');
+
+        expect(failures.every(result => result.status === 'rejected')).toBe(true);
+        expect(retry.data.url).toBe('https://example.com/d.mp3');
+        expect(provider.getUrl).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe('MusicService.resolveSongBatch', () => {
+    const mockedMatch = match as unknown as jest.Mock;
+
+    afterEach(() => {
+        mockedMatch.mockReset();
+    });
+
+    it('should keep input order, cap concurrency and fall back to matching', async () => {
+        let active = 0;
+        let maxActive = 0;
+        const provider = createFakeProvider({
+            getUrl: jest.fn().mockImplementation(async ({ id }: { id: string }) => {
+                active++;
+                maxActive = Math.max(maxActive, active);
+                await new Promise(resolve => setTimeout(resolve, 5));
+                active--;
+                if (id === '4003') {
+                    throw new Error('upstream down');
+                }
+                return { url: `https://example.com/${id}.mp3`, br: 320 };
+            })
+        });
+        mockedMatch.mockResolvedValue({ url: 'https://example.com/matched.mp3', br: 128000 });
+        const service = new MusicService(provider);
+        const ids = ['4001', '4002', '4003', '4004', '4005', '4006', '4007'];
+
+        const results = await service.resolveSongBatch([...ids.map(id => ({ id })), { id: 'bad-id' }]);
+
+        expect(results.map(result => result.id)).toEqual([...ids, 'bad-id']);
+        expect(maxActive).toBeLessThanOrEqual(config.BATCH_CONCURRENCY);
+        expect(results[0]).toMatchObject({ index: 0, success: true, via: 'direct' });
+        expect(results[2]).toMatchObject({ success: true, via: 'match' });
+        expect(results[2].data.url).toBe('https://example.com/matched.mp3');
+        expect(results[7]).toMatchObject({ success: false, error: { code: 400 } });
+    });
+
+    it('should share cache entries with single song requests', async () => {
+        const provider = createFakeProvider();
+        const service = new MusicService(provider);
+
+        await service.getDirectLink('4101', '320');
+        const [result] = await service.resolveSongBatch([{ id: '4101', br: '320' }]);
+
+        expect(result.cached).toBe(true);
+        expect(provider.getUrl).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('MusicService song metadata', () => {
+    afterEach(() => {
+        (fakeCatalog.getSongDetails as jest.Mock).mockReset().mockResolvedValue([]);
+    });
+
+    it('should merge catalog details into direct links and cache them under song: keys', async () => {
+        (fakeCatalog.getSongDetails as jest.Mock).mockResolvedValue([{
+            id: 5101,
+            name: '晴天',
+            ar: [{ name: '周杰伦' }],
+            al: { name: '叶惠美', picUrl: 'https://example.com/cover.jpg', pic_str: '109951' },
+            dt: 269000
+        }]);
+        const service = new MusicService(createFakeProvider());
+
+        const result = await service.getDirectLink('5101', '320');
+
+        expect(result.data).toMatchObject({
+            id: '5101',
+            url: 'https://example.com/a.mp3',
+            name: '晴天',
+            artist: '周杰伦',
+            album: '叶惠美',
+            cover: 'https://example.com/cover.jpg',
+            duration: 269000,
+            picId: '109951',
+            lyricId: '5101'
+        });
+        expect(await songCacheService.getSongSourceInfo('5101', 'netease')).toMatchObject({ name: '晴天' });
+    });
+
+    it('should report the source that actually served the link instead of the metadata source', async () => {
+        (fakeCatalog.getSongDetails as jest.Mock).mockResolvedValue([{ id: 5103, name: '稻香', ar: [{ name: '周杰伦' }], dt: 223000 }]);
+        const service = new MusicService(createFakeProvider({
+            getUrl: jest.fn().mockResolvedValue({ url: 'https://example.com/kuwo.mp3', br: 320, source: 'kuwo' })
+        }));
+
+        const result = await service.getDirectLink('5103', '320');
+
+        expect(result.data).toMatchObject({ id: '5103', trackId: 'netease:5103', name: '稻香', source: 'kuwo' });
+
+        // 链接有效期按实际提供链接的酷狗规则解析，路径中的时间为北京时间
+        const expiry = Math.floor(Date.now() / 60000) * 60000 + 30 * 60 * 1000;
+        const pathTime = new Date(expiry + 8 * 3600 * 1000).toISOString().slice(0, 16).replace(/\D/g, '');
+        const kugouSigned = await new MusicService(createFakeProvider({
+            getUrl: jest.fn().mockResolvedValue({ url: `https://cdn.example.com/${pathTime}/abc/a.mp3`, br: 320, source: 'kugou' })
+        })).getDirectLink('5105', '320');
+        expect(kugouSigned.data.expiresAt).toBe(new Date(expiry).toISOString());
+
+        // 上游未说明音乐源时不沿用元数据中的 netease
+        const unknown = await new MusicService(createFakeProvider()).getDirectLink('5104', '320');
+        expect(unknown.data.source).toBeNull();
+    });
+
+    it('should reuse search metadata for other sources and tolerate missing details', async () => {
+        const provider = createFakeProvider({
+            search: jest.fn().mockResolvedValue({ songs: [{ id: '5201', name: '稻香', artist: '周杰伦' }] })
+        });
+        const service = new MusicService(provider);
+
+        await service.search('稻香', 'kuwo');
+        const kuwo = await service.getDirectLink('5201', '320', 'kuwo');
+        const unknown = await service.getDirectLink('5202', '320');
+
+        expect(kuwo.data).toMatchObject({ name: '稻香', artist: '周杰伦', source: 'kuwo' });
+        expect(unknown.data.url).toBe('https://example.com/a.mp3');
+        expect(unknown.data).not.toHaveProperty('name');
+    });
+
+    it('should reject ids of sources that cannot serve direct links before calling upstream', async () => {
+        const provider = createFakeProvider();
+        const service = new MusicService(provider);
+
+        await expect(service.getDirectLink('bilibili:au1234567', '320')).rejects.toMatchObject({ statusCode: 400 });
+        await expect(service.getDirectLink('BV1xx411c7mD', '320', 'bilibili')).rejects.toThrow('B站音乐暂不支持获取播放链接');
+        expect(provider.getUrl).not.toHaveBeenCalled();
+    });
+});
+
+describe('MusicService bitrate ladder', () => {
+    it('should fall back to lower tiers and report requested and delivered quality', async () => {
+        const provider = createFakeProvider({
+            getUrl: jest.fn().mockImplementation(async ({ br }: { br: string }) => {
+                if (br === '999') {
+                    return { url: '' };
+                }
+                if (br === '740') {
+                    throw new Error('tier not available');
+                }
+                return { url: `https://example.com/${br}.mp3`, br: Number(br) * 1000 };
+            })
+        });
+        const service = new MusicService(provider);
+
+        const result = await service.getDirectLink('6001', '999');
+
+        expect((provider.getUrl as jest.Mock).mock.calls.map(([params]) => params.br)).toEqual(['999', '740', '320']);
+        expect(result.data).toMatchObject({
+            url: 'https://example.com/320.mp3',
+            requestedBr: 999,
+            br: 320,
+            quality: 'exhigh'
+        });
+    });
+
+    it('should fail with the last error when no tier is available', async () => {
+        const provider = createFakeProvider({ getUrl: jest.fn().mockResolvedValue({ url: '' }) });
+        const service = new MusicService(provider);
+
+        await expect(service.getDirectLink('6002', '192')).rejects.toThrow('无法获取音乐链接');
+        expect(provider.getUrl).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe('MusicService network-aware selection', () => {
+    const mockedMatch = match as unknown as jest.Mock;
+
+    afterEach(() => {
+        mockedMatch.mockReset();
+    });
+
+    it('should cap the bitrate ladder for slow networks and report the policy', async () => {
+        const provider = createFakeProvider({
+            getUrl: jest.fn().mockImplementation(async ({ br }: { br: string }) => ({ url: `https://example.com/${br}.mp3`, br: Number(br) }))
+        });
+        const service = new MusicService(provider);
+
+        const result = await service.getDirectLinkForNetwork('7001', '999', undefined, resolveNetworkPolicy('3g', {}));
+
+        expect((provider.getUrl as jest.Mock).mock.calls[0][0].br).toBe('192');
+        expect(result.data).toMatchObject({
+            br: 192,
+            requestedBr: 192,
+            quality: 'higher',
+            network: { type: '3g', via: 'query', maxBr: 192, fallback: false }
+        });
+    });
+
+    it('should fall back to network-ranked unblock sources when the direct link fails', async () => {
+        const provider = createFakeProvider({ getUrl: jest.fn().mockResolvedValue({ url: '' }) });
+        mockedMatch.mockImplementation(async (_id: string, [source]: string[]) => (
+            source === 'kuwo'
+                ? { url: 'https://example.com/kuwo.mp3', br: 128000, size: 2 * 1024 * 1024 }
+                : { url: `https://example.com/${source}.flac`, br: 999000, size: 30 * 1024 * 1024 }
+        ));
+        const service = new MusicService(provider);
+
+        const result = await service.getDirectLinkForNetwork('7002', undefined, undefined, resolveNetworkPolicy('2g', {}));
+
+        expect(result.data).toMatchObject({
+            url: 'https://example.com/kuwo.mp3',
+            network: { type: '2g', source: 'kuwo', fallback: true }
+        });
+    });
+});
+
+describe('MusicService availability check', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should evict a dead cached link and re-resolve it', async () => {
+        const getUrl = jest.fn()
+            .mockResolvedValueOnce({ url: 'https://example.com/old.mp3', br: 320 })
+            .mockResolvedValueOnce({ url: 'https://example.com/new.mp3', br: 320 });
+        const service = new MusicService(createFakeProvider({ getUrl }));
+        await service.getDirectLink('8001', '320');
+
+        const probe = jest.spyOn(linkProbeService, 'probe').mockImplementation(async url => (
+            url.includes('old')
+                ? { ok: false, method: 'HEAD', statusCode: 403, reason: '上游响应状态: 403', responseTime: 1 }
+                : { ok: true, method: 'HEAD', statusCode: 200, contentType: 'audio/mpeg', responseTime: 1 }
+        ));
+
+        const result = await service.checkAvailability('8001', '320');
+
+        expect(probe).toHaveBeenCalledTimes(2);
+        expect(result.data).toMatchObject({ available: true, reResolved: true });
+        expect((await service.getDirectLink('8001', '320')).data.url).toBe('https://example.com/new.mp3');
+    });
+});
+
+describe('MusicService link expiry', () => {
+    it('should expose expiresAt and skip caching links that are about to expire', async () => {
+        const soon = Math.floor(Date.now() / 1000) + 60;
+        const later = Math.floor(Date.now() / 1000) + 3600;
+        const getUrl = jest.fn()
+            .mockResolvedValueOnce({ url: `https://cdn.example.com/a.mp3?Expires=${soon}`, br: 320 })
+            .mockResolvedValue({ url: `https://cdn.example.com/a.mp3?Expires=${later}`, br: 320 });
+        const service = new MusicService(createFakeProvider({ getUrl }));
+
+        const first = await service.getDirectLink('9101', '320');
+        expect(first.data.expiresAt).toBe(new Date(soon * 1000).toISOString());
+
+        // 剩余有效期小于 URL_EXPIRY_MARGIN 的链接不缓存
+        const second = await service.getDirectLink('9101', '320');
+        expect(second.cached).toBe(false);
+        expect(second.data.expiresAt).toBe(new Date(later * 1000).toISOString());
+
+        const third = await service.getDirectLink('9101', '320');
+        expect(third.cached).toBe(true);
+        expect(getUrl).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe('MusicService track identifiers', () => {
+    it('should resolve source:id tracks through the matching upstream source', async () => {
+        const provider = createFakeProvider();
+        const service = new MusicService(provider);
+
+        const result = await service.getDirectLink('tencent:0039MnYb0qxYhV', '320');
+        const lyric = await service.getLyric('kugou:4E6DD2C8FFF34B4B2A2B8DD9F3A4A9B5');
+
+        expect(provider.getUrl).toHaveBeenCalledWith(
+            { id: '0039MnYb0qxYhV', br: '320', source: 'tencent' },
+            expect.anything()
+        );
+        expect(result.data.trackId).toBe('tencent:0039MnYb0qxYhV');
+        expect(lyric.data).toMatchObject({ id: '4E6DD2C8FFF34B4B2A2B8DD9F3A4A9B5', source: 'kugou' });
+    });
+
+    it('should keep matching limited to NetEase ids', async () => {
+        await expect(new MusicService(createFakeProvider()).matchSong('kuwo:228908'))
+            .rejects.toMatchObject({ statusCode: 400 });
+    });
+});
+
+describe('MusicService request deadline', () => {
+    const mockedMatch = match as unknown as jest.Mock;
+
+    afterEach(() => {
+        mockedMatch.mockReset();
+    });
+
+    it('should stop waiting for the unblock module once the deadline expires', async () => {
+        let release: (value: unknown) => void = () => { };
+        mockedMatch.mockReturnValue(new Promise(resolve => {
+            release = resolve;
+        }));
+        const service = new MusicService(createFakeProvider());
+        const startTime = Date.now();
+
+        await expect(service.matchSong('5001', ['kuwo'], new Deadline(50))).rejects.toMatchObject({ statusCode: 504 });
+        expect(Date.now() - startTime).toBeLessThan(1000);
+
+        // 共享的匹配在后台继续，完成后不再留下未结束的请求
+        release({ url: 'https://example.com/late.mp3', br: 320000 });
+        await expect(service.matchSong('5001', ['kuwo'])).resolves.toMatchObject({ data: { url: 'https://example.com/late.mp3' } });
+    });
+
+    it('should time out each coalesced caller on its own deadline without aborting the shared request', async () => {
+        let release: (value: unknown) => void = () => { };
+        const provider = createFakeProvider({
+            search: jest.fn().mockResolvedValue({ songs: [{ id: 21, name: '晴天', artist: ['周杰伦'] }] }),
+            getUrl: jest.fn().mockImplementation(() => new Promise(resolve => {
+                release = resolve;
+            }))
+        });
+        const service = new MusicService(provider);
+
+        const impatient = service.searchAndGetMusic('晴天', 'kuwo', 1, 1, {}, new Deadline(30));
+        const patient = service.searchAndGetMusic('晴天', 'kuwo', 1, 1, {}, new Deadline(60000));
+
+        await expect(impatient).rejects.toMatchObject({ statusCode: 504 });
+        const searchSignal: AbortSignal = (provider.search as jest.Mock).mock.calls[0][1].signal;
+        const urlSignal: AbortSignal = (provider.getUrl as jest.Mock).mock.calls[0][1].signal;
+        expect(searchSignal).not.toBe(urlSignal);
+        expect(urlSignal.aborted).toBe(false);
+
+        release({ url: 'https://example.com/a.mp3', br: 320 });
+        await expect(patient).resolves.toMatchObject({ cached: false, data: { url: 'https://example.com/a.mp3' } });
+        expect(provider.search).toHaveBeenCalledTimes(1);
+    });
+});
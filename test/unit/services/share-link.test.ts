@@ -0,0 +1,66 @@
+import { ShareLinkService } from '../../../src/services/link/ShareLinkService';
+import { Deadline } from '../../../src/utils/deadline';
+
+const redirectTo = (location: string) => new Response(null, { status: 302, headers: { location } });
+
+describe('ShareLinkService', () => {
+    let fetchSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+        fetchSpy = jest.spyOn(global, 'fetch');
+    });
+
+    afterEach(() => {
+        fetchSpy.mockRestore();
+    });
+
+    it('should resolve full links without network requests', async () => {
+        const service = new ShareLinkService();
+        const result = await service.resolve('https://music.163.com/#/song?id=1859245776');
+
+        expect(result).toMatchObject({ source: 'netease', id: '1859245776', expanded: false, hops: 0 });
+        expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('should expand short links hop by hop', async () => {
+        fetchSpy
+            .mockResolvedValueOnce(redirectTo('https://c6.y.qq.com/base/fcgi-bin/u?__=step2'))
+            .mockResolvedValueOnce(redirectTo('https://i.y.qq.com/v8/playsong.html?songmid=0039MnYb0qxYhV'));
+
+        const service = new ShareLinkService();
+        const result = await service.resolve('QQ音乐分享 https://c6.y.qq.com/base/fcgi-bin/u?__=step1-test');
+
+        expect(result).toMatchObject({ canonical: 'tencent:0039MnYb0qxYhV', expanded: true, hops: 2 });
+        expect(fetchSpy.mock.calls[0][1]).toMatchObject({ redirect: 'manual' });
+    });
+
+    it('should time out each caller on its own deadline while sharing one expansion', async () => {
+        fetchSpy.mockImplementationOnce(() => new Promise(resolve => setTimeout(
+            () => resolve(redirectTo('https://music.163.com/song?id=1859245776')), 50
+        )));
+
+        const service = new ShareLinkService();
+        const impatient = service.resolve('https://163cn.tv/deadline-test', new Deadline(10));
+        const patient = service.resolve('https://163cn.tv/deadline-test', new Deadline(1000));
+
+        await expect(impatient).rejects.toMatchObject({ statusCode: 504 });
+        await expect(patient).resolves.toMatchObject({ canonical: 'netease:1859245776', expanded: true });
+        expect(fetchSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop at unknown hosts and after too many hops', async () => {
+        const service = new ShareLinkService();
+
+        fetchSpy.mockResolvedValueOnce(redirectTo('http://127.0.0.1/admin'));
+        await expect(service.resolve('https://163cn.tv/redirect-out')).rejects.toThrow('不支持的域名');
+
+        fetchSpy.mockResolvedValue(redirectTo('https://163cn.tv/loop'));
+        await expect(service.resolve('https://163cn.tv/loop-test')).rejects.toThrow('跳转超过 5 次');
+        expect(fetchSpy).toHaveBeenCalledTimes(6);
+    });
+
+    it('should reject links from other sites', async () => {
+        const service = new ShareLinkService();
+        await expect(service.resolve('https://example.com/song?id=1')).rejects.toMatchObject({ statusCode: 400 });
+    });
+});
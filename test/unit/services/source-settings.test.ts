@@ -0,0 +1,87 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { config } from '../../../src/config/env';
+import { config as rankingConfig } from '../../../src/config';
+import { DEFAULT_SOURCES } from '../../../src/config/sources';
+import { isSourceEnabled, setSourceEnabledOverrides } from '../../../src/config/source-registry';
+import { getSourceDescriptions } from '../../../src/config/music-sources';
+import { SourceSettingsService } from '../../../src/services/sources/SourceSettingsService';
+
+describe('SourceSettingsService', () => {
+    const originalSources = [...DEFAULT_SOURCES];
+    const originalRanking = [...rankingConfig.DEFAULT_SOURCES];
+    const originalFollow = config.FOLLOW_SOURCE_ORDER;
+    let tempDir: string;
+
+    beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'unm-source-settings-'));
+        config.SOURCE_SETTINGS_PATH = path.join(tempDir, 'source-settings.json');
+        config.DATABASE_URL = undefined;
+    });
+
+    afterEach(async () => {
+        await new SourceSettingsService().reset();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should disable sources immediately and persist the change', async () => {
+        const service = new SourceSettingsService();
+        const result = await service.setEnabled('migu', false);
+
+        expect(result).toMatchObject({ source: 'migu', previous: true });
+        expect(isSourceEnabled('migu')).toBe(false);
+        expect(getSourceDescriptions().find(item => item.startsWith('migu '))).toContain('已禁用');
+        expect(JSON.parse(fs.readFileSync(config.SOURCE_SETTINGS_PATH, 'utf8')).enabled).toEqual({ migu: false });
+    });
+
+    it('should reorder default sources and toggle FOLLOW_SOURCE_ORDER for the unblock module', async () => {
+        const service = new SourceSettingsService();
+        const snapshot = await service.setOrder(['kuwo', 'tencent', 'kugou'], false);
+
+        expect(DEFAULT_SOURCES).toEqual(['kuwo', 'qq', 'kugou']);
+        expect(snapshot.sources.find(item => item.source === 'qq')?.order).toBe(2);
+        expect(config.FOLLOW_SOURCE_ORDER).toBe(false);
+        expect(process.env.FOLLOW_SOURCE_ORDER).toBeUndefined();
+
+        await service.setOrder(undefined, true);
+        expect(process.env.FOLLOW_SOURCE_ORDER).toBe('true');
+    });
+
+    it('should reject unknown, non-matching and duplicated sources', async () => {
+        const service = new SourceSettingsService();
+
+        await expect(service.setEnabled('unknown', false)).rejects.toMatchObject({ statusCode: 400 });
+        await expect(service.setOrder(['netease'])).rejects.toThrow('不支持的音源');
+        await expect(service.setOrder(['kugou', 'kugou'])).rejects.toThrow('音源重复');
+    });
+
+    it('should pick up changes made by another process', async () => {
+        const worker = new SourceSettingsService();
+        await worker.initialize();
+
+        await new SourceSettingsService().setOrder(['kugou', 'kuwo']);
+        await new SourceSettingsService().setEnabled('kuwo', false);
+        // 模拟另一个进程：内存中的设置还是旧的
+        setSourceEnabledOverrides({});
+
+        expect(await worker.sync()).toBe(true);
+        expect(isSourceEnabled('kuwo')).toBe(false);
+        expect(DEFAULT_SOURCES).toEqual(['kugou', 'kuwo']);
+        expect(await worker.sync()).toBe(false);
+    });
+
+    it('should restore configured settings on reset', async () => {
+        const service = new SourceSettingsService();
+        await service.setEnabled('kugou', false);
+        await service.setOrder(['kuwo'], !originalFollow);
+        expect(rankingConfig.DEFAULT_SOURCES).toEqual(['kuwo']);
+
+        const snapshot = await service.reset();
+
+        expect(isSourceEnabled('kugou')).toBe(true);
+        expect(snapshot.defaultSources).toEqual(originalSources);
+        expect(rankingConfig.DEFAULT_SOURCES).toEqual(originalRanking);
+        expect(config.FOLLOW_SOURCE_ORDER).toBe(originalFollow);
+    });
+});
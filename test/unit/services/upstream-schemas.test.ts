@@ -0,0 +1,102 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+    GdStudioProvider,
+    matchResultSchema,
+    parseUpstream
+} from '../../../src/services/providers';
+import { searchResultSchema, urlResultSchema } from '../../../src/services/providers/schemas';
+import { ErrorType } from '../../../src/utils/errors';
+import logger from '../../../src/utils/logger';
+
+describe('upstream schemas', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should produce typed url results and drop undeclared fields', () => {
+        const result = parseUpstream('url', 'kuwo', urlResultSchema, {
+            url: 'https://example.com/a.mp3',
+            br: '320',
+            size: 1024,
+            md5: null,
+            extra: 'ignored'
+        });
+
+        expect(result).toEqual({ url: 'https://example.com/a.mp3', br: 320, size: 1024 });
+    });
+
+    it('should keep undeclared song fields for search results', () => {
+        const result = parseUpstream('search', 'kuwo', searchResultSchema, {
+            songs: [{ id: 42, name: 'song', artist: ['A', 'B'], album: { name: 'album' }, url_id: 7 }]
+        });
+
+        expect(result.songs[0]).toMatchObject({ id: '42', artist: ['A', 'B'], url_id: 7 });
+    });
+
+    it('should report the offending fields as an UPSTREAM_SCHEMA error', () => {
+        const warn = jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+
+        let thrown: any;
+        try {
+            parseUpstream('match', 'kugou', matchResultSchema, { url: { href: 'x' }, br: 'fast' });
+        } catch (error) {
+            thrown = error;
+        }
+
+        expect(thrown).toMatchObject({ type: ErrorType.UPSTREAM_SCHEMA, statusCode: 502 });
+        expect(thrown.data.fields).toEqual(['url', 'br']);
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('match'), expect.objectContaining({
+            source: 'kugou',
+            issues: [
+                { path: 'url', expected: 'string', received: 'object' },
+                { path: 'br', expected: 'number', received: 'string' }
+            ]
+        }));
+    });
+
+    describe('GdStudioProvider', () => {
+        let server: http.Server;
+        let provider: GdStudioProvider;
+
+        beforeAll(async () => {
+            // 模拟结构已变化的上游
+            server = http.createServer((req, res) => {
+                const params = new URL(req.url || '/', 'http://localhost').searchParams;
+                const type = params.get('types');
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                if (type === 'lyric') {
+                    // id=2 模拟纯音乐，上游不返回歌词
+                    res.end(JSON.stringify(params.get('id') === '2' ? { lyric: null, tlyric: '' } : { lyric: { text: 'changed' } }));
+                    return;
+                }
+                res.end(JSON.stringify(type === 'search'
+                    ? [{ id: 1, name: 'ok' }, { id: 2, name: { text: 'changed' } }]
+                    : { data: { url: 'https://example.com/a.mp3' } }));
+            });
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+            provider = new GdStudioProvider(new URL(`http://127.0.0.1:${(server.address() as AddressInfo).port}/api.php`));
+        });
+
+        afterAll(async () => {
+            await new Promise(resolve => server.close(resolve));
+        });
+
+        beforeEach(() => {
+            jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+        });
+
+        it('should reject drifted payloads instead of returning empty results', async () => {
+            await expect(provider.search({ keyword: 'k', source: 'kuwo', count: 10, page: 1 }))
+                .rejects.toMatchObject({ type: ErrorType.UPSTREAM_SCHEMA, data: { fields: ['[1].name'] } });
+            await expect(provider.getLyric({ id: '1', source: 'kuwo' }))
+                .rejects.toMatchObject({ type: ErrorType.UPSTREAM_SCHEMA, data: { fields: ['lyric'] } });
+            await expect(provider.getPic({ id: '1', source: 'kuwo', size: 300 }))
+                .rejects.toMatchObject({ type: ErrorType.UPSTREAM_SCHEMA, data: { fields: ['url'] } });
+        });
+
+        it('should accept lyric payloads without lyrics for instrumental tracks', async () => {
+            await expect(provider.getLyric({ id: '2', source: 'kuwo' })).resolves.toEqual({ tlyric: '' });
+        });
+    });
+});
@@ -0,0 +1,55 @@
+/// <reference types="jest" />
+import { config } from '../../src/config/env';
+import {
+    findSource,
+    getCatalogCode,
+    getDefaultMatchSources,
+    getDefaultQualityScores,
+    getDefaultRankingSources,
+    getSourcesFor,
+    getSourceSwitches,
+    getTrackIdPatterns,
+    isSourceEnabled
+} from '../../src/config/source-registry';
+import { DEFAULT_SOURCES } from '../../src/config/sources';
+import { getSourceDescriptions } from '../../src/config/music-sources';
+import { musicService } from '../../src/services/music';
+
+describe('Source registry', () => {
+    afterEach(() => {
+        config.ENABLE_TENCENT = true;
+    });
+
+    test('should resolve unblock codes, catalog names and aliases to one source', () => {
+        expect(findSource('qq')).toBe('qq');
+        expect(findSource('Tencent')).toBe('qq');
+        expect(findSource('ytmusic')).toBe('youtube');
+        expect(getCatalogCode('qq')).toBe('tencent');
+        expect(findSource('unknown')).toBeNull();
+    });
+
+    test('should derive default sources, quality scores and ID formats', () => {
+        expect(DEFAULT_SOURCES).toEqual(getDefaultMatchSources());
+        expect(DEFAULT_SOURCES).toEqual(['kugou', 'kuwo', 'migu', 'ytdlp', 'bilibili', 'qq', 'youtube', 'joox']);
+        expect(getDefaultRankingSources()).toEqual(['kugou', 'kuwo', 'migu', 'ytdlp', 'bilibili']);
+        expect(getDefaultQualityScores()).toMatchObject({ qq: 85, migu: 90, ytdlp: 95 });
+        expect(Object.keys(getTrackIdPatterns())).toEqual(expect.arrayContaining(['netease', 'tencent', 'ytmusic', 'bilibili']));
+        expect(getSourcesFor('search')).not.toContain('ytdlp');
+        expect(getSourcesFor('match')).not.toContain('netease');
+    });
+
+    test('should apply enable switches to the matching source', () => {
+        config.ENABLE_TENCENT = false;
+
+        expect(isSourceEnabled('qq')).toBe(false);
+        expect(getSourceSwitches()).toMatchObject({ tencent: false, kugou: true });
+        expect(getSourceDescriptions().find(item => item.startsWith('qq '))).toContain('已禁用');
+    });
+
+    test('should validate search sources against the registry', async () => {
+        await expect(musicService.search('晴天', 'bilibili')).rejects.toThrow('不支持的音乐源: bilibili');
+
+        config.ENABLE_TENCENT = false;
+        await expect(musicService.search('晴天', 'qq')).rejects.toThrow('音乐源 tencent 已禁用');
+    });
+});
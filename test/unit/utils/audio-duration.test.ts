@@ -0,0 +1,30 @@
+import { checkMatchDuration, estimateDuration } from '../../../src/utils/audio-duration';
+
+describe('audio-duration', () => {
+    it('should estimate duration from size and bitrate', () => {
+        expect(estimateDuration(9600000, 320000)).toBe(240);
+        expect(estimateDuration(undefined, 320000)).toBeUndefined();
+        expect(estimateDuration(9600000, 0)).toBeUndefined();
+    });
+
+    it('should flag short clips of long songs as trials', () => {
+        expect(checkMatchDuration(30, 240, 128000, 20)).toMatchObject({ ok: false, rejection: 'trial' });
+        // 原曲本身很短时不算试听
+        expect(checkMatchDuration(45, 50, 128000, 20).ok).toBe(true);
+    });
+
+    it('should flag lossy files whose duration differs from the original', () => {
+        expect(checkMatchDuration(100, 240, 320000, 20)).toMatchObject({ ok: false, rejection: 'mismatch' });
+        expect(checkMatchDuration(250, 240, 320000, 20).ok).toBe(true);
+    });
+
+    it('should only flag lossless files that are clearly too long', () => {
+        expect(checkMatchDuration(180, 240, 999000, 20).ok).toBe(true);
+        expect(checkMatchDuration(400, 240, 999000, 20)).toMatchObject({ ok: false, rejection: 'mismatch' });
+    });
+
+    it('should accept results when either duration is unknown', () => {
+        expect(checkMatchDuration(undefined, 240, 320000, 20).ok).toBe(true);
+        expect(checkMatchDuration(30, undefined, 320000, 20).ok).toBe(true);
+    });
+});
@@ -0,0 +1,59 @@
+import { config } from '../../../src/config/env';
+import {
+    getBitrateCeiling,
+    getBitrateLadder,
+    getQualityLevel,
+    isValidBitrate,
+    normalizeBitrate
+} from '../../../src/utils/bitrate';
+
+describe('bitrate', () => {
+    const originalConfig = { ...config };
+
+    afterEach(() => {
+        Object.assign(config, originalConfig);
+    });
+
+    it('should derive the ceiling from SELECT_MAX_BR and ENABLE_FLAC', () => {
+        config.ENABLE_FLAC = true;
+        config.SELECT_MAX_BR = true;
+        expect(getBitrateCeiling()).toBe(999);
+        expect(getBitrateCeiling('192')).toBe(192);
+
+        config.SELECT_MAX_BR = false;
+        expect(getBitrateCeiling()).toBe(320);
+
+        config.ENABLE_FLAC = false;
+        config.SELECT_MAX_BR = true;
+        expect(getBitrateCeiling()).toBe(320);
+        expect(getBitrateCeiling('999')).toBe(320);
+    });
+
+    it('should walk down from the ceiling and skip lossless tiers without FLAC', () => {
+        config.ENABLE_FLAC = true;
+        expect(getBitrateLadder(999)).toEqual([999, 740, 320, 192, 128]);
+        expect(getBitrateLadder(320)).toEqual([320, 192, 128]);
+
+        config.ENABLE_FLAC = false;
+        expect(getBitrateLadder(999)).toEqual([320, 192, 128]);
+    });
+
+    it('should validate tiers and normalize bitrates reported in bps', () => {
+        expect(isValidBitrate('740')).toBe(true);
+        expect(isValidBitrate('256')).toBe(false);
+        expect(isValidBitrate('320abc')).toBe(false);
+        expect(normalizeBitrate(320000)).toBe(320);
+        expect(normalizeBitrate('192')).toBe(192);
+        expect(normalizeBitrate(undefined)).toBe(0);
+    });
+
+    it('should map bitrates to quality labels', () => {
+        expect(getQualityLevel(128)).toBe('standard');
+        expect(getQualityLevel(192)).toBe('higher');
+        expect(getQualityLevel(320)).toBe('exhigh');
+        expect(getQualityLevel(740)).toBe('lossless');
+        expect(getQualityLevel(999)).toBe('hires');
+        expect(getQualityLevel(320, 'lossless')).toBe('lossless');
+        expect(getQualityLevel(320, 'unknown')).toBe('exhigh');
+    });
+});
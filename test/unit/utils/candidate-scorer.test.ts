@@ -0,0 +1,49 @@
+import { normalizeText, rankCandidates, scoreCandidate } from '../../../src/utils/candidate-scorer';
+
+describe('candidate-scorer', () => {
+    it('should normalize width, case and punctuation', () => {
+        expect(normalizeText('Ｈｅｌｌｏ, World!')).toBe('helloworld');
+    });
+
+    it('should prefer the original over live, karaoke, remix and DJ versions', () => {
+        const ranked = rankCandidates({ title: '晴天' }, [
+            { id: '1', name: '晴天 (Live)', artist: '周杰伦' },
+            { id: '2', name: '晴天 (伴奏)', artist: '周杰伦' },
+            { id: '3', name: '晴天 (DJ版)', artist: '某DJ' },
+            { id: '4', name: '晴天', artist: '周杰伦' },
+            { id: '5', name: '晴天 Remix', artist: '周杰伦' }
+        ]);
+
+        expect(ranked[0].song.id).toBe('4');
+        expect(ranked[0].score).toMatchObject({ score: 1, penalties: [] });
+        expect(ranked.slice(1).every(candidate => candidate.score.penalties.length === 1)).toBe(true);
+    });
+
+    it('should not penalize versions the query asked for', () => {
+        const score = scoreCandidate({ title: '晴天 live' }, { id: '1', name: '晴天 (Live)', artist: '周杰伦' });
+        expect(score.penalties).toEqual([]);
+    });
+
+    it('should use artist overlap from hints or from the query text', () => {
+        const songs = [
+            { id: '1', name: '晴天', artist: '翻唱歌手' },
+            { id: '2', name: '晴天', artist: ['周杰伦'] }
+        ];
+
+        expect(rankCandidates({ title: '晴天', artist: '周杰伦' }, songs)[0].song.id).toBe('2');
+        const fromQuery = rankCandidates({ title: '晴天 周杰伦' }, songs);
+        expect(fromQuery[0].song.id).toBe('2');
+        expect(fromQuery[0].score.artist).toBe(1);
+    });
+
+    it('should score duration closeness only when both durations are known', () => {
+        const close = scoreCandidate({ title: '晴天', duration: 269 }, { name: '晴天', duration: 269000 });
+        const far = scoreCandidate({ title: '晴天', duration: 269 }, { name: '晴天', duration: 120 });
+        const unknown = scoreCandidate({ title: '晴天', duration: 269 }, { name: '晴天' });
+
+        expect(close.duration).toBe(1);
+        expect(far.duration).toBe(0);
+        expect(unknown.duration).toBeUndefined();
+        expect(close.score).toBeGreaterThan(far.score);
+    });
+});
@@ -0,0 +1,106 @@
+import { config } from '../../../src/config/env';
+import { Deadline, resolveDeadlineBudget, waitWithin } from '../../../src/utils/deadline';
+
+describe('Deadline', () => {
+    it('should abort its signal when the budget runs out', async () => {
+        const deadline = new Deadline(20);
+
+        expect(deadline.expired).toBe(false);
+        expect(deadline.remaining()).toBeLessThanOrEqual(20);
+
+        await new Promise(resolve => setTimeout(resolve, 40));
+        expect(deadline.signal.aborted).toBe(true);
+        expect(deadline.signal.reason?.name).toBe('AbortError');
+        expect(deadline.remaining()).toBe(0);
+    });
+
+    it('should cap child steps by the remaining budget and cancel them with the parent', () => {
+        const parent = new Deadline(1000);
+        const capped = parent.child(100);
+        const rest = parent.child();
+
+        expect(capped.expiresAt).toBeLessThanOrEqual(parent.expiresAt);
+        expect(capped.remaining()).toBeLessThanOrEqual(100);
+        expect(rest.expiresAt).toBe(parent.expiresAt);
+
+        // 子步骤释放不影响请求本身
+        capped.dispose();
+        expect(parent.expired).toBe(false);
+
+        parent.cancel();
+        expect(rest.expired).toBe(true);
+        expect(parent.child().expired).toBe(true);
+    });
+
+    it('should let uncapped child steps end with the parent instead of their own timer', async () => {
+        const parent = new Deadline(20);
+        const capped = parent.child(10);
+        const rest = parent.child(1000);
+        let parentExpiredFirst = false;
+        rest.signal.addEventListener('abort', () => {
+            parentExpiredFirst = parent.expired;
+        });
+
+        await new Promise(resolve => setTimeout(resolve, 40));
+        expect(capped.expired).toBe(true);
+        expect(rest.expired).toBe(true);
+        expect(parentExpiredFirst).toBe(true);
+    });
+
+    it('should release the timer without aborting on dispose', async () => {
+        const deadline = new Deadline(10);
+        deadline.dispose();
+
+        await new Promise(resolve => setTimeout(resolve, 30));
+        expect(deadline.expired).toBe(false);
+    });
+});
+
+describe('waitWithin', () => {
+    it('should stop waiting at the deadline while the task keeps running', async () => {
+        let finished = false;
+        const task = new Promise(resolve => setTimeout(() => {
+            finished = true;
+            resolve('done');
+        }, 60));
+
+        await expect(waitWithin(new Deadline(10), () => task)).rejects.toMatchObject({ statusCode: 504 });
+        await expect(waitWithin(new Deadline(1000), () => task)).resolves.toBe('done');
+        expect(finished).toBe(true);
+    });
+
+    it('should not start the task once the deadline has passed', async () => {
+        const task = jest.fn().mockResolvedValue('done');
+
+        await expect(waitWithin(new Deadline(0), task)).rejects.toMatchObject({ statusCode: 504 });
+        await expect(waitWithin(undefined, task)).resolves.toBe('done');
+        expect(task).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('resolveDeadlineBudget', () => {
+    const originalTimeout = config.REQUEST_TIMEOUT;
+    const originalMax = config.REQUEST_DEADLINE_MAX;
+
+    beforeEach(() => {
+        config.REQUEST_TIMEOUT = 15000;
+        config.REQUEST_DEADLINE_MAX = 30000;
+    });
+
+    afterAll(() => {
+        config.REQUEST_TIMEOUT = originalTimeout;
+        config.REQUEST_DEADLINE_MAX = originalMax;
+    });
+
+    it('should default to REQUEST_TIMEOUT and clamp client hints', () => {
+        expect(resolveDeadlineBudget()).toBe(15000);
+        expect(resolveDeadlineBudget('8000')).toBe(8000);
+        expect(resolveDeadlineBudget('200')).toBe(1000);
+        expect(resolveDeadlineBudget('600000')).toBe(30000);
+    });
+
+    it('should reject malformed hints', () => {
+        expect(() => resolveDeadlineBudget('abc')).toThrow('timeout');
+        expect(() => resolveDeadlineBudget('-5')).toThrow('timeout');
+    });
+});
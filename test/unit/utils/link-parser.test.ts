@@ -0,0 +1,42 @@
+import { extractUrl, isShareLinkHost, isShortLink, parseShareLink } from '../../../src/utils/link-parser';
+
+const parse = (url: string) => parseShareLink(new URL(url));
+
+describe('link-parser', () => {
+    it('should parse NetEase links with the id in the hash, query or path', () => {
+        expect(parse('https://music.163.com/#/song?id=1859245776')?.canonical).toBe('netease:1859245776');
+        expect(parse('https://y.music.163.com/m/song?id=1859245776&userid=1')?.canonical).toBe('netease:1859245776');
+        expect(parse('https://music.163.com/song/1859245776/?userid=1')?.canonical).toBe('netease:1859245776');
+        expect(parse('https://music.163.com/#/playlist?id=3778678')).toBeNull();
+    });
+
+    it('should parse QQ Music, Kugou and Kuwo links', () => {
+        expect(parse('https://y.qq.com/n/ryqq/songDetail/0039MnYb0qxYhV')?.canonical).toBe('tencent:0039MnYb0qxYhV');
+        expect(parse('https://i.y.qq.com/v8/playsong.html?songmid=0039MnYb0qxYhV')?.canonical).toBe('tencent:0039MnYb0qxYhV');
+        expect(parse('https://www.kugou.com/song/#hash=4E6DD2C8FFF34B4B2A2B8DD9F3A4A9B5&album_id=1')?.canonical)
+            .toBe('kugou:4E6DD2C8FFF34B4B2A2B8DD9F3A4A9B5');
+        expect(parse('https://m.kuwo.cn/newh5app/play_detail/228908')?.canonical).toBe('kuwo:228908');
+    });
+
+    it('should reject Bilibili links because they cannot be resolved to a direct link', () => {
+        expect(() => parse('https://www.bilibili.com/audio/au1234567')).toThrow('B站音乐暂不支持获取播放链接: bilibili:au1234567');
+        expect(() => parse('https://www.bilibili.com/video/BV1xx411c7mD?p=1')).toThrow('B站音乐暂不支持获取播放链接');
+    });
+
+    it('should reject ids that do not match the source format', () => {
+        expect(() => parse('https://www.kugou.com/song/#hash=abc')).toThrow('无效的kugou歌曲ID');
+    });
+
+    it('should extract the link from pasted share text', () => {
+        expect(extractUrl('分享歌曲: 晴天 https://163cn.tv/abc123 (来自@网易云音乐)')).toBe('https://163cn.tv/abc123');
+        expect(extractUrl('没有链接')).toBeNull();
+    });
+
+    it('should only allow known platform hosts', () => {
+        expect(isShortLink(new URL('https://163cn.tv/abc123'))).toBe(true);
+        expect(isShortLink(new URL('https://music.163.com/#/song?id=1'))).toBe(false);
+        expect(isShareLinkHost(new URL('https://b23.tv/xyz'))).toBe(true);
+        expect(isShareLinkHost(new URL('https://evil.example.com/song?id=1'))).toBe(false);
+        expect(isShareLinkHost(new URL('ftp://music.163.com/song?id=1'))).toBe(false);
+    });
+});
@@ -0,0 +1,32 @@
+import { resolveNetworkPolicy } from '../../../src/utils/network-hints';
+
+describe('network-hints', () => {
+    it('should prefer the explicit network parameter', () => {
+        expect(resolveNetworkPolicy('3G', { ect: '4g' })).toEqual({
+            type: '3g',
+            via: 'query',
+            saveData: false,
+            maxBr: 192
+        });
+    });
+
+    it('should map ECT hints and tighten them with Save-Data', () => {
+        expect(resolveNetworkPolicy(undefined, { ect: 'slow-2g' })).toMatchObject({ type: '2g', via: 'client-hints', maxBr: 128 });
+        expect(resolveNetworkPolicy(undefined, { ect: '4g', 'save-data': 'on' })).toMatchObject({ type: '3g', saveData: true });
+        expect(resolveNetworkPolicy(undefined, { ect: '2g', 'save-data': 'on' })).toMatchObject({ type: '2g' });
+        expect(resolveNetworkPolicy(undefined, { 'save-data': 'on' })).toMatchObject({ type: '3g', via: 'client-hints' });
+    });
+
+    it('should fall back to an unknown network without hints', () => {
+        expect(resolveNetworkPolicy(undefined, {})).toEqual({
+            type: 'unknown',
+            via: 'default',
+            saveData: false,
+            maxBr: 999
+        });
+    });
+
+    it('should reject unsupported network types', () => {
+        expect(() => resolveNetworkPolicy('5g', {})).toThrow('无效的网络类型');
+    });
+});
@@ -0,0 +1,39 @@
+import { assertTrackOperation, parseResourceId, parseTrackId } from '../../../src/utils/track-id';
+
+describe('track-id', () => {
+    it('should treat bare numeric ids as NetEase unless a source is given', () => {
+        expect(parseTrackId('1859245776')).toEqual({
+            source: 'netease',
+            id: '1859245776',
+            canonical: 'netease:1859245776',
+            explicit: false
+        });
+        expect(parseTrackId('228908', 'kuwo')).toMatchObject({ source: 'kuwo', canonical: 'kuwo:228908', explicit: true });
+    });
+
+    it('should parse prefixed ids with per-source validation and aliases', () => {
+        expect(parseTrackId('qq:0039MnYb0qxYhV')).toMatchObject({ source: 'tencent', id: '0039MnYb0qxYhV', explicit: true });
+        expect(parseTrackId('kugou:4E6DD2C8FFF34B4B2A2B8DD9F3A4A9B5').id).toBe('4E6DD2C8FFF34B4B2A2B8DD9F3A4A9B5');
+        expect(parseTrackId('youtube:dQw4w9WgXcQ').canonical).toBe('ytmusic:dQw4w9WgXcQ');
+    });
+
+    it('should reject malformed ids, unknown sources and conflicting prefixes', () => {
+        expect(() => parseTrackId('abc')).toThrow('网易云歌曲ID应为数字');
+        expect(() => parseTrackId('kugou:123')).toThrow('无效的kugou歌曲ID');
+        expect(() => parseTrackId('foo:123')).toThrow('不支持的音乐源');
+        expect(() => parseTrackId('kuwo:123', 'netease')).toThrow('不一致');
+        expect(() => parseTrackId('')).toThrow('缺少必要参数');
+    });
+
+    it('should reject operations the source does not support', () => {
+        const bilibili = parseTrackId('bilibili:BV1xx411c7mD');
+        expect(() => assertTrackOperation(bilibili, 'url')).toThrow('B站音乐暂不支持获取播放链接');
+        expect(() => assertTrackOperation(bilibili, 'match')).not.toThrow();
+        expect(() => assertTrackOperation(parseTrackId('kuwo:228908'), 'url')).not.toThrow();
+    });
+
+    it('should only check characters for resource ids', () => {
+        expect(parseResourceId('tencent:002MAeob3zLXwZ')).toMatchObject({ source: 'tencent', id: '002MAeob3zLXwZ' });
+        expect(() => parseResourceId('netease:../etc')).toThrow('无效的ID参数');
+    });
+});
@@ -0,0 +1,31 @@
+import { getUrlExpiry } from '../../../src/utils/url-expiry';
+
+describe('url-expiry', () => {
+    const now = Date.UTC(2024, 0, 1, 0, 0, 0);
+
+    it('should read common signature parameters', () => {
+        expect(getUrlExpiry('https://cdn.example.com/a.mp3?Expires=1704070800&Signature=x', undefined, now)).toBe(1704070800 * 1000);
+        expect(getUrlExpiry('https://s3.example.com/a.mp3?X-Amz-Date=20240101T000000Z&X-Amz-Expires=600', undefined, now)).toBe(now + 600 * 1000);
+        expect(getUrlExpiry('https://cdn.example.com/a.mp3?auth_key=1704067500-0-0-abc', undefined, now)).toBe(1704067500 * 1000);
+    });
+
+    it('should treat a past wsTime as the issue time', () => {
+        const issued = Math.floor(now / 1000) - 600;
+
+        expect(getUrlExpiry(`https://other.example.com/a.mp3?wsSecret=x&wsTime=${issued}`, 'kuwo', now)).toBe((issued + 3600) * 1000);
+        expect(getUrlExpiry(`https://other.example.com/a.mp3?wsTime=${(issued + 7200).toString(16)}`, 'kuwo', now)).toBe((issued + 7200) * 1000);
+    });
+
+    it('should read per-source formats by source or host', () => {
+        // 路径中的时间为北京时间
+        expect(getUrlExpiry('https://m701.music.126.net/20240101082000/abc/jdymusic/obj/a.mp3', undefined, now)).toBe(now + 20 * 60 * 1000);
+        expect(getUrlExpiry('https://webfs.tx.kugou.com/202401010830/abc/a.mp3', 'kugou', now)).toBe(now + 30 * 60 * 1000);
+        expect(getUrlExpiry('https://isure.stream.qqmusic.qq.com/M500.mp3?guid=1&vkey=ABC&uin=0', undefined, now)).toBe(now + 60 * 60 * 1000);
+    });
+
+    it('should take the earliest deadline and ignore unsigned links', () => {
+        expect(getUrlExpiry('https://m701.music.126.net/20240101090000/abc/a.mp3?Expires=1704067260', undefined, now)).toBe(1704067260 * 1000);
+        expect(getUrlExpiry('https://example.com/a.mp3', 'netease', now)).toBeNull();
+        expect(getUrlExpiry('not a url', undefined, now)).toBeNull();
+    });
+});
@@ -0,0 +1,95 @@
+import { config } from '../../../src/config/env';
+import {
+    buildSignedPlaybackUrl,
+    signPlaybackParams,
+    verifyPlaybackSignature
+} from '../../../src/utils/url-signer';
+
+describe('url-signer', () => {
+    const originalConfig = { ...config };
+
+    beforeEach(() => {
+        config.URL_SIGNING_SECRET = 'current-secret-current-secret-0001';
+        config.URL_SIGNING_PREVIOUS_SECRET = undefined;
+        config.URL_SIGNING_ROTATED_AT = undefined;
+        config.URL_SIGNING_GRACE_PERIOD = 3600;
+        config.SIGNED_URL_TTL = 3600;
+        config.API_KEYS = 'key-one,key-two';
+    });
+
+    afterEach(() => {
+        Object.assign(config, originalConfig);
+        jest.useRealTimers();
+    });
+
+    it('should verify a freshly signed link', () => {
+        const query = signPlaybackParams({ id: '1859245776', br: '320', source: 'kuwo' });
+
+        expect(verifyPlaybackSignature(query)).toEqual({ valid: true });
+    });
+
+    it('should reject tampered parameters', () => {
+        const query = signPlaybackParams({ id: '1859245776', br: '320' });
+
+        expect(verifyPlaybackSignature({ ...query, br: '999' }).valid).toBe(false);
+        expect(verifyPlaybackSignature({ ...query, source: 'kugou' }).valid).toBe(false);
+        expect(verifyPlaybackSignature({ ...query, sig: 'x' + query.sig.slice(1) }).valid).toBe(false);
+    });
+
+    it('should reject expired links', () => {
+        const query = signPlaybackParams({ id: '1859245776' }, { ttl: 60 });
+
+        jest.useFakeTimers({ now: Date.now() + 61 * 1000 });
+
+        expect(verifyPlaybackSignature(query)).toEqual({ valid: false, reason: '链接已过期' });
+    });
+
+    it('should accept the previous secret only within the grace window', () => {
+        const query = signPlaybackParams({ id: '1859245776' }, { ttl: 7200 });
+
+        // 轮换密钥
+        config.URL_SIGNING_PREVIOUS_SECRET = config.URL_SIGNING_SECRET;
+        config.URL_SIGNING_SECRET = 'rotated-secret-rotated-secret-0002';
+        config.URL_SIGNING_ROTATED_AT = new Date().toISOString();
+        expect(verifyPlaybackSignature(query).valid).toBe(true);
+
+        jest.useFakeTimers({ now: Date.now() + 3601 * 1000 });
+        expect(verifyPlaybackSignature(query).valid).toBe(false);
+    });
+
+    it('should measure the grace window from the configured rotation time', () => {
+        const query = signPlaybackParams({ id: '1859245776' }, { ttl: 7200 });
+        config.URL_SIGNING_PREVIOUS_SECRET = config.URL_SIGNING_SECRET;
+        config.URL_SIGNING_SECRET = 'rotated-secret-rotated-secret-0002';
+
+        // 未配置轮换时间时不接受旧密钥
+        expect(verifyPlaybackSignature(query).valid).toBe(false);
+
+        // 轮换发生在宽限期之前，无论服务何时启动旧密钥都不再有效
+        config.URL_SIGNING_ROTATED_AT = String(Math.floor(Date.now() / 1000) - 3601);
+        expect(verifyPlaybackSignature(query)).toEqual({ valid: false, reason: '签名不匹配' });
+
+        config.URL_SIGNING_ROTATED_AT = String(Math.floor(Date.now() / 1000) - 60);
+        expect(verifyPlaybackSignature(query).valid).toBe(true);
+    });
+
+    it('should invalidate links bound to a revoked API key', () => {
+        const query = signPlaybackParams({ id: '1859245776' }, { apiKey: 'key-two' });
+
+        expect(query.kf).toBeDefined();
+        expect(verifyPlaybackSignature(query).valid).toBe(true);
+
+        config.API_KEYS = 'key-one';
+        expect(verifyPlaybackSignature(query)).toEqual({ valid: false, reason: 'API密钥已失效' });
+    });
+
+    it('should build absolute urls against BASE_URL', () => {
+        config.BASE_URL = 'https://music.example.com';
+
+        const signed = buildSignedPlaybackUrl('/v1/api/stream', { id: '1859245776', br: '320' });
+        const url = new URL(signed.url);
+
+        expect(url.origin + url.pathname).toBe('https://music.example.com/v1/api/stream');
+        expect(verifyPlaybackSignature(Object.fromEntries(url.searchParams)).valid).toBe(true);
+    });
+});